@@ -0,0 +1,21 @@
+import { MOCK_API_ENABLED } from "../../lib/api";
+import { getMockApi } from "../../lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+// 仅在 NEXT_PUBLIC_MOCK_API=true 时响应，正常部署下同源的 /api 一律 404。
+async function handle(request: Request) {
+  if (!MOCK_API_ENABLED) {
+    return Response.json(
+      { code: 404, message: "Not Found", data: null },
+      { status: 404 },
+    );
+  }
+  return getMockApi().handle(request);
+}
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import AuditChangeList from "../components/AuditChangeList";
+import useLatestRequest from "../components/useLatestRequest";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditLog,
+  fetchAuditLogs,
+} from "../lib/auditLogs";
+
+type AuditFilters = {
+  entityType: string;
+  action: string;
+  actor: string;
+  startDate: string;
+  endDate: string;
+};
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS: AuditFilters = {
+  entityType: "",
+  action: "",
+  actor: "",
+  startDate: "",
+  endDate: "",
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function formatDateTime(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value || "-";
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [actorInput, setActorInput] = useState("");
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const beginRequest = useLatestRequest();
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const loadLogs = useCallback(async () => {
+    const signal = beginRequest("logs");
+    try {
+      setIsLoading(true);
+      const result = await fetchAuditLogs(
+        {
+          ...filters,
+          page,
+          pageSize: PAGE_SIZE,
+        },
+        signal,
+      );
+      if (signal.aborted) {
+        return;
+      }
+      setLogs(result.items);
+      setTotal(result.total);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      setLogs([]);
+      setTotal(0);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [beginRequest, filters, page]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  function updateFilter(key: keyof AuditFilters, value: string) {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  }
+
+  function resetFilters() {
+    setFilters(EMPTY_FILTERS);
+    setActorInput("");
+    setPage(1);
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">操作记录</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          记工、员工与项目的每次新增、修改与删除都会留痕，可按对象、操作人与日期筛选。
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={filters.entityType}
+            onChange={(event) => updateFilter("entityType", event.target.value)}
+            className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+          >
+            <option value="">全部对象</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.action}
+            onChange={(event) => updateFilter("action", event.target.value)}
+            className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+          >
+            <option value="">全部操作</option>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={actorInput}
+            onChange={(event) => setActorInput(event.target.value)}
+            onBlur={() => updateFilter("actor", actorInput.trim())}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                updateFilter("actor", actorInput.trim());
+              }
+            }}
+            placeholder="操作人"
+            className="h-8 w-32 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+          />
+          <input
+            type="date"
+            value={filters.startDate}
+            onChange={(event) => updateFilter("startDate", event.target.value)}
+            className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+          />
+          <span className="text-xs text-[color:var(--muted-foreground)]">至</span>
+          <input
+            type="date"
+            value={filters.endDate}
+            min={filters.startDate || undefined}
+            onChange={(event) => updateFilter("endDate", event.target.value)}
+            className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+          />
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+          >
+            重置
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[color:var(--muted-foreground)]">
+              <tr>
+                <th className="w-[140px] min-w-[140px] pb-1 font-medium">时间</th>
+                <th className="pb-1 font-medium">操作人</th>
+                <th className="pb-1 font-medium">对象</th>
+                <th className="pb-1 font-medium">操作</th>
+                <th className="pb-1 font-medium">变更内容</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td
+                    colSpan={5}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    <div className="flex items-center justify-center gap-2">
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                      <span>加载中</span>
+                    </div>
+                  </td>
+                </tr>
+              ) : logs.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={5}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    暂无记录
+                  </td>
+                </tr>
+              ) : (
+                logs.map((log) => (
+                  <tr
+                    key={log.id}
+                    className="border-t border-[color:var(--border)] align-top"
+                  >
+                    <td className="whitespace-nowrap py-2 text-[color:var(--muted-foreground)]">
+                      {formatDateTime(log.createdAt)}
+                    </td>
+                    <td className="whitespace-nowrap py-2 text-foreground">
+                      {log.actorName || "未知用户"}
+                    </td>
+                    <td className="py-2 text-foreground">
+                      <span className="mr-1 text-[color:var(--muted-foreground)]">
+                        {AUDIT_ENTITY_LABELS[log.entityType]}
+                      </span>
+                      {log.entityLabel || log.entityId}
+                    </td>
+                    <td className="whitespace-nowrap py-2 text-foreground">
+                      {AUDIT_ACTION_LABELS[log.action]}
+                    </td>
+                    <td className="py-2">
+                      <AuditChangeList changes={log.changes} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-[color:var(--muted-foreground)]">
+          <span>共 {total} 条</span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page <= 1 || isLoading}
+              className="rounded-md border border-[color:var(--border)] px-2 py-1 text-xs text-foreground disabled:opacity-50"
+            >
+              上一页
+            </button>
+            <span>
+              {total === 0 ? 0 : page} / {total === 0 ? 0 : totalPages}
+            </span>
+            <button
+              type="button"
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page >= totalPages || isLoading}
+              className="rounded-md border border-[color:var(--border)] px-2 py-1 text-xs text-foreground disabled:opacity-50"
+            >
+              下一页
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { fireEvent, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import AbsenceModal from "./AbsenceModal";
+import {
+  MockApiHarness,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+
+// 模拟后端没有月份锁定接口，这里锁定 2026-11。
+function stubLockedMonth() {
+  const mockFetch = globalThis.fetch;
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = String(input instanceof Request ? input.url : input);
+      if (url.includes("/api/period-locks")) {
+        return Response.json([{ month: "2026-11", is_locked: true }]);
+      }
+      return mockFetch(input, init);
+    },
+  );
+}
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  stubLockedMonth();
+});
+
+describe("AbsenceModal", () => {
+  it("rejects a date range that reaches into a locked month", async () => {
+    const { container } = renderWithNotice(
+      <AbsenceModal
+        projects={[]}
+        defaultDate="2026-10-30"
+        onClose={() => {}}
+        onSaved={() => {}}
+      />,
+    );
+    fireEvent.change(screen.getByLabelText("结束日期"), {
+      target: { value: "2026-11-02" },
+    });
+
+    expect(await screen.findByText("2026-11 已锁定")).toBeTruthy();
+    expect(
+      (screen.getByRole("button", { name: "保存" }) as HTMLButtonElement)
+        .disabled,
+    ).toBe(true);
+
+    fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+    expect(
+      await screen.findByText("2026-11 已锁定，不能新增或修改该月记工。"),
+    ).toBeTruthy();
+    expect(findRequests(mock.requests, "POST", "/api/absences")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ABSENCE_REASONS,
+  AbsenceReason,
+  createAbsences,
+} from "../lib/absences";
+import {
+  fetchPeriodLocks,
+  getLockedMonths,
+  isDateLocked,
+} from "../lib/periodLocks";
+import EmployeePicker from "./EmployeePicker";
+import { useNotice } from "./NoticeProvider";
+
+type Project = {
+  id: string;
+  name: string;
+};
+
+type AbsenceScope = "employee" | "project";
+
+type AbsenceModalProps = {
+  projects: Project[];
+  // 班组长只能为本班组员工录入，传入其班组供员工选择器过滤。
+  crewIds?: string[];
+  defaultDate: string;
+  onClose: () => void;
+  onSaved: () => Promise<void> | void;
+};
+
+const MAX_RANGE_DAYS = 31;
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+function expandDateRange(startDate: string, endDate: string) {
+  const [year, month, day] = startDate.split("-").map(Number);
+  const dates: string[] = [];
+  for (let offset = 0; offset < MAX_RANGE_DAYS; offset += 1) {
+    const key = toDateKey(new Date(year, month - 1, day + offset));
+    if (key > endDate) {
+      break;
+    }
+    dates.push(key);
+  }
+  return dates;
+}
+
+export default function AbsenceModal({
+  projects,
+  crewIds,
+  defaultDate,
+  onClose,
+  onSaved,
+}: AbsenceModalProps) {
+  const [scope, setScope] = useState<AbsenceScope>("employee");
+  const [reason, setReason] = useState<AbsenceReason>("事假");
+  const [projectId, setProjectId] = useState("");
+  const [startDate, setStartDate] = useState(defaultDate);
+  const [endDate, setEndDate] = useState(defaultDate);
+  const [employeeIds, setEmployeeIds] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const { notify } = useNotice();
+  // 日期范围可能跨月，任一月份锁定都不能登记。
+  const lockedDate =
+    startDate && endDate && endDate >= startDate
+      ? expandDateRange(startDate, endDate).find((date) =>
+          isDateLocked(lockedMonths, date),
+        )
+      : undefined;
+
+  useEffect(() => {
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setLockedMonths(getLockedMonths(await fetchPeriodLocks()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  function handleScopeChange(next: AbsenceScope) {
+    setScope(next);
+    setReason(next === "project" ? "停工-天气" : "事假");
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!startDate || !endDate || endDate < startDate) {
+      notify("请选择正确的开始日期和结束日期。", "warning");
+      return;
+    }
+    const dates = expandDateRange(startDate, endDate);
+    if (dates[dates.length - 1] !== endDate) {
+      notify(`一次最多登记 ${MAX_RANGE_DAYS} 天。`, "warning");
+      return;
+    }
+    if (lockedDate) {
+      notify(`${lockedDate.slice(0, 7)} 已锁定，不能新增或修改该月记工。`, "warning");
+      return;
+    }
+    if (scope === "project" && !projectId) {
+      notify("整个项目停工时请选择项目。", "warning");
+      return;
+    }
+    if (scope === "employee" && employeeIds.length === 0) {
+      notify("请至少选择一位员工。", "warning");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createAbsences({
+        employeeIds: scope === "employee" ? employeeIds : [],
+        projectId,
+        dates,
+        reason,
+        note,
+      });
+      notify(
+        scope === "project"
+          ? `已登记项目停工 ${dates.length} 天。`
+          : `已登记 ${employeeIds.length} 人 × ${dates.length} 天${reason}。`,
+        "success",
+      );
+      await onSaved();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-2xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold">登记请假 / 停工</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-[color:var(--muted-foreground)]"
+          >
+            关闭
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              登记范围
+              <select
+                value={scope}
+                onChange={(event) =>
+                  handleScopeChange(event.target.value as AbsenceScope)
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              >
+                <option value="employee">按员工</option>
+                <option value="project">整个项目</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              原因
+              <select
+                value={reason}
+                onChange={(event) =>
+                  setReason(event.target.value as AbsenceReason)
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              >
+                {ABSENCE_REASONS.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              {scope === "project" ? "项目" : "项目（可选）"}
+              <select
+                value={projectId}
+                onChange={(event) => setProjectId(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              >
+                <option value="">{scope === "project" ? "请选择项目" : "不关联项目"}</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              开始日期
+              <input
+                type="date"
+                value={startDate}
+                onChange={(event) => {
+                  setStartDate(event.target.value);
+                  if (!endDate || event.target.value > endDate) {
+                    setEndDate(event.target.value);
+                  }
+                }}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              结束日期
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(event) => setEndDate(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+              {lockedDate ? (
+                <span className="text-[10px] text-rose-600">
+                  {lockedDate.slice(0, 7)} 已锁定
+                </span>
+              ) : null}
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              备注
+              <input
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="可选"
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+          </div>
+
+          {scope === "employee" ? (
+            <div className="space-y-2">
+              <div className="text-xs text-[color:var(--muted-foreground)]">
+                选择员工（已选 {employeeIds.length} 人）
+              </div>
+              <EmployeePicker
+                selectedIds={employeeIds}
+                onChange={setEmployeeIds}
+                crewIds={crewIds}
+              />
+            </div>
+          ) : (
+            <p className="text-[10px] text-[color:var(--muted-foreground)]">
+              整个项目停工时不逐人登记，日历与考勤表中该项目当天标记为停工。
+            </p>
+          )}
+
+          <p className="text-[10px] text-[color:var(--muted-foreground)]">
+            请假、旷工与停工记录计入考勤，但不计个工。
+          </p>
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+              disabled={isSaving}
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+              disabled={isSaving || Boolean(lockedDate)}
+              title={lockedDate ? "该月已锁定" : undefined}
+            >
+              {isSaving ? "保存中..." : "保存"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
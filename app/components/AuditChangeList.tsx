@@ -0,0 +1,32 @@
+"use client";
+
+import { AuditChange, getAuditFieldLabel } from "../lib/auditLogs";
+
+type AuditChangeListProps = {
+  changes: AuditChange[];
+};
+
+export default function AuditChangeList({ changes }: AuditChangeListProps) {
+  if (changes.length === 0) {
+    return (
+      <span className="text-[color:var(--muted-foreground)]">无字段变化</span>
+    );
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {changes.map((change) => (
+        <li key={change.field} className="flex flex-wrap items-center gap-1">
+          <span className="text-[color:var(--muted-foreground)]">
+            {getAuditFieldLabel(change.field)}：
+          </span>
+          <span className="text-rose-600 line-through">
+            {change.before || "空"}
+          </span>
+          <span className="text-[color:var(--muted-foreground)]">-&gt;</span>
+          <span className="text-emerald-600">{change.after || "空"}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  AUDIT_ACTION_LABELS,
+  AuditEntityType,
+  AuditLog,
+  fetchEntityHistory,
+} from "../lib/auditLogs";
+import AuditChangeList from "./AuditChangeList";
+import useLatestRequest from "./useLatestRequest";
+
+type AuditHistoryDrawerProps = {
+  entityType: AuditEntityType;
+  entityId: string;
+  title: string;
+  onClose: () => void;
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function formatDateTime(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value || "-";
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function AuditHistoryDrawer({
+  entityType,
+  entityId,
+  title,
+  onClose,
+}: AuditHistoryDrawerProps) {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const beginRequest = useLatestRequest();
+
+  const loadHistory = useCallback(async () => {
+    const signal = beginRequest("history");
+    try {
+      setIsLoading(true);
+      const list = await fetchEntityHistory(entityType, entityId, signal);
+      if (signal.aborted) {
+        return;
+      }
+      setLogs(list);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      setLogs([]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [beginRequest, entityType, entityId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40" onClick={onClose}>
+      <aside
+        className="fixed inset-y-0 right-0 flex w-full max-w-md flex-col border-l border-[color:var(--border)] bg-[color:var(--surface)] p-4"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold">修改历史 · {title}</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-[color:var(--muted-foreground)]"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="mt-4 flex-1 overflow-y-auto text-xs">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-[color:var(--muted-foreground)]">
+              <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+              <span>加载中</span>
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="py-6 text-center text-[color:var(--muted-foreground)]">
+              暂无修改记录
+            </div>
+          ) : (
+            <ol className="space-y-3">
+              {logs.map((log) => (
+                <li
+                  key={log.id}
+                  className="rounded-md border border-[color:var(--border)] px-3 py-2"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">
+                      {log.actorName || "未知用户"} ·{" "}
+                      {AUDIT_ACTION_LABELS[log.action]}
+                    </span>
+                    <span className="text-[color:var(--muted-foreground)]">
+                      {formatDateTime(log.createdAt)}
+                    </span>
+                  </div>
+                  <div className="mt-1">
+                    <AuditChangeList changes={log.changes} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import AuthGuard from "./AuthGuard";
+import { setupMockApi } from "../lib/mock/testing";
+
+const navigation = vi.hoisted(() => ({
+  pathname: "/",
+  replace: vi.fn(),
+}));
+
+vi.mock("next/navigation", () => ({
+  usePathname: () => navigation.pathname,
+  useRouter: () => ({ replace: navigation.replace }),
+}));
+
+function renderGuard(pathname: string) {
+  navigation.pathname = pathname;
+  return render(
+    <AuthGuard>
+      <div>页面内容</div>
+    </AuthGuard>,
+  );
+}
+
+beforeEach(() => {
+  navigation.replace.mockReset();
+});
+
+describe("AuthGuard", () => {
+  it("redirects to login when there is no session", async () => {
+    renderGuard("/reports");
+
+    await waitFor(() =>
+      expect(navigation.replace).toHaveBeenCalledWith(
+        "/login?redirect=%2Freports",
+      ),
+    );
+    expect(screen.queryByText("页面内容")).toBeNull();
+  });
+
+  it("renders public pages without a session", () => {
+    renderGuard("/login");
+
+    expect(screen.getByText("页面内容")).toBeTruthy();
+    expect(navigation.replace).not.toHaveBeenCalled();
+  });
+
+  it("renders protected pages for a signed-in owner", async () => {
+    await setupMockApi().signIn("admin");
+    renderGuard("/recycle-bin");
+
+    expect(await screen.findByText("页面内容")).toBeTruthy();
+    expect(navigation.replace).not.toHaveBeenCalled();
+  });
+
+  it("blocks routes the role may not access", async () => {
+    await setupMockApi().signIn("caiwu");
+    renderGuard("/recycle-bin");
+
+    expect(await screen.findByText(/当前账号无权访问该页面。/)).toBeTruthy();
+    expect(screen.queryByText("页面内容")).toBeNull();
+  });
+});
@@ -1,8 +1,10 @@
 ﻿"use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { loadAuthToken } from "../lib/auth";
+import { buildLoginPath, loadAuthToken, loadAuthUser } from "../lib/auth";
+import { canAccessRoute, getUserRole } from "../lib/permissions";
 
 type AuthGuardProps = {
   children: React.ReactNode;
@@ -12,6 +14,7 @@ export default function AuthGuard({ children }: AuthGuardProps) {
   const pathname = usePathname();
   const router = useRouter();
   const [ready, setReady] = useState(false);
+  const [denied, setDenied] = useState(false);
   const isPublic =
     pathname === "/login" ||
     pathname === "/register" ||
@@ -26,10 +29,13 @@ export default function AuthGuard({ children }: AuthGuardProps) {
 
     const token = loadAuthToken();
     if (!token) {
-      router.replace("/login");
+      router.replace(
+        buildLoginPath(`${pathname}${window.location.search}`),
+      );
       return;
     }
 
+    setDenied(!canAccessRoute(getUserRole(loadAuthUser()), pathname));
     setReady(true);
   }, [isPublic, pathname, router]);
 
@@ -45,5 +51,16 @@ export default function AuthGuard({ children }: AuthGuardProps) {
     );
   }
 
+  if (denied) {
+    return (
+      <div className="py-12 text-center text-sm text-[color:var(--muted-foreground)]">
+        当前账号无权访问该页面。
+        <Link href="/" className="ml-2 text-foreground underline">
+          返回每日记工
+        </Link>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { fireEvent, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import CopyEntriesModal from "./CopyEntriesModal";
+import {
+  MockApiHarness,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+let onSaved: ReturnType<typeof vi.fn>;
+
+// 第二次批量提交返回 500，其余请求照常交给模拟后端。
+function failSecondBatch() {
+  const mockFetch = globalThis.fetch;
+  let batchCount = 0;
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = String(input instanceof Request ? input.url : input);
+      if (url.includes("/api/time-entries/batch")) {
+        batchCount += 1;
+        if (batchCount === 2) {
+          return new Response(JSON.stringify({ message: "服务器繁忙" }), {
+            status: 500,
+          });
+        }
+      }
+      return mockFetch(input, init);
+    },
+  );
+}
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  onSaved = vi.fn();
+  renderWithNotice(
+    <CopyEntriesModal
+      projects={[]}
+      defaultSourceDate="2026-10-18"
+      defaultTargetDate="2026-10-25"
+      onClose={() => {}}
+      onSaved={onSaved}
+    />,
+  );
+});
+
+describe("CopyEntriesModal", () => {
+  it("reports a partial copy when a later batch fails", async () => {
+    await screen.findAllByRole("button", { name: "移除" });
+    failSecondBatch();
+
+    fireEvent.click(screen.getByRole("button", { name: "确认复制" }));
+
+    expect(await screen.findByText("复制结果")).toBeTruthy();
+    expect(
+      screen.getByText(/复制中断（服务器繁忙），\d+ 条未能复制/).textContent,
+    ).toContain("涉及日期：2026-10-25。");
+    expect(screen.queryByText(/复制记工成功/)).toBeNull();
+    expect(onSaved).not.toHaveBeenCalled();
+    expect(
+      findRequests(mock.requests, "POST", "/api/time-entries/batch"),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,664 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { X } from "lucide-react";
+import {
+  fetchPeriodLocks,
+  getLockedMonths,
+  isDateLocked,
+} from "../lib/periodLocks";
+import { TimeEntry, resources } from "../lib/resources";
+import { useNotice } from "./NoticeProvider";
+import useLatestRequest from "./useLatestRequest";
+
+type Project = {
+  id: string;
+  name: string;
+};
+
+type CopyMode = "day" | "week";
+
+type SourceEntry = {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  projectId?: string;
+  projectName?: string;
+  date: string;
+  normalHours: number;
+  overtimeHours: number;
+  remark?: string;
+};
+
+type CopyConflict = {
+  key: string;
+  employeeName: string;
+  date: string;
+  existingHours?: { normalHours: number; overtimeHours: number };
+};
+
+// 某次提交失败后不再继续，未提交的记录连同失败的一组计入 failed。
+type CopyFailure = {
+  message: string;
+  failed: number;
+  dates: string[];
+};
+
+type CopyResult = {
+  created: number;
+  skipped: number;
+  conflicts: CopyConflict[];
+  failure?: CopyFailure;
+};
+
+type CopyEntriesModalProps = {
+  projects: Project[];
+  defaultSourceDate: string;
+  defaultTargetDate: string;
+  onClose: () => void;
+  onSaved: () => Promise<void> | void;
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+function parseDateKey(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function shiftDateKey(key: string, days: number) {
+  const date = parseDateKey(key);
+  return toDateKey(
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days),
+  );
+}
+
+function toWeekStartKey(key: string) {
+  const date = parseDateKey(key);
+  return shiftDateKey(key, -((date.getDay() + 6) % 7));
+}
+
+function diffDays(fromKey: string, toKey: string) {
+  return Math.round(
+    (parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) /
+      86400000,
+  );
+}
+
+function formatHours(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function toSourceEntry(entry: TimeEntry): SourceEntry {
+  return {
+    id: entry.id,
+    employeeId: entry.employeeId,
+    employeeName: entry.employeeName || "未知",
+    projectId: entry.projectId,
+    projectName: entry.projectName,
+    date: entry.date,
+    normalHours: entry.normalHours,
+    overtimeHours: entry.overtimeHours,
+    remark: entry.remark || undefined,
+  };
+}
+
+export default function CopyEntriesModal({
+  projects,
+  defaultSourceDate,
+  defaultTargetDate,
+  onClose,
+  onSaved,
+}: CopyEntriesModalProps) {
+  const [mode, setMode] = useState<CopyMode>("day");
+  const [sourceDate, setSourceDate] = useState(defaultSourceDate);
+  const [targetDates, setTargetDates] = useState<string[]>([defaultTargetDate]);
+  const [targetWeekDate, setTargetWeekDate] = useState(defaultTargetDate);
+  const [rows, setRows] = useState<SourceEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<CopyResult | null>(null);
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const { notify } = useNotice();
+  const beginRequest = useLatestRequest();
+
+  const sourceStart = mode === "week" ? toWeekStartKey(sourceDate) : sourceDate;
+  const sourceEnd = mode === "week" ? shiftDateKey(sourceStart, 6) : sourceDate;
+  const targetWeekStart = toWeekStartKey(targetWeekDate);
+  const projectNameMap = useMemo(
+    () => new Map(projects.map((project) => [project.id, project.name] as const)),
+    [projects],
+  );
+
+  useEffect(() => {
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setLockedMonths(getLockedMonths(await fetchPeriodLocks()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  useEffect(() => {
+    async function loadSourceEntries() {
+      const signal = beginRequest("sourceEntries");
+      try {
+        setIsLoading(true);
+        const list = (
+          await resources.timeEntries.listAll(
+            { startDate: sourceStart, endDate: sourceEnd },
+            signal,
+          )
+        ).map(toSourceEntry);
+        if (signal.aborted) {
+          return;
+        }
+        list.sort((left, right) =>
+          left.date === right.date
+            ? left.employeeName.localeCompare(right.employeeName, "zh-CN")
+            : left.date.localeCompare(right.date),
+        );
+        setRows(list);
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        console.error(error);
+        setRows([]);
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadSourceEntries();
+  }, [beginRequest, sourceEnd, sourceStart]);
+
+  // 目标日期随复制方式重新计算：按日复制到所选日期，按周复制到目标周的同一星期。
+  const previewRows = useMemo(
+    () =>
+      rows.map((row) => ({
+        ...row,
+        targetDates:
+          mode === "week"
+            ? [shiftDateKey(targetWeekStart, diffDays(sourceStart, row.date))]
+            : [...targetDates].sort(),
+      })),
+    [mode, rows, sourceStart, targetDates, targetWeekStart],
+  );
+  const previewPairCount = previewRows.reduce(
+    (sum, row) => sum + row.targetDates.length,
+    0,
+  );
+
+  function updateRow(id: string, changes: Partial<SourceEntry>) {
+    setRows((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, ...changes } : row)),
+    );
+  }
+
+  function removeRow(id: string) {
+    setRows((prev) => prev.filter((row) => row.id !== id));
+  }
+
+  function addTargetDate(date: string) {
+    if (!date) {
+      return;
+    }
+    setTargetDates((prev) => (prev.includes(date) ? prev : [...prev, date]));
+  }
+
+  async function handleSubmit() {
+    if (previewRows.length === 0 || previewPairCount === 0) {
+      notify("没有可复制的记工记录。", "warning");
+      return;
+    }
+    if (previewRows.some((row) => row.targetDates.includes(row.date))) {
+      notify("目标日期不能与来源日期相同。", "warning");
+      return;
+    }
+    const lockedDate = previewRows
+      .flatMap((row) => row.targetDates)
+      .find((date) => isDateLocked(lockedMonths, date));
+    if (lockedDate) {
+      notify(`${lockedDate.slice(0, 7)} 已锁定，不能复制到该月。`, "warning");
+      return;
+    }
+    if (
+      previewRows.some(
+        (row) =>
+          !Number.isFinite(row.normalHours) ||
+          !Number.isFinite(row.overtimeHours) ||
+          row.normalHours < 0 ||
+          row.overtimeHours < 0,
+      )
+    ) {
+      notify("工时需为不小于 0 的数字。", "warning");
+      return;
+    }
+
+    // 批量接口按“员工 × 日期”展开，同项目、同工时、同备注、同目标日期的记录合并为一次提交。
+    // 来源当天可能分摊到多个项目，allow_split 表示仅在同一天同项目已有记录时跳过。
+    const groups = new Map<
+      string,
+      {
+        employeeIds: string[];
+        workDates: string[];
+        projectId?: string;
+        normalHours: number;
+        overtimeHours: number;
+        remark: string;
+      }
+    >();
+    previewRows.forEach((row) => {
+      const remark = row.remark?.trim() ?? "";
+      const key = [
+        row.targetDates.join(","),
+        row.projectId ?? "",
+        row.normalHours,
+        row.overtimeHours,
+        remark,
+      ].join("|");
+      const current = groups.get(key);
+      if (current) {
+        if (!current.employeeIds.includes(row.employeeId)) {
+          current.employeeIds.push(row.employeeId);
+        }
+        return;
+      }
+      groups.set(key, {
+        employeeIds: [row.employeeId],
+        workDates: row.targetDates,
+        projectId: row.projectId,
+        normalHours: row.normalHours,
+        overtimeHours: row.overtimeHours,
+        remark,
+      });
+    });
+
+    const employeeNames = new Map(
+      previewRows.map((row) => [row.employeeId, row.employeeName] as const),
+    );
+    let created = 0;
+    let skipped = 0;
+    const conflicts: CopyConflict[] = [];
+    const groupList = Array.from(groups.values());
+    let failure: CopyFailure | undefined;
+
+    try {
+      setIsSaving(true);
+      for (const [index, group] of groupList.entries()) {
+        let batch;
+        try {
+          batch = await resources.timeEntries.batch({
+            employeeIds: group.employeeIds,
+            dates: group.workDates,
+            projectId: group.projectId,
+            normalHours: group.normalHours,
+            overtimeHours: group.overtimeHours,
+            remark: group.remark,
+            allowSplit: true,
+          });
+        } catch (error) {
+          const remaining = groupList.slice(index);
+          failure = {
+            message:
+              error instanceof Error ? error.message : "复制失败，请稍后再试。",
+            failed: remaining.reduce(
+              (sum, item) =>
+                sum + item.employeeIds.length * item.workDates.length,
+              0,
+            ),
+            dates: Array.from(
+              new Set(remaining.flatMap((item) => item.workDates)),
+            ).sort(),
+          };
+          break;
+        }
+        created += batch.created;
+        skipped += batch.skipped;
+        batch.skippedItems.forEach((item) => {
+          conflicts.push({
+            key: `${item.employeeId}|${item.date}|${group.projectId ?? ""}`,
+            employeeName:
+              employeeNames.get(item.employeeId) || item.employeeName || "未知",
+            date: item.date,
+            existingHours: item.existing
+              ? {
+                  normalHours: item.existing.normalHours,
+                  overtimeHours: item.existing.overtimeHours,
+                }
+              : undefined,
+          });
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+
+    if (failure && created === 0 && skipped === 0) {
+      notify(failure.message, "error");
+      return;
+    }
+    if (failure) {
+      notify(
+        `复制中断：已创建 ${created} 条，${failure.failed} 条未能复制。`,
+        "warning",
+      );
+      setResult({ created, skipped, conflicts, failure });
+      return;
+    }
+    if (skipped === 0) {
+      await onSaved();
+      notify(`复制记工成功，共创建 ${created} 条记录。`, "success");
+      return;
+    }
+    setResult({ created, skipped, conflicts });
+  }
+
+  if (result) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+        <div className="w-full max-w-xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold">复制结果</h3>
+            <button
+              type="button"
+              onClick={() => onSaved()}
+              className="text-xs text-[color:var(--muted-foreground)]"
+            >
+              关闭
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-[color:var(--muted-foreground)]">
+            成功 {result.created} 条，{result.skipped} 条因当天该项目已有记录被跳过，可在每日记工中编辑原记录。
+          </p>
+          {result.failure ? (
+            <p className="mt-2 rounded-md border border-rose-200 bg-rose-50 px-2 py-1.5 text-xs text-rose-600">
+              复制中断（{result.failure.message}），{result.failure.failed}{" "}
+              条未能复制，涉及日期：{result.failure.dates.join("、")}。
+            </p>
+          ) : null}
+          {result.conflicts.length > 0 ? (
+            <div className="mt-3 max-h-72 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[color:var(--muted-foreground)]">
+                  <tr>
+                    <th className="pb-1 font-medium">员工</th>
+                    <th className="pb-1 font-medium">日期</th>
+                    <th className="pb-1 font-medium">已有工时</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.conflicts.map((conflict) => (
+                    <tr
+                      key={conflict.key}
+                      className="border-t border-[color:var(--border)]"
+                    >
+                      <td className="py-1.5 text-foreground">
+                        {conflict.employeeName}
+                      </td>
+                      <td className="py-1.5 text-foreground">{conflict.date}</td>
+                      <td className="py-1.5 text-[color:var(--muted-foreground)]">
+                        {conflict.existingHours
+                          ? `常规 ${formatHours(
+                              conflict.existingHours.normalHours,
+                            )}h / 加班 ${formatHours(
+                              conflict.existingHours.overtimeHours,
+                            )}h`
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+          <div className="mt-4 flex items-center justify-end">
+            <button
+              type="button"
+              onClick={() => onSaved()}
+              className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+            >
+              完成
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-3xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold">复制记工</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-[color:var(--muted-foreground)]"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+            复制方式
+            <select
+              value={mode}
+              onChange={(event) => setMode(event.target.value as CopyMode)}
+              className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+            >
+              <option value="day">按日复制</option>
+              <option value="week">按周复制</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+            {mode === "week" ? "来源周（任选一天）" : "来源日期"}
+            <input
+              type="date"
+              value={sourceDate}
+              onChange={(event) => setSourceDate(event.target.value)}
+              className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+            />
+          </label>
+          {mode === "week" ? (
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              目标周（任选一天）
+              <input
+                type="date"
+                value={targetWeekDate}
+                onChange={(event) => setTargetWeekDate(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+          ) : (
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              添加目标日期
+              <input
+                type="date"
+                value=""
+                onChange={(event) => addTargetDate(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center gap-1 text-[10px] text-[color:var(--muted-foreground)]">
+          {mode === "week" ? (
+            <span>
+              {sourceStart} ~ {sourceEnd} 复制到 {targetWeekStart} ~{" "}
+              {shiftDateKey(targetWeekStart, 6)}，按星期对应。
+            </span>
+          ) : (
+            <>
+              <span>目标日期：</span>
+              {targetDates.length === 0 ? <span>未选择</span> : null}
+              {[...targetDates].sort().map((date) => (
+                <span
+                  key={date}
+                  className="inline-flex items-center gap-1 rounded-full border border-[color:var(--border)] px-1.5 py-px text-foreground"
+                >
+                  {date}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setTargetDates((prev) => prev.filter((item) => item !== date))
+                    }
+                    className="text-[color:var(--muted-foreground)] hover:text-foreground"
+                    aria-label={`移除 ${date}`}
+                  >
+                    <X className="h-2.5 w-2.5" />
+                  </button>
+                </span>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="mt-3 max-h-80 overflow-y-auto rounded-md border border-[color:var(--border)]">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[color:var(--muted-foreground)]">
+              <tr>
+                <th className="px-2 py-1.5 font-medium">来源日期</th>
+                <th className="px-2 py-1.5 font-medium">员工</th>
+                <th className="px-2 py-1.5 font-medium">项目</th>
+                <th className="px-2 py-1.5 font-medium">常规(h)</th>
+                <th className="px-2 py-1.5 font-medium">加班(h)</th>
+                {mode === "week" ? (
+                  <th className="px-2 py-1.5 font-medium">目标日期</th>
+                ) : null}
+                <th className="px-2 py-1.5" />
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    <div className="flex items-center justify-center gap-2">
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                      <span>加载中</span>
+                    </div>
+                  </td>
+                </tr>
+              ) : previewRows.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    来源日期暂无记工记录
+                  </td>
+                </tr>
+              ) : (
+                previewRows.map((row) => (
+                  <tr
+                    key={row.id}
+                    className="border-t border-[color:var(--border)]"
+                  >
+                    <td className="whitespace-nowrap px-2 py-1.5 text-[color:var(--muted-foreground)]">
+                      {row.date}
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-1.5 text-foreground">
+                      {row.employeeName}
+                    </td>
+                    <td className="px-2 py-1.5 text-[color:var(--muted-foreground)]">
+                      {row.projectName ||
+                        (row.projectId ? projectNameMap.get(row.projectId) : "") ||
+                        "-"}
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={row.normalHours}
+                        onChange={(event) =>
+                          updateRow(row.id, {
+                            normalHours: Number(event.target.value),
+                          })
+                        }
+                        className="h-7 w-16 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={row.overtimeHours}
+                        onChange={(event) =>
+                          updateRow(row.id, {
+                            overtimeHours: Number(event.target.value),
+                          })
+                        }
+                        className="h-7 w-16 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+                      />
+                    </td>
+                    {mode === "week" ? (
+                      <td className="whitespace-nowrap px-2 py-1.5 text-foreground">
+                        {row.targetDates[0]}
+                      </td>
+                    ) : null}
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removeRow(row.id)}
+                        className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                      >
+                        移除
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 flex items-center justify-between gap-2">
+          <span className="text-[10px] text-[color:var(--muted-foreground)]">
+            共 {previewRows.length} 条来源记录，将生成 {previewPairCount} 条记工，当天已有记录的员工会被跳过。
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+              disabled={isSaving}
+            >
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+              disabled={isSaving || isLoading}
+            >
+              {isSaving ? "复制中..." : "确认复制"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { useState } from "react";
+import {
+  cleanup,
+  fireEvent,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import EmployeePicker from "./EmployeePicker";
+import {
+  MockApiHarness,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+const EXTRA_EMPLOYEES = 1000;
+
+let mock: MockApiHarness;
+
+function PickerHarness({ crewIds }: { crewIds?: string[] }) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  return (
+    <EmployeePicker
+      selectedIds={selectedIds}
+      onChange={setSelectedIds}
+      crewIds={crewIds}
+    />
+  );
+}
+
+// 在种子数据之外再录入 1000 名员工，其中每 3 人有 1 人为幕墙工。
+async function seedEmployees(token: string) {
+  for (let index = 1; index <= EXTRA_EMPLOYEES; index += 1) {
+    await mock.api.handle(
+      new Request("http://localhost/api/employees", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          name: `员工${String(index).padStart(4, "0")}`,
+          type: "临时工",
+          work_type: index % 3 === 0 ? "幕墙工" : "杂工",
+        }),
+      }),
+    );
+  }
+}
+
+function getList() {
+  return screen.getByLabelText("员工列表");
+}
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  const session = await mock.signIn();
+  await seedEmployees(session.token);
+  renderWithNotice(<PickerHarness />);
+});
+
+describe("EmployeePicker", () => {
+  it("renders only the rows around the viewport", async () => {
+    expect(await screen.findByText(/已加载 50 位/)).toBeTruthy();
+
+    const rows = within(getList()).getAllByRole("button");
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.length).toBeLessThan(30);
+  });
+
+  it("loads the next page when scrolled near the end", async () => {
+    await screen.findByText(/已加载 50 位/);
+
+    fireEvent.scroll(getList(), { target: { scrollTop: 50 * 36 - 320 } });
+
+    expect(await screen.findByText(/已加载 100 位/)).toBeTruthy();
+    const pages = findRequests(mock.requests, "GET", "/api/employees").map(
+      (request) => request.params.get("page"),
+    );
+    expect(pages).toEqual(["1", "2"]);
+  });
+
+  it("selects a whole work type through the server ids", async () => {
+    fireEvent.click(await screen.findByRole("button", { name: "幕墙工 333" }));
+    await screen.findByText("共 333 位，已加载 50 位");
+
+    fireEvent.click(screen.getByRole("button", { name: "全选本组" }));
+
+    expect(await screen.findByText("已选 333 位员工")).toBeTruthy();
+    const [request] = findRequests(mock.requests, "GET", "/api/employees/ids");
+    expect(request.params.get("work_type")).toBe("幕墙工");
+  });
+
+  it("finds employees beyond the loaded pages by keyword", async () => {
+    await screen.findByText(/已加载 50 位/);
+
+    fireEvent.change(screen.getByPlaceholderText("搜索姓名、手机号或工种"), {
+      target: { value: "员工0987" },
+    });
+
+    await waitFor(() => expect(screen.getByText("共 1 位")).toBeTruthy());
+    fireEvent.click(within(getList()).getByRole("button", { name: /员工0987/ }));
+    expect(screen.getByText("已选 1 位员工")).toBeTruthy();
+  });
+
+  it("filters a foreman's employees by crew on the server", async () => {
+    await screen.findByText(/已加载 50 位/);
+    cleanup();
+    mock.requests.length = 0;
+    renderWithNotice(<PickerHarness crewIds={["c-1", "c-2"]} />);
+
+    await screen.findByText(/已加载 50 位/);
+    const [request] = findRequests(mock.requests, "GET", "/api/employees");
+    expect(request.params.get("crew_ids")).toBe("c-1,c-2");
+  });
+
+  it("lists nobody for a foreman without crews", async () => {
+    await screen.findByText(/已加载 50 位/);
+    cleanup();
+    mock.requests.length = 0;
+    renderWithNotice(<PickerHarness crewIds={[]} />);
+
+    expect(await screen.findByText("暂无员工")).toBeTruthy();
+    expect(findRequests(mock.requests, "GET", "/api/employees")).toEqual([]);
+  });
+});
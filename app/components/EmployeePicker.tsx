@@ -0,0 +1,321 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Check, Clock3 } from "lucide-react";
+import { Employee, resources } from "../lib/resources";
+import { useNotice } from "./NoticeProvider";
+import useCachedQuery from "./useCachedQuery";
+import useLatestRequest from "./useLatestRequest";
+
+type EmployeePickerProps = {
+  selectedIds: string[];
+  onChange: (employeeIds: string[]) => void;
+  // 单选时点击即替换已选员工，不提供整组选择。
+  multiple?: boolean;
+  // 班组长只能选择本班组员工，传入其班组后由后端过滤；空数组表示没有可选员工。
+  crewIds?: string[];
+  // 指定后只列出该工种员工，不再显示工种切换。
+  lockedWorkType?: string;
+  // 每加载一页回调一次，便于调用方记下员工姓名。
+  onEmployeesLoaded?: (employees: Employee[]) => void;
+};
+
+const PAGE_SIZE = 50;
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 320;
+const OVERSCAN = 6;
+const SEARCH_DELAY = 300;
+
+// 员工按页从后端加载，列表只渲染可视区域内的行，几千名员工也不会卡顿。
+export default function EmployeePicker({
+  selectedIds,
+  onChange,
+  multiple = true,
+  crewIds,
+  lockedWorkType,
+  onEmployeesLoaded,
+}: EmployeePickerProps) {
+  const [keywordInput, setKeywordInput] = useState("");
+  const [keyword, setKeyword] = useState("");
+  const [activeWorkType, setActiveWorkType] = useState("");
+  const [items, setItems] = useState<Employee[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loadedPage, setLoadedPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSelectingGroup, setIsSelectingGroup] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const onLoadedRef = useRef(onEmployeesLoaded);
+  const workTypes = useCachedQuery(resources.employees.workTypes);
+  const beginRequest = useLatestRequest();
+  const { notify } = useNotice();
+  const workType = lockedWorkType ?? activeWorkType;
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  // 以字符串作为依赖，调用方每次渲染传入新数组时不会重复加载。
+  const crewKey = crewIds?.join(",");
+  const hasNoCrew = crewKey === "";
+  const hasMore = items.length < total;
+  const allCount = workTypes.reduce((sum, item) => sum + item.count, 0);
+  const scopeLabel = workType ? "本组" : keyword ? "搜索结果" : "全部";
+
+  useEffect(() => {
+    onLoadedRef.current = onEmployeesLoaded;
+  });
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setKeyword(keywordInput.trim());
+    }, SEARCH_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [keywordInput]);
+
+  const loadPage = useCallback(
+    async (page: number) => {
+      const signal = beginRequest("page");
+      if (page === 1) {
+        listRef.current?.scrollTo?.({ top: 0 });
+        setScrollTop(0);
+      }
+      if (hasNoCrew) {
+        setItems([]);
+        setTotal(0);
+        setIsLoading(false);
+        return;
+      }
+      try {
+        setIsLoading(true);
+        const result = await resources.employees.list(
+          {
+            keyword,
+            workType,
+            crewIds: crewKey?.split(","),
+            page,
+            pageSize: PAGE_SIZE,
+          },
+          signal,
+        );
+        if (signal.aborted) {
+          return;
+        }
+        setItems((prev) =>
+          page === 1 ? result.items : [...prev, ...result.items],
+        );
+        setTotal(result.total);
+        setLoadedPage(page);
+        onLoadedRef.current?.(result.items);
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        console.error(error);
+        if (page === 1) {
+          setItems([]);
+          setTotal(0);
+        }
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [beginRequest, crewKey, hasNoCrew, keyword, workType],
+  );
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  function handleScroll(event: React.UIEvent<HTMLDivElement>) {
+    const nextScrollTop = event.currentTarget.scrollTop;
+    setScrollTop(nextScrollTop);
+    const remaining =
+      items.length * ROW_HEIGHT - (nextScrollTop + VIEWPORT_HEIGHT);
+    if (!isLoading && hasMore && remaining < ROW_HEIGHT * OVERSCAN) {
+      loadPage(loadedPage + 1);
+    }
+  }
+
+  function toggleEmployee(employeeId: string) {
+    if (!multiple) {
+      onChange(selectedSet.has(employeeId) ? [] : [employeeId]);
+      return;
+    }
+    onChange(
+      selectedSet.has(employeeId)
+        ? selectedIds.filter((id) => id !== employeeId)
+        : [...selectedIds, employeeId],
+    );
+  }
+
+  // 整组选择向后端取当前筛选条件下的全部员工 ID，未加载到列表中的员工同样会被选中。
+  async function applyGroup(select: boolean) {
+    if (!select && !workType && !keyword) {
+      onChange([]);
+      return;
+    }
+    if (hasNoCrew) {
+      return;
+    }
+    try {
+      setIsSelectingGroup(true);
+      const groupIds = await resources.employees.listIds({
+        keyword,
+        workType,
+        crewIds: crewKey?.split(","),
+      });
+      if (select) {
+        onChange(Array.from(new Set([...selectedIds, ...groupIds])));
+        return;
+      }
+      const groupSet = new Set(groupIds);
+      onChange(selectedIds.filter((id) => !groupSet.has(id)));
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "加载员工失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSelectingGroup(false);
+    }
+  }
+
+  const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const endIndex = Math.min(
+    items.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN,
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <input
+          value={keywordInput}
+          onChange={(event) => setKeywordInput(event.target.value)}
+          placeholder="搜索姓名、手机号或工种"
+          className="h-8 w-52 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+        />
+        {multiple ? (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => applyGroup(true)}
+              className="text-[10px] text-foreground hover:underline disabled:opacity-50"
+              disabled={isSelectingGroup}
+            >
+              全选{scopeLabel}
+            </button>
+            <button
+              type="button"
+              onClick={() => applyGroup(false)}
+              className="text-[10px] text-[color:var(--muted-foreground)] hover:underline disabled:opacity-50"
+              disabled={isSelectingGroup}
+            >
+              清空{scopeLabel}
+            </button>
+          </div>
+        ) : null}
+      </div>
+      {lockedWorkType === undefined && workTypes.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {[{ workType: "", count: allCount }, ...workTypes].map((item) => {
+            const isActive = item.workType === activeWorkType;
+            return (
+              <button
+                key={item.workType || "__all__"}
+                type="button"
+                onClick={() => setActiveWorkType(item.workType)}
+                aria-pressed={isActive}
+                className={`rounded-full border px-2 py-0.5 text-[10px] transition ${
+                  isActive
+                    ? "border-foreground bg-foreground text-background"
+                    : "border-[color:var(--border)] text-foreground hover:bg-[color:var(--surface-muted)]"
+                }`}
+              >
+                {item.workType || "全部工种"} {item.count}
+              </button>
+            );
+          })}
+        </div>
+      ) : null}
+      <div
+        ref={listRef}
+        onScroll={handleScroll}
+        className="relative overflow-y-auto rounded-md border border-[color:var(--border)] bg-[color:var(--surface-muted)]"
+        style={{ height: VIEWPORT_HEIGHT }}
+        aria-label="员工列表"
+      >
+        {items.length === 0 ? (
+          <div className="py-10 text-center text-xs text-[color:var(--muted-foreground)]">
+            {isLoading ? "加载中..." : "暂无员工"}
+          </div>
+        ) : (
+          <div
+            className="relative"
+            style={{ height: items.length * ROW_HEIGHT }}
+          >
+            {items.slice(startIndex, endIndex).map((employee, offset) => {
+              const isSelected = selectedSet.has(employee.id);
+              const tags = employee.tags ?? [];
+              return (
+                <button
+                  key={employee.id}
+                  type="button"
+                  onClick={() => toggleEmployee(employee.id)}
+                  aria-pressed={isSelected}
+                  className={`absolute inset-x-1 flex items-center justify-between gap-2 rounded-md border px-2.5 text-left transition ${
+                    isSelected
+                      ? "border-foreground bg-[color:var(--surface)] shadow-sm"
+                      : "border-transparent hover:bg-[color:var(--surface)]"
+                  }`}
+                  style={{
+                    top: (startIndex + offset) * ROW_HEIGHT + 2,
+                    height: ROW_HEIGHT - 4,
+                  }}
+                >
+                  <span className="flex min-w-0 items-center gap-2">
+                    {employee.type === "临时工" ? (
+                      <span
+                        className="inline-flex h-4 w-4 shrink-0 items-center justify-center rounded-full border border-amber-200 bg-amber-50 text-amber-600"
+                        aria-label="临时工标记"
+                        title="临时工标记"
+                      >
+                        <Clock3 className="h-2.5 w-2.5" />
+                      </span>
+                    ) : null}
+                    <span
+                      className={`truncate text-[11px] font-medium ${
+                        tags.length > 0 ? "text-emerald-600" : "text-foreground"
+                      }`}
+                      title={tags.length > 0 ? `标签：${tags.join("、")}` : undefined}
+                    >
+                      {employee.name}
+                    </span>
+                    {employee.workType ? (
+                      <span className="shrink-0 text-[10px] text-[color:var(--muted-foreground)]">
+                        {employee.workType}
+                      </span>
+                    ) : null}
+                  </span>
+                  <span
+                    className={`inline-flex h-4 w-4 shrink-0 items-center justify-center rounded-full ${
+                      isSelected
+                        ? "bg-foreground text-background"
+                        : "bg-transparent text-transparent"
+                    }`}
+                  >
+                    <Check className="h-2.5 w-2.5" />
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-[10px] text-[color:var(--muted-foreground)]">
+        <span>
+          共 {total} 位{hasMore ? `，已加载 ${items.length} 位` : ""}
+        </span>
+        <span>已选 {selectedIds.length} 位员工</span>
+      </div>
+    </div>
+  );
+}
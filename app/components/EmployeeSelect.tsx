@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Employee } from "../lib/resources";
+import EmployeePicker from "./EmployeePicker";
+
+type EmployeeSelectProps = {
+  value: string;
+  onChange: (employeeId: string) => void;
+  placeholder?: string;
+};
+
+// 可搜索的单选员工筛选，空值表示全部员工。
+export default function EmployeeSelect({
+  value,
+  onChange,
+  placeholder = "全部员工",
+}: EmployeeSelectProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [employeeNames, setEmployeeNames] = useState(
+    () => new Map<string, string>(),
+  );
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handlePointerDown);
+    return () => document.removeEventListener("mousedown", handlePointerDown);
+  }, [isOpen]);
+
+  function rememberEmployees(employees: Employee[]) {
+    setEmployeeNames((prev) => {
+      const next = new Map(prev);
+      employees.forEach((employee) => next.set(employee.id, employee.name));
+      return next;
+    });
+  }
+
+  function select(employeeId: string) {
+    onChange(employeeId);
+    setIsOpen(false);
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+        className="flex h-8 w-full min-w-[180px] items-center justify-between gap-2 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+      >
+        <span className="truncate">
+          {value ? (employeeNames.get(value) ?? "已选员工") : placeholder}
+        </span>
+        <ChevronDown className="h-3.5 w-3.5 shrink-0 text-[color:var(--muted-foreground)]" />
+      </button>
+      {isOpen ? (
+        <div className="absolute left-0 top-full z-30 mt-1 w-80 space-y-2 rounded-md border border-[color:var(--border)] bg-[color:var(--surface)] p-2 shadow-lg">
+          <button
+            type="button"
+            onClick={() => select("")}
+            aria-pressed={!value}
+            className="text-[11px] text-foreground hover:underline"
+          >
+            {placeholder}
+          </button>
+          <EmployeePicker
+            selectedIds={value ? [value] : []}
+            onChange={(employeeIds) => select(employeeIds[0] ?? "")}
+            multiple={false}
+            onEmployeesLoaded={rememberEmployees}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -10,17 +10,28 @@ import {
   AuthTenant,
   AuthUser,
   clearAuthSession,
+  loadAuthSession,
   loadAuthToken,
   loadAuthTenant,
+  loadAuthTenants,
   loadAuthUser,
   saveAuthSession,
 } from "../lib/auth";
+import {
+  Permission,
+  ROLE_LABELS,
+  getUserRole,
+  hasPermission,
+} from "../lib/permissions";
+import { normalizeTenants, switchTenant } from "../lib/tenants";
 
 export default function Header() {
   const pathname = usePathname();
   const router = useRouter();
   const [user, setUser] = useState<AuthUser | null>(null);
   const [tenant, setTenant] = useState<AuthTenant | null>(null);
+  const [tenants, setTenants] = useState<AuthTenant[]>([]);
+  const [switchingTenantId, setSwitchingTenantId] = useState("");
   const [menuOpen, setMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement | null>(null);
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
@@ -30,6 +41,8 @@ export default function Header() {
   const [isDisplayNameModalOpen, setIsDisplayNameModalOpen] = useState(false);
   const [displayName, setDisplayName] = useState("");
   const { notify } = useNotice();
+  const role = getUserRole(user);
+  const can = (permission: Permission) => hasPermission(role, permission);
 
   function isAuthUser(value: unknown): value is AuthUser {
     return (
@@ -57,6 +70,7 @@ export default function Header() {
     if (cachedTenant) {
       setTenant(cachedTenant);
     }
+    setTenants(loadAuthTenants());
 
     apiJson("/api/auth/me")
       .then((payload) => {
@@ -66,12 +80,17 @@ export default function Header() {
         const nextUser = (data as { user?: AuthUser }).user ?? data;
         if (isAuthUser(nextUser)) {
           const nextTenant = (data as { tenant?: AuthTenant }).tenant ?? null;
+          const nextTenants = normalizeTenants(
+            (data as { tenants?: unknown }).tenants,
+          );
           setUser(nextUser);
           setTenant(nextTenant);
+          setTenants(nextTenants);
           saveAuthSession({
-            token,
+            ...(loadAuthSession() ?? { token }),
             user: nextUser,
             tenant: nextTenant ?? undefined,
+            tenants: nextTenants,
           });
         }
       })
@@ -117,6 +136,24 @@ export default function Header() {
     router.replace("/login");
   }
 
+  async function handleSwitchTenant(nextTenant: AuthTenant) {
+    if (!nextTenant.id || nextTenant.id === tenant?.id) {
+      setMenuOpen(false);
+      return;
+    }
+    try {
+      setSwitchingTenantId(nextTenant.id);
+      await switchTenant(nextTenant.id);
+      notify(`已切换到 ${nextTenant.name ?? "目标公司"}。`, "success");
+      window.location.assign("/");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "切换公司失败，请稍后再试。";
+      notify(message, "error");
+      setSwitchingTenantId("");
+    }
+  }
+
   function openPasswordModal() {
     setMenuOpen(false);
     setIsPasswordModalOpen(true);
@@ -187,13 +224,9 @@ export default function Header() {
         display_name: nextDisplayName || undefined,
       };
       setUser(nextUser);
-      const token = loadAuthToken();
-      if (token) {
-        saveAuthSession({
-          token,
-          user: nextUser,
-          tenant: loadAuthTenant() ?? undefined,
-        });
+      const session = loadAuthSession();
+      if (session) {
+        saveAuthSession({ ...session, user: nextUser });
       }
       notify("昵称已更新。", "success");
       setIsDisplayNameModalOpen(false);
@@ -208,9 +241,19 @@ export default function Header() {
     <>
       <header className="border-b border-[color:var(--border)] bg-[color:var(--surface)]">
         <div className="mx-auto flex h-14 max-w-6xl items-center justify-between px-4">
-          <Link href="/" className="text-lg font-semibold text-foreground">
-            易记工
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link href="/" className="text-lg font-semibold text-foreground">
+              易记工
+            </Link>
+            {user && tenant?.name ? (
+              <span
+                className="max-w-[160px] truncate rounded-full border border-[color:var(--border)] bg-[color:var(--surface-muted)] px-2 py-0.5 text-[11px] font-medium text-foreground"
+                title={`当前公司：${tenant.name}`}
+              >
+                {tenant.name}
+              </span>
+            ) : null}
+          </div>
           <div className="flex items-center gap-4">
             <nav className="flex items-center gap-6 text-sm font-medium text-[color:var(--muted-foreground)]">
               <Link className="transition hover:text-foreground" href="/">
@@ -245,6 +288,12 @@ export default function Header() {
                         <div className="mt-1 text-foreground">
                           {user.account}
                         </div>
+                        <div className="mt-2 text-[color:var(--muted-foreground)]">
+                          角色
+                        </div>
+                        <div className="mt-1 text-foreground">
+                          {ROLE_LABELS[role]}
+                        </div>
                         {tenant?.name && tenant.name !== user.account ? (
                           <div className="mt-2">
                             <div className="text-[color:var(--muted-foreground)]">
@@ -256,7 +305,86 @@ export default function Header() {
                           </div>
                         ) : null}
                       </div>
+                      {tenants.length > 1 ? (
+                        <>
+                          <div className="my-1 h-px bg-[color:var(--border)]" />
+                          <div className="px-2 py-1 text-[color:var(--muted-foreground)]">
+                            切换公司
+                          </div>
+                          {tenants.map((item) => {
+                            const isCurrent = item.id === tenant?.id;
+                            return (
+                              <button
+                                key={item.id}
+                                type="button"
+                                onClick={() => handleSwitchTenant(item)}
+                                disabled={Boolean(switchingTenantId)}
+                                className={`mt-1 flex w-full items-center justify-between gap-3 rounded-md px-2 py-1 text-left text-foreground hover:bg-[color:var(--surface-muted)] disabled:cursor-not-allowed disabled:opacity-50 ${
+                                  isCurrent ? "font-medium" : ""
+                                }`}
+                              >
+                                <span>{item.name ?? item.code ?? item.id}</span>
+                                <span className="text-[10px] text-[color:var(--muted-foreground)]">
+                                  {switchingTenantId === item.id
+                                    ? "切换中..."
+                                    : isCurrent
+                                      ? "当前"
+                                      : ""}
+                                </span>
+                              </button>
+                            );
+                          })}
+                        </>
+                      ) : null}
                       <div className="my-1 h-px bg-[color:var(--border)]" />
+                      {can("settings.manage") ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setMenuOpen(false);
+                            router.push("/settings");
+                          }}
+                          className="mt-1 w-full rounded-md px-2 py-1 text-left text-foreground hover:bg-[color:var(--surface-muted)]"
+                        >
+                          记工设置
+                        </button>
+                      ) : null}
+                      {can("members.manage") ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setMenuOpen(false);
+                            router.push("/members");
+                          }}
+                          className="mt-1 w-full rounded-md px-2 py-1 text-left text-foreground hover:bg-[color:var(--surface-muted)]"
+                        >
+                          成员管理
+                        </button>
+                      ) : null}
+                      {can("audit.view") ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setMenuOpen(false);
+                            router.push("/audit");
+                          }}
+                          className="mt-1 w-full rounded-md px-2 py-1 text-left text-foreground hover:bg-[color:var(--surface-muted)]"
+                        >
+                          操作记录
+                        </button>
+                      ) : null}
+                      {can("delete") ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setMenuOpen(false);
+                            router.push("/recycle-bin");
+                          }}
+                          className="mt-1 w-full rounded-md px-2 py-1 text-left text-foreground hover:bg-[color:var(--surface-muted)]"
+                        >
+                          回收站
+                        </button>
+                      ) : null}
                       <button
                         type="button"
                         onClick={openPasswordModal}
@@ -11,6 +11,7 @@ import {
 
 import { toast } from "./ui/use-toast";
 import { Toaster } from "./ui/toaster";
+import { ToastAction } from "./ui/toast";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,8 +31,19 @@ type ConfirmOptions = {
   type?: NoticeType;
 };
 
+type NoticeAction = {
+  label: string;
+  onClick: () => void;
+};
+
 type NoticeContextValue = {
   notify: (message: string, type?: NoticeType, durationMs?: number) => void;
+  notifyAction: (
+    message: string,
+    action: NoticeAction,
+    type?: NoticeType,
+    durationMs?: number,
+  ) => void;
   confirm: (message: string, options?: ConfirmOptions) => Promise<boolean>;
 };
 
@@ -95,6 +107,29 @@ export default function NoticeProvider({
     [],
   );
 
+  // 带操作按钮的提示（如“撤销”），默认停留 10 秒，点击后立即关闭。
+  const notifyAction = useCallback(
+    (
+      message: string,
+      action: NoticeAction,
+      type: NoticeType = "success",
+      durationMs = 10000,
+    ) => {
+      toast({
+        title: noticeTitleMap[type],
+        description: message,
+        variant: typeToVariant[type],
+        duration: durationMs,
+        action: (
+          <ToastAction altText={action.label} onClick={action.onClick}>
+            {action.label}
+          </ToastAction>
+        ),
+      });
+    },
+    [],
+  );
+
   const confirm = useCallback(
     (message: string, options?: ConfirmOptions) =>
       new Promise<boolean>((resolve) => {
@@ -124,9 +159,10 @@ export default function NoticeProvider({
   const contextValue = useMemo(
     () => ({
       notify,
+      notifyAction,
       confirm,
     }),
-    [notify, confirm],
+    [notify, notifyAction, confirm],
   );
 
   return (
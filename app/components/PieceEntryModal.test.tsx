@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { fireEvent, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import PieceEntryModal from "./PieceEntryModal";
+import {
+  MockApiHarness,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+
+// 模拟后端没有月份锁定和计件项接口，这里锁定 2026-10 并提供一个计件项。
+function stubLockAndPieceItems() {
+  const mockFetch = globalThis.fetch;
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = String(input instanceof Request ? input.url : input);
+      if (url.includes("/api/period-locks")) {
+        return Response.json([{ month: "2026-10", is_locked: true }]);
+      }
+      if (url.includes("/piece-items")) {
+        return Response.json([
+          { id: "pi-1", name: "砌砖", unit: "m²", unit_price: 12 },
+        ]);
+      }
+      return mockFetch(input, init);
+    },
+  );
+}
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  stubLockAndPieceItems();
+});
+
+describe("PieceEntryModal", () => {
+  it("rejects piece entries in a locked month", async () => {
+    const { container } = renderWithNotice(
+      <PieceEntryModal
+        projects={[{ id: "p-1", name: "一号楼" }]}
+        defaultDate="2026-10-19"
+        onClose={() => {}}
+        onSaved={() => {}}
+      />,
+    );
+
+    expect(await screen.findByText("该月已锁定")).toBeTruthy();
+    await screen.findByRole("option", { name: /砌砖/ });
+    expect(
+      (screen.getByRole("button", { name: "保存" }) as HTMLButtonElement)
+        .disabled,
+    ).toBe(true);
+
+    fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+    expect(
+      await screen.findByText("2026-10 已锁定，不能新增或修改该月记工。"),
+    ).toBeTruthy();
+    expect(
+      findRequests(mock.requests, "POST", "/api/piece-entries"),
+    ).toHaveLength(0);
+  });
+});
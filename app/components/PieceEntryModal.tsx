@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  PieceItem,
+  createPieceEntries,
+  fetchPieceItems,
+} from "../lib/pieceRates";
+import {
+  fetchPeriodLocks,
+  getLockedMonths,
+  isDateLocked,
+} from "../lib/periodLocks";
+import EmployeePicker from "./EmployeePicker";
+import { useNotice } from "./NoticeProvider";
+
+type Project = {
+  id: string;
+  name: string;
+};
+
+type PieceEntryModalProps = {
+  projects: Project[];
+  // 班组长只能为本班组员工录入，传入其班组供员工选择器过滤。
+  crewIds?: string[];
+  defaultDate: string;
+  onClose: () => void;
+  onSaved: () => Promise<void> | void;
+};
+
+function formatAmount(value: number) {
+  return value.toLocaleString("zh-CN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+export default function PieceEntryModal({
+  projects,
+  crewIds,
+  defaultDate,
+  onClose,
+  onSaved,
+}: PieceEntryModalProps) {
+  const [projectId, setProjectId] = useState(projects[0]?.id ?? "");
+  const [pieceItems, setPieceItems] = useState<PieceItem[]>([]);
+  const [pieceItemId, setPieceItemId] = useState("");
+  const [isItemsLoading, setIsItemsLoading] = useState(false);
+  const [date, setDate] = useState(defaultDate);
+  const [quantity, setQuantity] = useState("");
+  const [remark, setRemark] = useState("");
+  const [employeeIds, setEmployeeIds] = useState<string[]>([]);
+  const [showAllWorkTypes, setShowAllWorkTypes] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const { notify } = useNotice();
+
+  const selectedItem = pieceItems.find((item) => item.id === pieceItemId);
+  const quantityValue = Number(quantity);
+  const previewAmount =
+    selectedItem && Number.isFinite(quantityValue)
+      ? quantityValue * selectedItem.unitPrice * employeeIds.length
+      : 0;
+  // 计件项限定工种时默认只列出该工种员工，可切换为全部。
+  const lockedWorkType =
+    selectedItem?.workType && !showAllWorkTypes
+      ? selectedItem.workType
+      : undefined;
+  const isSelectedDateLocked =
+    Boolean(date) && isDateLocked(lockedMonths, date);
+
+  useEffect(() => {
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setLockedMonths(getLockedMonths(await fetchPeriodLocks()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  const loadPieceItems = useCallback(async () => {
+    if (!projectId) {
+      return;
+    }
+    try {
+      setIsItemsLoading(true);
+      const items = await fetchPieceItems(projectId);
+      setPieceItems(items);
+      setPieceItemId(items[0]?.id ?? "");
+    } catch (error) {
+      console.error(error);
+      setPieceItems([]);
+      setPieceItemId("");
+    } finally {
+      setIsItemsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadPieceItems();
+  }, [loadPieceItems]);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!selectedItem) {
+      notify("请选择计件项。", "warning");
+      return;
+    }
+    if (!date) {
+      notify("请选择日期。", "warning");
+      return;
+    }
+    if (isSelectedDateLocked) {
+      notify(`${date.slice(0, 7)} 已锁定，不能新增或修改该月记工。`, "warning");
+      return;
+    }
+    if (
+      !quantity.trim() ||
+      !Number.isFinite(quantityValue) ||
+      quantityValue <= 0
+    ) {
+      notify("数量需为大于 0 的数字。", "warning");
+      return;
+    }
+    if (employeeIds.length === 0) {
+      notify("请至少选择一位员工。", "warning");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createPieceEntries({
+        employeeIds,
+        pieceItemId: selectedItem.id,
+        date,
+        quantity: quantityValue,
+        remark,
+      });
+      notify(`已记录 ${employeeIds.length} 人计件。`, "success");
+      await onSaved();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-2xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold">计件记工</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-[color:var(--muted-foreground)]"
+          >
+            关闭
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              项目
+              <select
+                value={projectId}
+                onChange={(event) => setProjectId(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                disabled={projects.length === 0}
+              >
+                {projects.length === 0 ? (
+                  <option value="">暂无项目</option>
+                ) : (
+                  projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))
+                )}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              计件项
+              <select
+                value={pieceItemId}
+                onChange={(event) => setPieceItemId(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                disabled={isItemsLoading || pieceItems.length === 0}
+              >
+                {pieceItems.length === 0 ? (
+                  <option value="">
+                    {isItemsLoading ? "加载中" : "该项目暂无计件项"}
+                  </option>
+                ) : (
+                  pieceItems.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}（¥{item.unitPrice.toFixed(2)}/{item.unit}）
+                    </option>
+                  ))
+                )}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              日期
+              <input
+                type="date"
+                value={date}
+                onChange={(event) => setDate(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+              {isSelectedDateLocked ? (
+                <span className="text-[10px] text-rose-600">该月已锁定</span>
+              ) : null}
+            </label>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              每人数量{selectedItem ? `（${selectedItem.unit}）` : ""}
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)] md:col-span-2">
+              备注
+              <input
+                value={remark}
+                onChange={(event) => setRemark(event.target.value)}
+                placeholder="可选，如施工部位"
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-[color:var(--muted-foreground)]">
+              <span>选择员工（已选 {employeeIds.length} 人）</span>
+              <div className="flex items-center gap-3">
+                {selectedItem?.workType ? (
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={showAllWorkTypes}
+                      onChange={(event) => setShowAllWorkTypes(event.target.checked)}
+                    />
+                    显示全部工种（当前仅{selectedItem.workType}）
+                  </label>
+                ) : null}
+              </div>
+            </div>
+            <EmployeePicker
+              selectedIds={employeeIds}
+              onChange={setEmployeeIds}
+              crewIds={crewIds}
+              lockedWorkType={lockedWorkType}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] text-[color:var(--muted-foreground)]">
+              预计计件工资 ¥{formatAmount(previewAmount)}，计件不计入个工。
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                disabled={isSaving}
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+                disabled={isSaving || isSelectedDateLocked}
+                title={isSelectedDateLocked ? "该月已锁定" : undefined}
+              >
+                {isSaving ? "保存中..." : "保存"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,1353 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Clock3, Lock } from "lucide-react";
+import { Crew, fetchCrews } from "../lib/crews";
+import {
+  Employee,
+  Project,
+  SkippedTimeEntry,
+  TimeEntry,
+  TimeEntryDraft,
+  resources,
+} from "../lib/resources";
+import {
+  DEFAULT_TIME_ENTRY_SETTINGS,
+  TimeEntrySettings,
+  fetchTimeEntrySettings,
+} from "../lib/timeEntrySettings";
+import {
+  DEFAULT_STANDARD_SHIFT,
+  StandardShift,
+  computeShiftHours,
+  fetchStandardShift,
+  formatClockRange,
+} from "../lib/shift";
+import {
+  fetchPeriodLocks,
+  getLockedMonths,
+  isDateLocked,
+} from "../lib/periodLocks";
+import EmployeePicker from "./EmployeePicker";
+import { useNotice } from "./NoticeProvider";
+import useLatestRequest from "./useLatestRequest";
+
+type Allocation = {
+  projectId: string;
+  normalHours: number;
+  overtimeHours: number;
+};
+
+// projectId/normalHours/overtimeHours 为第一条分摊，splits 为同一天分摊到其他项目的记录。
+type FormState = {
+  employeeIds: string[];
+  dates: string[];
+  projectId: string;
+  normalHours: number;
+  overtimeHours: number;
+  splits: Allocation[];
+  startTime: string;
+  endTime: string;
+  breakMinutes: string;
+  remark: string;
+};
+
+type SkippedStatus = "pending" | "overwritten" | "added" | "kept" | "failed";
+
+type SkippedItem = {
+  key: string;
+  employeeId: string;
+  employeeName: string;
+  date: string;
+  allocation: Allocation;
+  existing: TimeEntry | null;
+  status: SkippedStatus;
+  message?: string;
+};
+
+type BatchResult = {
+  created: number;
+  skipped: number;
+  items: SkippedItem[];
+};
+
+type TimeEntryModalProps = {
+  projects: Project[];
+  // 班组长只能为本班组员工记工。
+  canSelectEmployee?: (employeeId: string) => boolean;
+  // 班组长的班组，员工选择器据此由后端过滤。
+  crewIds?: string[];
+  entry?: TimeEntry | null;
+  defaultDates?: string[];
+  defaultEmployeeIds?: string[];
+  onClose: () => void;
+  onSaved: () => Promise<void> | void;
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+function toMonthKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+function parseMonthKey(key: string) {
+  const [year, month] = key.split("-").map(Number);
+  return { year, month };
+}
+
+function formatMonthLabel(key: string) {
+  const { year, month } = parseMonthKey(key);
+  return `${year}年${month}月`;
+}
+
+function shiftMonthKey(key: string, offset: number) {
+  const { year, month } = parseMonthKey(key);
+  return toMonthKey(new Date(year, month - 1 + offset, 1));
+}
+
+const skippedStatusLabels: Record<SkippedStatus, string> = {
+  pending: "待处理",
+  overwritten: "已覆盖",
+  added: "已累加",
+  kept: "已保留原记录",
+  failed: "处理失败",
+};
+
+function formatHours(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function toSkippedItem(
+  item: SkippedTimeEntry,
+  employeeNames: Map<string, string>,
+  allocation: Allocation,
+): SkippedItem {
+  return {
+    key: `${item.employeeId}|${item.date}|${allocation.projectId}`,
+    employeeId: item.employeeId,
+    employeeName:
+      item.employeeName || employeeNames.get(item.employeeId) || "未知",
+    date: item.date,
+    allocation,
+    existing: item.existing,
+    status: "pending",
+  };
+}
+
+export default function TimeEntryModal({
+  projects,
+  canSelectEmployee,
+  crewIds,
+  entry,
+  defaultDates,
+  defaultEmployeeIds,
+  onClose,
+  onSaved,
+}: TimeEntryModalProps) {
+  const [todayKey] = useState(() => toDateKey(new Date()));
+  const [pickerMonth, setPickerMonth] = useState(
+    () => (entry?.date ?? defaultDates?.[0] ?? todayKey).slice(0, 7),
+  );
+  const [formState, setFormState] = useState<FormState>(() =>
+    entry
+      ? {
+          employeeIds: [entry.employeeId],
+          dates: [entry.date],
+          projectId: entry.projectId ?? "",
+          normalHours: entry.normalHours,
+          overtimeHours: entry.overtimeHours,
+          splits: [],
+          startTime: entry.startTime ?? "",
+          endTime: entry.endTime ?? "",
+          breakMinutes:
+            entry.breakMinutes === undefined ? "" : String(entry.breakMinutes),
+          remark: entry.remark ?? "",
+        }
+      : {
+          employeeIds: defaultEmployeeIds ?? [],
+          dates: defaultDates ?? [todayKey],
+          projectId: "",
+          normalHours: 8,
+          overtimeHours: 0,
+          splits: [],
+          startTime: "",
+          endTime: "",
+          breakMinutes: "",
+          remark: "",
+        },
+  );
+  const [crews, setCrews] = useState<Crew[]>([]);
+  // 员工按页加载，姓名随加载记下，供超限提示与跳过明细使用。
+  const [employeeNames, setEmployeeNames] = useState(
+    () =>
+      new Map<string, string>(
+        entry?.employeeName ? [[entry.employeeId, entry.employeeName]] : [],
+      ),
+  );
+  const [timeEntrySettings, setTimeEntrySettings] = useState<TimeEntrySettings>(
+    DEFAULT_TIME_ENTRY_SETTINGS,
+  );
+  const [standardShift, setStandardShift] = useState<StandardShift>(
+    DEFAULT_STANDARD_SHIFT,
+  );
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [batchResult, setBatchResult] = useState<BatchResult | null>(null);
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+  const { notify, confirm } = useNotice();
+  const beginRequest = useLatestRequest();
+
+  const isEditing = Boolean(entry);
+  const selectedEmployeeSet = useMemo(
+    () => new Set(formState.employeeIds),
+    [formState.employeeIds],
+  );
+  const selectedEmployeeSummary = formState.employeeIds
+    .map((id) => employeeNames.get(id))
+    .filter(Boolean)
+    .join("、");
+  const selectedDateList = useMemo(
+    () => [...formState.dates].sort(),
+    [formState.dates],
+  );
+  const allocations: Allocation[] = [
+    {
+      projectId: formState.projectId,
+      normalHours: formState.normalHours,
+      overtimeHours: formState.overtimeHours,
+    },
+    ...formState.splits,
+  ];
+  const allocatedHours = allocations.reduce(
+    (sum, allocation) => sum + allocation.normalHours + allocation.overtimeHours,
+    0,
+  );
+
+  useEffect(() => {
+    loadTimeEntrySettings();
+    loadStandardShift();
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setLockedMonths(getLockedMonths(await fetchPeriodLocks()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function loadStandardShift() {
+    try {
+      setStandardShift(await fetchStandardShift());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function loadTimeEntrySettings() {
+    try {
+      setTimeEntrySettings(await fetchTimeEntrySettings());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  // 班组成员中已不存在的员工（离职、删除）直接忽略。
+  const loadCrews = useCallback(async () => {
+    const signal = beginRequest("crews");
+    try {
+      const [list, employeeIds] = await Promise.all([
+        fetchCrews(signal),
+        resources.employees.listIds({}, signal),
+      ]);
+      if (signal.aborted) {
+        return;
+      }
+      const activeIds = new Set(employeeIds);
+      setCrews(
+        list.map((crew) => ({
+          ...crew,
+          employeeIds: crew.employeeIds.filter((id) => activeIds.has(id)),
+        })),
+      );
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error(error);
+      }
+    }
+  }, [beginRequest]);
+
+  useEffect(() => {
+    loadCrews();
+  }, [loadCrews]);
+
+  function rememberEmployees(employees: Employee[]) {
+    setEmployeeNames((prev) => {
+      const next = new Map(prev);
+      employees.forEach((employee) => next.set(employee.id, employee.name));
+      return next;
+    });
+  }
+
+  function getCrewEmployeeIds(crew: Crew) {
+    return canSelectEmployee
+      ? crew.employeeIds.filter(canSelectEmployee)
+      : crew.employeeIds;
+  }
+
+  // 无权记工的成员不参与整组选择；整组已选中时再次点击取消选择。
+  function applyCrew(crew: Crew) {
+    const crewEmployeeIds = getCrewEmployeeIds(crew);
+    if (crewEmployeeIds.length === 0) {
+      notify("该班组暂无可选员工。", "warning");
+      return;
+    }
+    const isFullySelected = crewEmployeeIds.every((id) =>
+      selectedEmployeeSet.has(id),
+    );
+    if (isFullySelected) {
+      clearEmployeeGroup(crewEmployeeIds);
+      return;
+    }
+    selectEmployeeGroup(crewEmployeeIds);
+  }
+
+  function selectEmployeeGroup(employeeIds: string[]) {
+    setFormState((prev) => ({
+      ...prev,
+      employeeIds: Array.from(new Set([...prev.employeeIds, ...employeeIds])),
+    }));
+  }
+
+  function clearEmployeeGroup(employeeIds: string[]) {
+    setFormState((prev) => ({
+      ...prev,
+      employeeIds: prev.employeeIds.filter((id) => !employeeIds.includes(id)),
+    }));
+  }
+
+  // 修改上下班时间或休息时长后按标准班次重算工时，之后仍可手动改小时数。
+  function updateClock(
+    changes: Partial<Pick<FormState, "startTime" | "endTime" | "breakMinutes">>,
+  ) {
+    setFormState((prev) => {
+      const next = { ...prev, ...changes };
+      if (
+        next.startTime &&
+        next.endTime &&
+        next.breakMinutes === "" &&
+        changes.breakMinutes === undefined
+      ) {
+        next.breakMinutes = String(standardShift.breakMinutes);
+      }
+      const hours = computeShiftHours(
+        {
+          startTime: next.startTime,
+          endTime: next.endTime,
+          breakMinutes: Number(next.breakMinutes) || 0,
+        },
+        standardShift,
+      );
+      return hours ? { ...next, ...hours } : next;
+    });
+  }
+
+  function getClockDraft() {
+    const hasClock = Boolean(formState.startTime && formState.endTime);
+    return {
+      startTime: hasClock ? formState.startTime : undefined,
+      endTime: hasClock ? formState.endTime : undefined,
+      breakMinutes: hasClock ? Number(formState.breakMinutes) || 0 : undefined,
+    };
+  }
+
+  function updateSplit(index: number, changes: Partial<Allocation>) {
+    setFormState((prev) => ({
+      ...prev,
+      splits: prev.splits.map((split, splitIndex) =>
+        splitIndex === index ? { ...split, ...changes } : split,
+      ),
+    }));
+  }
+
+  function addSplit() {
+    setFormState((prev) => ({
+      ...prev,
+      splits: [...prev.splits, { projectId: "", normalHours: 0, overtimeHours: 0 }],
+    }));
+  }
+
+  function removeSplit(index: number) {
+    setFormState((prev) => ({
+      ...prev,
+      splits: prev.splits.filter((_, splitIndex) => splitIndex !== index),
+    }));
+  }
+
+  // 超过每日工时上限只做提醒：合计 = 当天已有记录（不含正在编辑的、以及会因同项目被跳过的）+ 本次分摊。
+  async function confirmDailyLimit() {
+    const maxDailyHours = timeEntrySettings.maxDailyHours;
+    const dates = [...formState.dates].sort();
+    const employeeIdSet = new Set(formState.employeeIds);
+    const dateSet = new Set(dates);
+    const projectIdSet = new Set(allocations.map((item) => item.projectId));
+    const existingHours = new Map<string, number>();
+    const names = new Map(employeeNames);
+    const signal = beginRequest("existingEntries");
+    try {
+      const list = await resources.timeEntries.listAll(
+        { startDate: dates[0], endDate: dates[dates.length - 1] },
+        signal,
+      );
+      list.forEach((item) => {
+        if (
+          (entry && item.id === entry.id) ||
+          !employeeIdSet.has(item.employeeId) ||
+          !dateSet.has(item.date) ||
+          (!entry && projectIdSet.has(item.projectId ?? ""))
+        ) {
+          return;
+        }
+        const key = `${item.employeeId}|${item.date}`;
+        if (item.employeeName) {
+          names.set(item.employeeId, item.employeeName);
+        }
+        existingHours.set(
+          key,
+          (existingHours.get(key) ?? 0) + item.normalHours + item.overtimeHours,
+        );
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        return false;
+      }
+      console.error(error);
+    }
+    if (signal.aborted) {
+      return false;
+    }
+
+    const overLimit: Array<{ employeeId: string; date: string; hours: number }> = [];
+    formState.employeeIds.forEach((employeeId) => {
+      dates.forEach((date) => {
+        const hours =
+          (existingHours.get(`${employeeId}|${date}`) ?? 0) + allocatedHours;
+        if (hours > maxDailyHours) {
+          overLimit.push({ employeeId, date, hours });
+        }
+      });
+    });
+    if (overLimit.length === 0) {
+      return true;
+    }
+    const sample = overLimit
+      .slice(0, 3)
+      .map(
+        (item) =>
+          `${names.get(item.employeeId) ?? "未知"} ${item.date}（${formatHours(
+            item.hours,
+          )}h）`,
+      )
+      .join("、");
+    return confirm(
+      `以下员工当天合计工时超过上限 ${formatHours(maxDailyHours)} 小时：${sample}${
+        overLimit.length > 3 ? ` 等 ${overLimit.length} 人次` : ""
+      }。确认继续保存吗？`,
+      { type: "warning", confirmText: "继续保存" },
+    );
+  }
+
+  // 每条分摊单独走批量接口；allow_split 表示同一员工同一天仅在同项目已有记录时跳过。
+  // 上下班时间只记在第一条分摊上，避免同一天的时间段重复出现。
+  async function submitAllocations(
+    items: Allocation[],
+    employeeIds: string[],
+    workDates: string[],
+  ): Promise<BatchResult> {
+    const batchResult: BatchResult = { created: 0, skipped: 0, items: [] };
+    for (const allocation of items) {
+      const result = await resources.timeEntries.batch({
+        employeeIds,
+        dates: workDates,
+        projectId: allocation.projectId,
+        normalHours: allocation.normalHours,
+        overtimeHours: allocation.overtimeHours,
+        ...(allocation === allocations[0] ? getClockDraft() : {}),
+        remark: formState.remark.trim(),
+        allowSplit: true,
+      });
+      batchResult.created += result.created;
+      batchResult.skipped += result.skipped;
+      batchResult.items.push(
+        ...result.skippedItems.map((item) =>
+          toSkippedItem(item, employeeNames, allocation),
+        ),
+      );
+    }
+    return batchResult;
+  }
+
+  async function handleFormSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (projects.length > 0 && allocations.some((item) => !item.projectId)) {
+      notify("请选择项目。", "warning");
+      return;
+    }
+    if (
+      allocations.length > 1 &&
+      new Set(allocations.map((item) => item.projectId)).size !==
+        allocations.length
+    ) {
+      notify("同一项目不能重复分摊，请合并工时。", "warning");
+      return;
+    }
+    if (
+      allocations.some(
+        (item) =>
+          !Number.isFinite(item.normalHours) ||
+          !Number.isFinite(item.overtimeHours) ||
+          item.normalHours < 0 ||
+          item.overtimeHours < 0,
+      )
+    ) {
+      notify("工时需为不小于 0 的数字。", "warning");
+      return;
+    }
+    const lockedDates = [
+      ...formState.dates,
+      ...(entry ? [entry.date] : []),
+    ].filter((date) => isDateLocked(lockedMonths, date));
+    if (lockedDates.length > 0) {
+      notify(
+        `${lockedDates[0].slice(0, 7)} 已锁定，不能新增或修改该月记工。`,
+        "warning",
+      );
+      return;
+    }
+    if (Boolean(formState.startTime) !== Boolean(formState.endTime)) {
+      notify("请同时填写上班与下班时间。", "warning");
+      return;
+    }
+
+    if (entry) {
+      // 编辑模式：单条记录编辑
+      if (formState.employeeIds.length === 0 || formState.dates.length === 0) {
+        notify("请选择员工并填写日期。", "warning");
+        return;
+      }
+      if (!(await confirmDailyLimit())) {
+        return;
+      }
+
+      try {
+        await resources.timeEntries.update(entry.id, {
+          employeeId: formState.employeeIds[0],
+          projectId: formState.projectId,
+          date: formState.dates[0],
+          normalHours: formState.normalHours,
+          overtimeHours: formState.overtimeHours,
+          ...getClockDraft(),
+          remark: formState.remark.trim(),
+        });
+        if (formState.splits.length > 0) {
+          const splitResult = await submitAllocations(
+            formState.splits,
+            [formState.employeeIds[0]],
+            [formState.dates[0]],
+          );
+          if (splitResult.items.length > 0) {
+            setBatchResult(splitResult);
+            return;
+          }
+        }
+        notify("记工记录已更新。", "success");
+        await onSaved();
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "保存失败，请稍后再试。";
+        notify(message, "error");
+      }
+    } else {
+      // 新增模式：批量创建
+      if (formState.employeeIds.length === 0) {
+        notify("请至少选择一位员工。", "warning");
+        return;
+      }
+      if (formState.dates.length === 0) {
+        notify("请至少选择一个日期。", "warning");
+        return;
+      }
+      if (!(await confirmDailyLimit())) {
+        return;
+      }
+
+      try {
+        const { created, skipped, items } = await submitAllocations(
+          allocations,
+          formState.employeeIds,
+          formState.dates,
+        );
+
+        // 能识别出被跳过的员工与日期时，留在弹窗内逐条处理，关闭时再刷新列表。
+        if (items.length > 0) {
+          setBatchResult({ created, skipped, items });
+          return;
+        }
+
+        await onSaved();
+
+        if (skipped === 0) {
+          notify(`批量记工成功，共创建 ${created} 条记录。`, "success");
+        } else if (created === 0) {
+          notify(`批量记工失败，${skipped} 条记录被跳过（可能已存在）。`, "error");
+        } else {
+          notify(
+            `批量记工部分成功，成功 ${created} 条，跳过 ${skipped} 条。`,
+            "warning"
+          );
+        }
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "保存失败，请稍后再试。";
+        notify(message, "error");
+      }
+    }
+  }
+
+  function updateSkippedItem(key: string, changes: Partial<SkippedItem>) {
+    setBatchResult((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((item) =>
+              item.key === key ? { ...item, ...changes } : item,
+            ),
+          }
+        : prev,
+    );
+  }
+
+  async function resolveSkippedItem(
+    item: SkippedItem,
+    action: "overwrite" | "add" | "keep",
+  ) {
+    if (action === "keep" || !item.existing) {
+      updateSkippedItem(item.key, { status: "kept", message: undefined });
+      return;
+    }
+    const existing = item.existing;
+    const { allocation } = item;
+    // 覆盖时与新建一致，上下班时间只随第一条分摊写入，否则保留原记录的时间段；
+    // 累加后的工时与任何一段上下班时间都对不上，清空时间段。
+    const hasFormClock =
+      allocation.projectId === formState.projectId &&
+      Boolean(formState.startTime && formState.endTime);
+    const clock = hasFormClock
+      ? {
+          startTime: formState.startTime,
+          endTime: formState.endTime,
+          breakMinutes: Number(formState.breakMinutes) || 0,
+        }
+      : {
+          startTime: existing.startTime,
+          endTime: existing.endTime,
+          breakMinutes: existing.breakMinutes,
+        };
+    const draft: TimeEntryDraft =
+      action === "overwrite"
+        ? {
+            employeeId: item.employeeId,
+            projectId: allocation.projectId,
+            date: item.date,
+            normalHours: allocation.normalHours,
+            overtimeHours: allocation.overtimeHours,
+            ...clock,
+            remark: formState.remark.trim(),
+          }
+        : {
+            employeeId: item.employeeId,
+            projectId: existing.projectId ?? allocation.projectId,
+            date: item.date,
+            normalHours: existing.normalHours + allocation.normalHours,
+            overtimeHours: existing.overtimeHours + allocation.overtimeHours,
+            remark: existing.remark || formState.remark.trim(),
+          };
+
+    try {
+      setResolvingKey(item.key);
+      await resources.timeEntries.update(existing.id, draft);
+      updateSkippedItem(item.key, {
+        status: action === "overwrite" ? "overwritten" : "added",
+        message: undefined,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      updateSkippedItem(item.key, { status: "failed", message });
+    } finally {
+      setResolvingKey(null);
+    }
+  }
+
+  async function resolveAllSkippedItems(action: "overwrite" | "add" | "keep") {
+    if (!batchResult) {
+      return;
+    }
+    for (const item of batchResult.items) {
+      if (item.status === "pending" || item.status === "failed") {
+        await resolveSkippedItem(item, action);
+      }
+    }
+  }
+
+  async function finishBatchResult() {
+    const failed = batchResult?.items.filter(
+      (item) => item.status === "failed",
+    ).length;
+    await onSaved();
+    if (failed) {
+      notify(`有 ${failed} 条跳过的记录处理失败，请稍后重试。`, "warning");
+    }
+  }
+
+  const { year: pickerYear, month: pickerMonthNumber } = parseMonthKey(pickerMonth);
+  const pickerMonthStart = new Date(pickerYear, pickerMonthNumber - 1, 1);
+  const pickerDaysInMonth = new Date(pickerYear, pickerMonthNumber, 0).getDate();
+  const pickerStartIndex = (pickerMonthStart.getDay() + 6) % 7;
+  const pickerTotalCells =
+    Math.ceil((pickerStartIndex + pickerDaysInMonth) / 7) * 7;
+  const pickerCalendarCells = Array.from(
+    { length: pickerTotalCells },
+    (_, index) => {
+      const day = index - pickerStartIndex + 1;
+      if (day < 1 || day > pickerDaysInMonth) {
+        return null;
+      }
+      const dateKey = `${pickerYear}-${pad(pickerMonthNumber)}-${pad(day)}`;
+      return { day, dateKey };
+    },
+  );
+
+  if (batchResult) {
+    const projectNames = new Map(
+      projects.map((project) => [project.id, project.name] as const),
+    );
+    const hasPending = batchResult.items.some(
+      (item) => item.status === "pending" || item.status === "failed",
+    );
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+        <div className="w-full max-w-3xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold">批量记工结果</h3>
+            <button
+              type="button"
+              onClick={finishBatchResult}
+              className="text-xs text-[color:var(--muted-foreground)]"
+              disabled={Boolean(resolvingKey)}
+            >
+              关闭
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-[color:var(--muted-foreground)]">
+            成功 {batchResult.created} 条，跳过 {batchResult.skipped} 条（当天该项目已有记录）。
+          </p>
+
+          <div className="mt-3 max-h-80 overflow-y-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-[color:var(--muted-foreground)]">
+                <tr>
+                  <th className="pb-1 font-medium">员工</th>
+                  <th className="pb-1 font-medium">日期</th>
+                  <th className="pb-1 font-medium">本次提交</th>
+                  <th className="pb-1 font-medium">已有记录</th>
+                  <th className="pb-1 text-right font-medium">处理</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batchResult.items.map((item) => (
+                  <tr
+                    key={item.key}
+                    className="border-t border-[color:var(--border)]"
+                  >
+                    <td className="whitespace-nowrap py-2 text-foreground">
+                      {item.employeeName}
+                    </td>
+                    <td className="whitespace-nowrap py-2 text-foreground">
+                      {item.date}
+                    </td>
+                    <td className="py-2 text-foreground">
+                      {projectNames.get(item.allocation.projectId) ?? "未关联项目"} · 常规{" "}
+                      {formatHours(item.allocation.normalHours)}h / 加班{" "}
+                      {formatHours(item.allocation.overtimeHours)}h
+                    </td>
+                    <td className="py-2 text-[color:var(--muted-foreground)]">
+                      {item.existing ? (
+                        <>
+                          {item.existing.projectName ||
+                            projects.find(
+                              (project) => project.id === item.existing?.projectId,
+                            )?.name ||
+                            "未关联项目"}{" "}
+                          · 常规 {formatHours(item.existing.normalHours)}h / 加班{" "}
+                          {formatHours(item.existing.overtimeHours)}h
+                        </>
+                      ) : (
+                        "原记录信息缺失"
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap py-2 text-right">
+                      {item.status === "pending" || item.status === "failed" ? (
+                        <div className="flex items-center justify-end gap-2">
+                          {item.status === "failed" ? (
+                            <span
+                              className="text-[10px] text-red-500"
+                              title={item.message}
+                            >
+                              {skippedStatusLabels.failed}
+                            </span>
+                          ) : null}
+                          <button
+                            type="button"
+                            onClick={() => resolveSkippedItem(item, "overwrite")}
+                            className="text-xs text-foreground hover:underline disabled:opacity-50"
+                            disabled={!item.existing || Boolean(resolvingKey)}
+                          >
+                            覆盖
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => resolveSkippedItem(item, "add")}
+                            className="text-xs text-foreground hover:underline disabled:opacity-50"
+                            disabled={!item.existing || Boolean(resolvingKey)}
+                          >
+                            累加
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => resolveSkippedItem(item, "keep")}
+                            className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:opacity-50"
+                            disabled={Boolean(resolvingKey)}
+                          >
+                            保留
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-[10px] text-[color:var(--muted-foreground)]">
+                          {skippedStatusLabels[item.status]}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-[10px] text-[color:var(--muted-foreground)]">
+            覆盖：用本次提交的工时替换原记录；累加：在原记录上加上本次工时并清空上下班时间；保留：不做修改。
+          </p>
+
+          <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+            {hasPending ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => resolveAllSkippedItems("overwrite")}
+                  className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-foreground disabled:opacity-50"
+                  disabled={Boolean(resolvingKey)}
+                >
+                  全部覆盖
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveAllSkippedItems("add")}
+                  className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-foreground disabled:opacity-50"
+                  disabled={Boolean(resolvingKey)}
+                >
+                  全部累加
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveAllSkippedItems("keep")}
+                  className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] disabled:opacity-50"
+                  disabled={Boolean(resolvingKey)}
+                >
+                  全部保留
+                </button>
+              </>
+            ) : null}
+            <button
+              type="button"
+              onClick={finishBatchResult}
+              className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+              disabled={Boolean(resolvingKey)}
+            >
+              完成
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        className={`w-full ${
+          isEditing ? "max-w-5xl" : "max-w-6xl"
+        } rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4`}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold">
+            {isEditing ? "编辑记工" : "新增记工"}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-[color:var(--muted-foreground)]"
+          >
+            关闭
+          </button>
+        </div>
+
+        <form onSubmit={handleFormSubmit} className="mt-4 space-y-3">
+          <div className="space-y-1">
+            <div className="grid gap-3 md:grid-cols-3">
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                上班时间（可选）
+                <input
+                  type="time"
+                  value={formState.startTime}
+                  onChange={(event) => updateClock({ startTime: event.target.value })}
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                下班时间（可选）
+                <input
+                  type="time"
+                  value={formState.endTime}
+                  onChange={(event) => updateClock({ endTime: event.target.value })}
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                休息分钟
+                <input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={formState.breakMinutes}
+                  placeholder={String(standardShift.breakMinutes)}
+                  onChange={(event) =>
+                    updateClock({ breakMinutes: event.target.value })
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+            </div>
+            <p className="text-[10px] text-[color:var(--muted-foreground)]">
+              填写上下班时间后按标准班次{" "}
+              {formatClockRange(
+                standardShift.startTime,
+                standardShift.endTime,
+                standardShift.breakMinutes,
+              )}{" "}
+              自动拆分常规与加班，仍可手动修改小时数。
+            </p>
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              项目
+              <select
+                value={formState.projectId}
+                onChange={(event) =>
+                  setFormState((prev) => ({
+                    ...prev,
+                    projectId: event.target.value,
+                  }))
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                disabled={projects.length === 0}
+              >
+                {projects.length === 0 ? (
+                  <option value="">暂无项目</option>
+                ) : (
+                  <>
+                    <option value="">请选择项目</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </>
+                )}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              常规班次小时
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={formState.normalHours}
+                onChange={(event) =>
+                  setFormState((prev) => ({
+                    ...prev,
+                    normalHours: Number(event.target.value),
+                  }))
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              加班小时
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={formState.overtimeHours}
+                onChange={(event) =>
+                  setFormState((prev) => ({
+                    ...prev,
+                    overtimeHours: Number(event.target.value),
+                  }))
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+          </div>
+          {formState.splits.map((split, index) => (
+            <div
+              key={index}
+              className="grid gap-3 md:grid-cols-[1fr_1fr_1fr_auto] md:items-end"
+            >
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                分摊项目 {index + 2}
+                <select
+                  value={split.projectId}
+                  onChange={(event) =>
+                    updateSplit(index, { projectId: event.target.value })
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  disabled={projects.length === 0}
+                >
+                  <option value="">请选择项目</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                常规班次小时
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={split.normalHours}
+                  onChange={(event) =>
+                    updateSplit(index, { normalHours: Number(event.target.value) })
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                加班小时
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={split.overtimeHours}
+                  onChange={(event) =>
+                    updateSplit(index, {
+                      overtimeHours: Number(event.target.value),
+                    })
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => removeSplit(index)}
+                className="h-9 px-2 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+              >
+                移除
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center justify-between gap-2 text-[10px] text-[color:var(--muted-foreground)]">
+            {projects.length > 1 ? (
+              <button
+                type="button"
+                onClick={addSplit}
+                className="text-[10px] text-foreground hover:underline"
+              >
+                + 分摊到其他项目
+              </button>
+            ) : (
+              <span />
+            )}
+            <span
+              className={
+                allocatedHours > timeEntrySettings.maxDailyHours
+                  ? "text-red-500"
+                  : undefined
+              }
+            >
+              每人每天合计 {formatHours(allocatedHours)}h（上限{" "}
+              {formatHours(timeEntrySettings.maxDailyHours)}h）
+            </span>
+          </div>
+          <div
+            className={`grid gap-4 ${
+              isEditing
+                ? "xl:grid-cols-[1.7fr_320px]"
+                : "xl:grid-cols-[2fr_1fr]"
+            }`}
+          >
+            <div className="flex flex-col gap-1.5 text-xs text-[color:var(--muted-foreground)]">
+              <div>
+                <span>选择员工</span>
+                <p className="mt-0.5 text-[10px] text-[color:var(--muted-foreground)]">
+                  {isEditing
+                    ? "可按姓名搜索或按工种筛选，编辑模式仅可选择 1 位员工。"
+                    : "可按姓名搜索或按工种筛选，可一次性选中整组员工。"}
+                </p>
+              </div>
+              {!isEditing && crews.length > 0 ? (
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-[10px]">班组</span>
+                  {crews.map((crew) => {
+                    const crewEmployeeIds = getCrewEmployeeIds(crew);
+                    const isCrewSelected =
+                      crewEmployeeIds.length > 0 &&
+                      crewEmployeeIds.every((id) => selectedEmployeeSet.has(id));
+                    return (
+                      <button
+                        key={crew.id}
+                        type="button"
+                        onClick={() => applyCrew(crew)}
+                        className={`rounded-full border px-2 py-0.5 text-[10px] transition ${
+                          isCrewSelected
+                            ? "border-foreground bg-foreground text-background"
+                            : "border-[color:var(--border)] text-foreground hover:bg-[color:var(--surface-muted)]"
+                        }`}
+                        title={`${crewEmployeeIds.length} 人`}
+                      >
+                        {crew.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : null}
+              <EmployeePicker
+                selectedIds={formState.employeeIds}
+                onChange={(employeeIds) =>
+                  setFormState((prev) => ({ ...prev, employeeIds }))
+                }
+                multiple={!isEditing}
+                crewIds={crewIds}
+                onEmployeesLoaded={rememberEmployees}
+              />
+              <div className="flex justify-end text-[10px] text-[color:var(--muted-foreground)]">
+                <span className="inline-flex items-center gap-1">
+                  <Clock3 className="h-3 w-3 text-amber-500" />
+                  临时工以图标标记
+                </span>
+              </div>
+            </div>
+
+            {isEditing ? (
+              <div className="space-y-3">
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  日期
+                  <input
+                    type="date"
+                    value={formState.dates[0] ?? ""}
+                    onChange={(event) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        dates: [event.target.value],
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+
+                <div className="rounded-md border border-[color:var(--border)] bg-[color:var(--surface-muted)] px-3 py-2 text-xs text-[color:var(--muted-foreground)]">
+                  <div>当前员工</div>
+                  <div className="mt-1 text-sm text-foreground">
+                    {selectedEmployeeSummary || "未选择员工"}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span>选择日期</span>
+                    <p className="mt-0.5 text-[10px] text-[color:var(--muted-foreground)]">
+                      按当前月份展示，可一次性选择多个日期。
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setPickerMonth((prev) => shiftMonthKey(prev, -1))}
+                      className="text-[10px] text-[color:var(--muted-foreground)] hover:text-foreground"
+                    >
+                      上月
+                    </button>
+                    <span className="inline-flex items-center gap-0.5 text-[10px] text-foreground">
+                      {lockedMonths.has(pickerMonth) ? (
+                        <Lock className="h-2.5 w-2.5" aria-label="已锁定" />
+                      ) : null}
+                      {formatMonthLabel(pickerMonth)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setPickerMonth((prev) => shiftMonthKey(prev, 1))}
+                      className="text-[10px] text-[color:var(--muted-foreground)] hover:text-foreground"
+                    >
+                      下月
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormState((prev) => ({
+                          ...prev,
+                          dates: [],
+                        }))
+                      }
+                      className="text-[10px] text-[color:var(--muted-foreground)] hover:underline"
+                    >
+                      清空
+                    </button>
+                  </div>
+                </div>
+                <div className="max-h-[26rem] overflow-y-auto rounded-md border border-[color:var(--border)] bg-transparent p-2">
+                  <div className="mb-2 grid grid-cols-7 gap-1 text-center text-[10px] text-[color:var(--muted-foreground)]">
+                    {["一", "二", "三", "四", "五", "六", "日"].map(
+                      (label) => (
+                        <div key={label}>{label}</div>
+                      ),
+                    )}
+                  </div>
+                  <div className="grid grid-cols-7 gap-1 place-items-center">
+                    {pickerCalendarCells.map((cell, index) => {
+                      if (!cell) {
+                        return (
+                          <div
+                            key={`empty-${index}`}
+                            className="h-7 w-7"
+                          />
+                        );
+                      }
+
+                      const isSelected = formState.dates.includes(
+                        cell.dateKey,
+                      );
+                      const isToday = cell.dateKey === todayKey;
+                      const isLocked = isDateLocked(lockedMonths, cell.dateKey);
+
+                      return (
+                        <button
+                          key={cell.dateKey}
+                          type="button"
+                          disabled={isLocked && !isSelected}
+                          title={isLocked ? "该月已锁定" : undefined}
+                          onClick={() => {
+                            setFormState((prev) => ({
+                              ...prev,
+                              dates: isSelected
+                                ? prev.dates.filter(
+                                    (d) => d !== cell.dateKey,
+                                  )
+                                : [...prev.dates, cell.dateKey],
+                            }));
+                          }}
+                          className={`flex h-7 w-7 items-center justify-center rounded text-[11px] transition ${
+                            isSelected
+                              ? "bg-foreground text-background"
+                              : isLocked
+                                ? "cursor-not-allowed text-[color:var(--muted-foreground)] opacity-40"
+                                : "hover:bg-[color:var(--surface-muted)]"
+                          } ${
+                            isToday
+                              ? "ring-1 ring-[color:var(--foreground)]/40"
+                              : ""
+                          }`}
+                        >
+                          {cell.day}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <span className="text-[10px] text-[color:var(--muted-foreground)]">
+                  已选 {formState.dates.length} 个日期
+                </span>
+                {selectedDateList.length > 0 ? (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {selectedDateList.map((date) => (
+                      <span
+                        key={date}
+                        className="inline-flex items-center rounded-full border border-[color:var(--border)] px-1.5 py-px text-[10px] text-foreground"
+                      >
+                        {date}
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            )}
+          </div>
+
+          <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+            备注
+            <input
+              value={formState.remark}
+              onChange={(event) =>
+                setFormState((prev) => ({
+                  ...prev,
+                  remark: event.target.value,
+                }))
+              }
+              maxLength={100}
+              className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+            />
+          </label>
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+            >
+              保存
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import {
+  CachedQuery,
+  fetchQuery,
+  peekQuery,
+  subscribeQuery,
+} from "../lib/queryCache";
+
+// 先展示缓存中的数据（可能已过期），过期时在后台重新请求，返回后自动更新。
+export default function useCachedQuery<T>(query: CachedQuery<T>) {
+  const subscribe = useCallback(
+    (onChange: () => void) => subscribeQuery(query, onChange),
+    [query],
+  );
+  const data = useSyncExternalStore(
+    subscribe,
+    () => peekQuery(query) ?? query.placeholder,
+    () => query.placeholder,
+  );
+
+  useEffect(() => {
+    fetchQuery(query).catch((error) => console.error(error));
+  }, [query]);
+
+  return data;
+}
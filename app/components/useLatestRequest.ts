@@ -0,0 +1,24 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+
+// 同一类加载再次发起时取消上一次请求，只让最后一次的结果落到页面上；
+// 组件卸载时取消全部未完成的请求。
+export default function useLatestRequest() {
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  return useCallback((key: string) => {
+    controllersRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    return controller.signal;
+  }, []);
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { loadAuthUser } from "../lib/auth";
+import { fetchCrewEmployeeIds } from "../lib/crews";
+import { Permission, getUserRole, hasPermission } from "../lib/permissions";
+
+const NO_CREWS: string[] = [];
+
+// 页面在 AuthGuard 放行后才挂载，此时本地会话已可读取。
+export default function usePermissions() {
+  const [user] = useState(() => loadAuthUser());
+  const role = getUserRole(user);
+  const isCrewScoped = role === "foreman";
+  const [crewEmployeeIds, setCrewEmployeeIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+
+  useEffect(() => {
+    if (!isCrewScoped) {
+      return;
+    }
+    fetchCrewEmployeeIds(user?.crew_ids ?? [])
+      .then(setCrewEmployeeIds)
+      .catch((error) => console.error(error));
+  }, [isCrewScoped, user]);
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role],
+  );
+
+  // 班组长只能操作本班组员工；其余有记工权限的角色不受限制。
+  const canRecordFor = useCallback(
+    (employeeId: string) =>
+      hasPermission(role, "entry.write") &&
+      (!isCrewScoped || crewEmployeeIds.has(employeeId)),
+    [role, isCrewScoped, crewEmployeeIds],
+  );
+
+  // 仅班组长返回班组列表，供员工选择器交给后端过滤。
+  const crewIds = isCrewScoped ? (user?.crew_ids ?? NO_CREWS) : undefined;
+
+  return { role, can, canRecordFor, isCrewScoped, crewIds };
+}
@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { fireEvent, screen, waitFor, within } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import EmployeesPage from "./page";
+import {
+  MockApiHarness,
+  captureDownloads,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  renderWithNotice(<EmployeesPage />);
+});
+
+function getFirstEmployeeRow() {
+  const row = screen.getAllByRole("row")[1];
+  const name = within(row).getAllByRole("cell")[0].querySelector("span");
+  return { row, name: name?.textContent ?? "" };
+}
+
+function getEmployeeRow(name: string) {
+  return screen
+    .getAllByRole("row")
+    .find((row) => within(row).queryByText(name))!;
+}
+
+function getImportInput() {
+  return document.querySelector<HTMLInputElement>('input[type="file"]')!;
+}
+
+describe("EmployeesPage", () => {
+  it("lists employees and searches by keyword", async () => {
+    expect(await screen.findByText("共 26 条")).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText("搜索员工"), {
+      target: { value: "钢筋" },
+    });
+
+    expect(await screen.findByText("共 4 条")).toBeTruthy();
+    const last = findRequests(mock.requests, "GET", "/api/employees").at(-1);
+    expect(last?.params.get("keyword")).toBe("钢筋");
+  });
+
+  it("updates an employee from the edit modal", async () => {
+    await screen.findByText("共 26 条");
+    const { row, name } = getFirstEmployeeRow();
+    fireEvent.click(within(row).getByRole("button", { name: "编辑" }));
+
+    const heading = screen.getByRole("heading", { name: "编辑员工" });
+    const modal = within(heading.parentElement!.parentElement!);
+    fireEvent.change(modal.getByLabelText(/^工种/), {
+      target: { value: "测量员" },
+    });
+    fireEvent.click(modal.getByRole("button", { name: "保存" }));
+
+    expect(await screen.findByText("员工已更新。")).toBeTruthy();
+    await waitFor(() =>
+      expect(within(getEmployeeRow(name)).getByText("测量员")).toBeTruthy(),
+    );
+  });
+
+  it("deletes an employee after confirmation", async () => {
+    await screen.findByText("共 26 条");
+    const { row, name } = getFirstEmployeeRow();
+    fireEvent.click(within(row).getByRole("button", { name: "删除" }));
+
+    expect(await screen.findByText("确认删除该员工吗？")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "确认" }));
+
+    expect(await screen.findByText("员工已删除。")).toBeTruthy();
+    expect(await screen.findByText("共 25 条")).toBeTruthy();
+    expect(screen.queryByText(name)).toBeNull();
+  });
+
+  it("imports employees from a CSV file", async () => {
+    await screen.findByText("共 26 条");
+    const file = new File(
+      ["员工姓名,员工类型,工种,手机号,身份证号\n钱多多,临时工,木工,13900000001,\n"],
+      "employees.csv",
+      { type: "text/csv" },
+    );
+    fireEvent.change(getImportInput(), { target: { files: [file] } });
+
+    expect(await screen.findByText("员工导入成功。")).toBeTruthy();
+    expect(await screen.findByText("共 27 条")).toBeTruthy();
+    expect(findRequests(mock.requests, "POST", "/api/employees/import")).toHaveLength(
+      1,
+    );
+  });
+
+  it("rejects files that are not CSV", async () => {
+    await screen.findByText("共 26 条");
+    const file = new File(["x"], "employees.xlsx");
+    fireEvent.change(getImportInput(), { target: { files: [file] } });
+
+    expect(
+      await screen.findByText("暂仅支持 CSV 导入，请先在 Excel 中另存为 CSV。"),
+    ).toBeTruthy();
+    expect(findRequests(mock.requests, "POST", "/api/employees/import")).toHaveLength(
+      0,
+    );
+  });
+
+  it("downloads the export and the import template", async () => {
+    const downloads = captureDownloads();
+    await screen.findByText("共 26 条");
+
+    fireEvent.click(screen.getByRole("button", { name: "批量导出" }));
+    expect(await screen.findByText("员工导出成功。")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "下载导入模板" }));
+
+    await waitFor(() => expect(downloads).toHaveLength(2));
+    expect(downloads.map((item) => item.fileName)).toEqual([
+      "员工管理_2026-10-19.xlsx",
+      "员工导入模板.xlsx",
+    ]);
+    expect(downloads.every((item) => item.blob.size > 0)).toBe(true);
+  });
+});
@@ -2,22 +2,48 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { Clock3 } from "lucide-react";
-import { apiBlob, apiJson, API_BASE } from "../lib/api";
+import { apiJson } from "../lib/api";
 import { useNotice } from "../components/NoticeProvider";
-import { loadAuthToken } from "../lib/auth";
+import useLatestRequest from "../components/useLatestRequest";
+import usePermissions from "../components/usePermissions";
+import {
+  EMPLOYEE_TYPES,
+  Employee,
+  EmployeeDraft,
+  EmployeeType,
+  Project,
+  buildQuery,
+  extractList,
+  resources,
+} from "../lib/resources";
+import {
+  Crew,
+  CrewDraft,
+  deleteCrew,
+  fetchCrews,
+  saveCrew,
+} from "../lib/crews";
 
-type EmployeeType = "正式工" | "临时工";
+type LedgerType = "advance" | "deduction";
 
-type Employee = {
+type LedgerEntry = {
   id: string;
-  name: string;
-  type: EmployeeType;
-  workType?: string;
-  phone?: string;
-  idCardNumber?: string;
-  remark?: string;
-  tags?: string[];
-  createdAt?: string;
+  type: LedgerType;
+  category?: string;
+  date: string;
+  amount: number;
+  projectId?: string;
+  projectName?: string;
+  note?: string;
+};
+
+type LedgerFormState = {
+  type: LedgerType;
+  category: string;
+  date: string;
+  amount: string;
+  projectId: string;
+  note: string;
 };
 
 type FormState = {
@@ -28,103 +54,78 @@ type FormState = {
   idCardNumber: string;
   remark: string;
   tags: string[];
+  dailyRate: string;
+  overtimeRate: string;
 };
 
-const employeeTypes: EmployeeType[] = ["正式工", "临时工"];
+const ledgerTypes: { value: LedgerType; label: string }[] = [
+  { value: "advance", label: "借支" },
+  { value: "deduction", label: "扣款" },
+];
+const deductionCategories = ["餐费", "工具", "宿舍", "其他"];
 const DEFAULT_EMPLOYEE_PAGE_SIZE = 15;
 
-function buildQuery(params: Record<string, string | number | boolean | undefined>) {
-  const search = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    if (value === undefined || value === "") {
-      return;
-    }
-    search.append(key, String(value));
-  });
-  const query = search.toString();
-  return query ? `?${query}` : "";
-}
-
-function extractList<T>(payload: unknown): T[] {
-  if (!payload) {
-    return [];
+function parseRateInput(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
   }
-  if (Array.isArray(payload)) {
-    return payload as T[];
+  const rate = Number(trimmed);
+  if (!Number.isFinite(rate) || rate < 0) {
+    return undefined;
   }
-  const data = (payload as { data?: unknown }).data ?? payload;
-  if (Array.isArray(data)) {
-    return data as T[];
-  }
-  if (data && typeof data === "object") {
-    const items = (data as { items?: T[] }).items;
-    if (Array.isArray(items)) {
-      return items;
-    }
-    const list = (data as { list?: T[] }).list;
-    if (Array.isArray(list)) {
-      return list;
-    }
-  }
-  return [];
+  return rate;
 }
 
-function extractPagedMeta(payload: unknown) {
-  const data = (payload as { data?: unknown }).data ?? payload;
-  if (data && typeof data === "object") {
-    const total = Number((data as { total?: number }).total ?? 0);
-    const page = Number((data as { page?: number }).page ?? 1);
-    const pageSize = Number(
-      (data as { page_size?: number; pageSize?: number }).page_size ??
-        (data as { page_size?: number; pageSize?: number }).pageSize ??
-        DEFAULT_EMPLOYEE_PAGE_SIZE,
-    );
-    return { total, page, pageSize };
+function formatRate(value?: number | null) {
+  if (value === undefined || value === null) {
+    return "";
   }
-  return { total: 0, page: 1, pageSize: DEFAULT_EMPLOYEE_PAGE_SIZE };
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
 }
 
-function normalizeTags(raw: unknown): string[] {
-  if (!raw) {
-    return [];
-  }
-  if (Array.isArray(raw)) {
-    const tags = raw
-      .filter((item): item is string => typeof item === "string")
-      .map((item) => item.trim())
-      .filter(Boolean);
-    return Array.from(new Set(tags));
-  }
-  if (typeof raw === "string") {
-    const tags = raw
-      .split(/[|,]/)
-      .map((item) => item.trim())
-      .filter(Boolean);
-    return Array.from(new Set(tags));
+function normalizeLedgerEntry(item: Record<string, unknown>): LedgerEntry | null {
+  const id = String(item.id ?? "");
+  const date = String(item.entry_date ?? item.entryDate ?? item.date ?? "");
+  if (!id || !date) {
+    return null;
   }
-  return [];
+  const category = item.category ?? "";
+  const projectId = item.project_id ?? item.projectId ?? "";
+  const projectName = item.project_name ?? item.projectName ?? "";
+  const note = item.note ?? item.remark ?? "";
+  return {
+    id,
+    type: item.type === "deduction" ? "deduction" : "advance",
+    category: category ? String(category) : undefined,
+    date: date.slice(0, 10),
+    amount: Number(item.amount ?? 0),
+    projectId: projectId ? String(projectId) : undefined,
+    projectName: projectName ? String(projectName) : undefined,
+    note: note ? String(note) : undefined,
+  };
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString("zh-CN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
 }
 
-function normalizeEmployee(item: Record<string, unknown>): Employee {
-  const createdAt = item.created_at ?? item.createdAt ?? "";
-  const remark = item.remark ?? item.notes ?? "";
-  const tags = normalizeTags(item.tags ?? item.tag ?? item.labels ?? item.label);
-  const workType = item.work_type ?? item.workType ?? "";
-  const phone = item.phone ?? item.phone_number ?? item.mobile ?? "";
-  const idCardNumber = item.id_card_number ?? item.idCardNumber ?? item.id_card ?? "";
+function toDateKey(date: Date) {
+  const pad = (num: number) => num.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function createLedgerForm(): LedgerFormState {
   return {
-    id: String(item.id ?? ""),
-    name: String(item.name ?? item.employee_name ?? ""),
-    type:
-      (item.type as EmployeeType) ??
-      (item.employee_type as EmployeeType) ??
-      "正式工",
-    workType: workType ? String(workType) : "",
-    phone: phone ? String(phone) : "",
-    idCardNumber: idCardNumber ? String(idCardNumber) : "",
-    remark: String(remark ?? ""),
-    tags,
-    createdAt: createdAt ? String(createdAt) : "",
+    type: "advance",
+    category: "",
+    date: toDateKey(new Date()),
+    amount: "",
+    projectId: "",
+    note: "",
   };
 }
 
@@ -145,7 +146,7 @@ function formatDateTime(value?: string) {
 export default function EmployeesPage() {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [searchText, setSearchText] = useState("");
-  const [filterType, setFilterType] = useState("");
+  const [filterType, setFilterType] = useState<EmployeeType | "">("");
   const [filterTag, setFilterTag] = useState("");
   const [filterWorkType, setFilterWorkType] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
@@ -162,10 +163,30 @@ export default function EmployeesPage() {
     idCardNumber: "",
     remark: "",
     tags: [],
+    dailyRate: "",
+    overtimeRate: "",
   });
   const [tagInput, setTagInput] = useState("");
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [ledgerEmployee, setLedgerEmployee] = useState<Employee | null>(null);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [isLedgerLoading, setIsLedgerLoading] = useState(false);
+  const [editingLedgerId, setEditingLedgerId] = useState<string | null>(null);
+  const [ledgerForm, setLedgerForm] = useState<LedgerFormState>(createLedgerForm);
+  const [isCrewModalOpen, setIsCrewModalOpen] = useState(false);
+  const [crews, setCrews] = useState<Crew[]>([]);
+  const [crewEmployees, setCrewEmployees] = useState<Employee[]>([]);
+  const [isCrewsLoading, setIsCrewsLoading] = useState(false);
+  const [editingCrewId, setEditingCrewId] = useState<string | null>(null);
+  const [crewForm, setCrewForm] = useState<CrewDraft>({
+    name: "",
+    employeeIds: [],
+  });
+  const [crewSearch, setCrewSearch] = useState("");
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { notify, confirm } = useNotice();
+  const { can } = usePermissions();
+  const beginRequest = useLatestRequest();
   const displayEmployees = employees;
   const filtersKey = useMemo(
     () =>
@@ -196,14 +217,53 @@ export default function EmployeesPage() {
     }
     return Array.from(set);
   }, [employees, filterWorkType]);
+  const crewEmployeeNameMap = useMemo(
+    () =>
+      new Map(crewEmployees.map((employee) => [employee.id, employee.name] as const)),
+    [crewEmployees],
+  );
+  const filteredCrewEmployees = useMemo(() => {
+    const keyword = crewSearch.trim();
+    if (!keyword) {
+      return crewEmployees;
+    }
+    return crewEmployees.filter(
+      (employee) =>
+        employee.name.includes(keyword) ||
+        (employee.workType ?? "").includes(keyword),
+    );
+  }, [crewEmployees, crewSearch]);
+  const ledgerRows = useMemo(() => {
+    const sorted = [...ledgerEntries].sort((left, right) =>
+      left.date.localeCompare(right.date),
+    );
+    let runningBalance = 0;
+    return sorted.map((entry) => {
+      runningBalance += entry.amount;
+      return { ...entry, runningBalance };
+    });
+  }, [ledgerEntries]);
+  const ledgerTotals = useMemo(
+    () =>
+      ledgerEntries.reduce(
+        (sum, entry) => ({
+          advance: sum.advance + (entry.type === "advance" ? entry.amount : 0),
+          deduction:
+            sum.deduction + (entry.type === "deduction" ? entry.amount : 0),
+        }),
+        { advance: 0, deduction: 0 },
+      ),
+    [ledgerEntries],
+  );
 
   async function loadEmployees(overrides?: {
     keyword?: string;
-    type?: string;
+    type?: EmployeeType | "";
     tag?: string;
     workType?: string;
     page?: number;
   }) {
+    const signal = beginRequest("employees");
     try {
       setIsLoading(true);
       const keyword = overrides?.keyword ?? searchText;
@@ -211,32 +271,37 @@ export default function EmployeesPage() {
       const tag = overrides?.tag ?? filterTag;
       const workType = overrides?.workType ?? filterWorkType;
       const page = overrides?.page ?? currentPage;
-      const query = buildQuery({
-        keyword: keyword.trim(),
-        type: type || undefined,
-        tag: tag.trim() || undefined,
-        work_type: workType.trim() || undefined,
-        page,
-        page_size: pageSize,
-        sort: "name_asc",
-      });
-      const payload = await apiJson(`/api/employees${query}`);
-      const meta = extractPagedMeta(payload);
-      const list = extractList<Record<string, unknown>>(payload).map(
-        normalizeEmployee,
+      const result = await resources.employees.list(
+        {
+          keyword,
+          type,
+          tag,
+          workType,
+          page,
+          pageSize,
+        },
+        signal,
       );
-      setEmployees(list);
-      setTotal(meta.total);
-      const nextTotalPages = Math.max(1, Math.ceil(meta.total / pageSize));
-      if (meta.total > 0 && currentPage > nextTotalPages) {
+      if (signal.aborted) {
+        return;
+      }
+      setEmployees(result.items);
+      setTotal(result.total);
+      const nextTotalPages = Math.max(1, Math.ceil(result.total / pageSize));
+      if (result.total > 0 && currentPage > nextTotalPages) {
         setCurrentPage(nextTotalPages);
       }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       setEmployees([]);
       setTotal(0);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
   }
 
@@ -264,6 +329,8 @@ export default function EmployeesPage() {
       idCardNumber: "",
       remark: "",
       tags: [],
+      dailyRate: "",
+      overtimeRate: "",
     });
     setTagInput("");
     setIsModalOpen(true);
@@ -279,6 +346,8 @@ export default function EmployeesPage() {
       idCardNumber: employee.idCardNumber ?? "",
       remark: employee.remark ?? "",
       tags: employee.tags ?? [],
+      dailyRate: formatRate(employee.dailyRate),
+      overtimeRate: formatRate(employee.overtimeRate),
     });
     setTagInput("");
     setIsModalOpen(true);
@@ -314,7 +383,7 @@ export default function EmployeesPage() {
       return;
     }
     try {
-      await apiJson(`/api/employees/${employeeId}`, { method: "DELETE" });
+      await resources.employees.remove(employeeId);
       await loadEmployees();
       notify("员工已删除。", "success");
     } catch (error) {
@@ -324,6 +393,221 @@ export default function EmployeesPage() {
     }
   }
 
+  async function loadProjects() {
+    try {
+      setProjects(await resources.projects.listOptions());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function loadCrews() {
+    try {
+      setIsCrewsLoading(true);
+      setCrews(await fetchCrews());
+    } catch (error) {
+      console.error(error);
+      setCrews([]);
+    } finally {
+      setIsCrewsLoading(false);
+    }
+  }
+
+  async function loadCrewEmployees() {
+    try {
+      setCrewEmployees(await resources.employees.listOptions());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  function openCrewModal() {
+    setEditingCrewId(null);
+    setCrewForm({ name: "", employeeIds: [] });
+    setCrewSearch("");
+    setIsCrewModalOpen(true);
+    loadCrews();
+    loadCrewEmployees();
+  }
+
+  function startCrewEdit(crew: Crew) {
+    setEditingCrewId(crew.id);
+    setCrewForm({ name: crew.name, employeeIds: crew.employeeIds });
+  }
+
+  function cancelCrewEdit() {
+    setEditingCrewId(null);
+    setCrewForm({ name: "", employeeIds: [] });
+  }
+
+  function toggleCrewMember(employeeId: string) {
+    setCrewForm((prev) => ({
+      ...prev,
+      employeeIds: prev.employeeIds.includes(employeeId)
+        ? prev.employeeIds.filter((id) => id !== employeeId)
+        : [...prev.employeeIds, employeeId],
+    }));
+  }
+
+  async function handleCrewSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const name = crewForm.name.trim();
+    if (!name) {
+      notify("请输入班组名称。", "warning");
+      return;
+    }
+    if (crewForm.employeeIds.length === 0) {
+      notify("请至少选择一位班组成员。", "warning");
+      return;
+    }
+
+    try {
+      await saveCrew(editingCrewId, crewForm);
+      notify(editingCrewId ? "班组已更新。" : "班组已新增。", "success");
+      cancelCrewEdit();
+      await loadCrews();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function handleCrewDelete(crew: Crew) {
+    const confirmed = await confirm(`确认删除班组“${crew.name}”吗？`);
+    if (!confirmed) {
+      return;
+    }
+    try {
+      await deleteCrew(crew.id);
+      if (editingCrewId === crew.id) {
+        cancelCrewEdit();
+      }
+      await loadCrews();
+      notify("班组已删除。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "删除失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function loadLedger(employeeId: string) {
+    try {
+      setIsLedgerLoading(true);
+      const query = buildQuery({ employee_id: employeeId });
+      const payload = await apiJson(`/api/wage-ledger${query}`);
+      const list = extractList<Record<string, unknown>>(payload)
+        .map(normalizeLedgerEntry)
+        .filter((item): item is LedgerEntry => Boolean(item));
+      setLedgerEntries(list);
+    } catch (error) {
+      console.error(error);
+      setLedgerEntries([]);
+    } finally {
+      setIsLedgerLoading(false);
+    }
+  }
+
+  function openLedgerModal(employee: Employee) {
+    setLedgerEmployee(employee);
+    setLedgerEntries([]);
+    setEditingLedgerId(null);
+    setLedgerForm(createLedgerForm());
+    loadLedger(employee.id);
+    if (projects.length === 0) {
+      loadProjects();
+    }
+  }
+
+  function startLedgerEdit(entry: LedgerEntry) {
+    setEditingLedgerId(entry.id);
+    setLedgerForm({
+      type: entry.type,
+      category: entry.category ?? "",
+      date: entry.date,
+      amount: String(entry.amount),
+      projectId: entry.projectId ?? "",
+      note: entry.note ?? "",
+    });
+  }
+
+  function cancelLedgerEdit() {
+    setEditingLedgerId(null);
+    setLedgerForm(createLedgerForm());
+  }
+
+  async function handleLedgerSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!ledgerEmployee) {
+      return;
+    }
+    const amount = Number(ledgerForm.amount);
+    if (!ledgerForm.amount.trim() || !Number.isFinite(amount) || amount <= 0) {
+      notify("请输入大于 0 的金额。", "warning");
+      return;
+    }
+    if (!ledgerForm.date) {
+      notify("请选择日期。", "warning");
+      return;
+    }
+
+    const body = {
+      employee_id: ledgerEmployee.id,
+      type: ledgerForm.type,
+      category:
+        ledgerForm.type === "deduction" ? ledgerForm.category || null : null,
+      entry_date: ledgerForm.date,
+      amount,
+      project_id: ledgerForm.projectId || null,
+      note: ledgerForm.note.trim(),
+    };
+
+    try {
+      if (editingLedgerId) {
+        await apiJson(`/api/wage-ledger/${editingLedgerId}`, {
+          method: "PUT",
+          body,
+        });
+        notify("台账记录已更新。", "success");
+      } else {
+        await apiJson("/api/wage-ledger", { method: "POST", body });
+        notify("台账记录已新增。", "success");
+      }
+      setEditingLedgerId(null);
+      setLedgerForm(createLedgerForm());
+      await loadLedger(ledgerEmployee.id);
+      await loadEmployees();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function handleLedgerDelete(entryId: string) {
+    if (!ledgerEmployee) {
+      return;
+    }
+    const confirmed = await confirm("确认删除该条台账记录吗？");
+    if (!confirmed) {
+      return;
+    }
+    try {
+      await apiJson(`/api/wage-ledger/${entryId}`, { method: "DELETE" });
+      if (editingLedgerId === entryId) {
+        cancelLedgerEdit();
+      }
+      await loadLedger(ledgerEmployee.id);
+      await loadEmployees();
+      notify("台账记录已删除。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "删除失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
   async function handleFormSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     const name = formState.name.trim();
@@ -334,6 +618,12 @@ export default function EmployeesPage() {
       notify("请输入员工姓名。", "warning");
       return;
     }
+    const dailyRate = parseRateInput(formState.dailyRate);
+    const overtimeRate = parseRateInput(formState.overtimeRate);
+    if (dailyRate === undefined || overtimeRate === undefined) {
+      notify("工价需为不小于 0 的数字。", "warning");
+      return;
+    }
 
     const pendingTag = tagInput.trim();
     const tagsToSave = pendingTag
@@ -344,34 +634,24 @@ export default function EmployeesPage() {
       setTagInput("");
     }
 
+    const draft: EmployeeDraft = {
+      name,
+      type: formState.type,
+      workType,
+      phone,
+      idCardNumber,
+      remark: formState.remark.trim(),
+      tags: tagsToSave,
+      dailyRate,
+      overtimeRate,
+    };
+
     try {
       if (editingEmployeeId) {
-        await apiJson(`/api/employees/${editingEmployeeId}`, {
-          method: "PUT",
-          body: {
-            name,
-            type: formState.type,
-            work_type: workType,
-            phone: phone || null,
-            id_card_number: idCardNumber || null,
-            remark: formState.remark.trim(),
-            tags: tagsToSave,
-          },
-        });
+        await resources.employees.update(editingEmployeeId, draft);
         notify("员工已更新。", "success");
       } else {
-        await apiJson("/api/employees", {
-          method: "POST",
-          body: {
-            name,
-            type: formState.type,
-            work_type: workType,
-            phone: phone || null,
-            id_card_number: idCardNumber || null,
-            remark: formState.remark.trim(),
-            tags: tagsToSave,
-          },
-        });
+        await resources.employees.create(draft);
         notify("员工已新增。", "success");
       }
       setIsModalOpen(false);
@@ -400,17 +680,7 @@ export default function EmployeesPage() {
     }
 
     try {
-      const token = loadAuthToken();
-      const formData = new FormData();
-      formData.append("File", file);
-      const response = await fetch(`${API_BASE}/api/employees/import`, {
-        method: "POST",
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        body: formData,
-      });
-      if (!response.ok) {
-        throw new Error(`导入失败(${response.status})`);
-      }
+      await resources.employees.importFile(file);
       await loadEmployees();
       notify("员工导入成功。", "success");
     } catch (error) {
@@ -424,8 +694,7 @@ export default function EmployeesPage() {
 
   async function handleExport() {
     try {
-      const query = buildQuery({ format: "xlsx" });
-      const blob = await apiBlob(`/api/employees/export${query}`);
+      const blob = await resources.employees.exportXlsx();
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
       const date = new Date();
@@ -445,8 +714,7 @@ export default function EmployeesPage() {
 
   async function handleDownloadTemplate() {
     try {
-      const query = buildQuery({ format: "xlsx" });
-      const blob = await apiBlob(`/api/employees/import-template${query}`);
+      const blob = await resources.employees.downloadTemplate();
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
 
@@ -481,11 +749,13 @@ export default function EmployeesPage() {
             />
             <select
               value={filterType}
-              onChange={(event) => setFilterType(event.target.value)}
+              onChange={(event) =>
+                setFilterType(event.target.value as EmployeeType | "")
+              }
               className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
             >
               <option value="">全部类型</option>
-              {employeeTypes.map((type) => (
+              {EMPLOYEE_TYPES.map((type) => (
                 <option key={type} value={type}>
                   {type}
                 </option>
@@ -524,34 +794,51 @@ export default function EmployeesPage() {
               onChange={handleImportChange}
               className="hidden"
             />
-            <button
-              type="button"
-              onClick={handleDownloadTemplate}
-              className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
-            >
-              下载导入模板
-            </button>
-            <button
-              type="button"
-              onClick={() => fileInputRef.current?.click()}
-              className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
-            >
-              Excel导入
-            </button>
-            <button
-              type="button"
-              onClick={handleExport}
-              className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
-            >
-              批量导出
-            </button>
-            <button
-              type="button"
-              onClick={openCreateModal}
-              className="h-8 rounded-md bg-foreground px-3 text-xs font-medium text-background"
-            >
-              新增员工
-            </button>
+            {can("employee.write") ? (
+              <>
+                <button
+                  type="button"
+                  onClick={handleDownloadTemplate}
+                  className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                >
+                  下载导入模板
+                </button>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                >
+                  Excel导入
+                </button>
+              </>
+            ) : null}
+            {can("export") ? (
+              <button
+                type="button"
+                onClick={handleExport}
+                className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+              >
+                批量导出
+              </button>
+            ) : null}
+            {can("employee.write") ? (
+              <>
+                <button
+                  type="button"
+                  onClick={openCrewModal}
+                  className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                >
+                  班组管理
+                </button>
+                <button
+                  type="button"
+                  onClick={openCreateModal}
+                  className="h-8 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+                >
+                  新增员工
+                </button>
+              </>
+            ) : null}
           </div>
         </div>
 
@@ -569,6 +856,8 @@ export default function EmployeesPage() {
                   <th className="pb-1 font-medium">手机号</th>
                   <th className="pb-1 font-medium">身份证号</th>
                   <th className="pb-1 font-medium">标签</th>
+                  <th className="pb-1 font-medium">工价</th>
+                  <th className="pb-1 font-medium">借支/扣款</th>
                   <th className="pb-1 font-medium">备注</th>
                   <th className="pb-1 font-medium">创建时间</th>
                   <th className="pb-1 font-medium">操作</th>
@@ -578,7 +867,7 @@ export default function EmployeesPage() {
                 {isLoading ? (
                   <tr>
                     <td
-                        colSpan={8}
+                        colSpan={10}
                       className="py-6 text-center text-[color:var(--muted-foreground)]"
                     >
                       <div className="flex items-center justify-center gap-2">
@@ -590,7 +879,7 @@ export default function EmployeesPage() {
                 ) : displayEmployees.length === 0 ? (
                   <tr>
                     <td
-                        colSpan={8}
+                        colSpan={10}
                       className="py-6 text-center text-[color:var(--muted-foreground)]"
                     >
                       暂无员工
@@ -638,6 +927,42 @@ export default function EmployeesPage() {
                           "-"
                         )}
                       </td>
+                      <td className="whitespace-nowrap py-2 text-[color:var(--muted-foreground)]">
+                        {employee.dailyRate !== null &&
+                        employee.dailyRate !== undefined ? (
+                          <>
+                            {formatRate(employee.dailyRate)}元/工
+                            {employee.overtimeRate !== null &&
+                            employee.overtimeRate !== undefined ? (
+                              <> / 加班 {formatRate(employee.overtimeRate)}元/h</>
+                            ) : null}
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap py-2">
+                        {can("settlement.view") ? (
+                          <button
+                            type="button"
+                            onClick={() => openLedgerModal(employee)}
+                            className={`text-xs hover:underline ${
+                              employee.ledgerBalance
+                                ? "text-amber-600"
+                                : "text-[color:var(--muted-foreground)]"
+                            }`}
+                            title="查看借支与扣款台账"
+                          >
+                            {employee.ledgerBalance
+                              ? `¥${formatAmount(employee.ledgerBalance)}`
+                              : "台账"}
+                          </button>
+                        ) : (
+                          <span className="text-xs text-[color:var(--muted-foreground)]">
+                            -
+                          </span>
+                        )}
+                      </td>
                       <td className="py-2 text-[color:var(--muted-foreground)]">
                         {employee.remark || "-"}
                       </td>
@@ -646,20 +971,24 @@ export default function EmployeesPage() {
                       </td>
                       <td className="py-2">
                         <div className="flex items-center gap-2">
-                          <button
-                            type="button"
-                            onClick={() => openEditModal(employee)}
-                            className="text-xs text-foreground hover:underline"
-                          >
-                            编辑
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => handleDelete(employee.id)}
-                            className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
-                          >
-                            删除
-                          </button>
+                          {can("employee.write") ? (
+                            <button
+                              type="button"
+                              onClick={() => openEditModal(employee)}
+                              className="text-xs text-foreground hover:underline"
+                            >
+                              编辑
+                            </button>
+                          ) : null}
+                          {can("delete") ? (
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(employee.id)}
+                              className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                            >
+                              删除
+                            </button>
+                          ) : null}
                         </div>
                       </td>
                     </tr>
@@ -758,7 +1087,7 @@ export default function EmployeesPage() {
                   }
                   className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
                 >
-                  {employeeTypes.map((type) => (
+                  {EMPLOYEE_TYPES.map((type) => (
                     <option key={type} value={type}>
                       {type}
                     </option>
@@ -811,6 +1140,43 @@ export default function EmployeesPage() {
                 />
               </label>
 
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  日工资（元/个工）
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={formState.dailyRate}
+                    onChange={(event) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        dailyRate: event.target.value,
+                      }))
+                    }
+                    placeholder="选填"
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  加班单价（元/小时）
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={formState.overtimeRate}
+                    onChange={(event) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        overtimeRate: event.target.value,
+                      }))
+                    }
+                    placeholder="不填则按个工折算"
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+              </div>
+
               <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
                 标签
                 <div className="flex gap-2">
@@ -896,6 +1262,419 @@ export default function EmployeesPage() {
           </div>
         </div>
       ) : null}
+
+      {isCrewModalOpen ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-3xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h3 className="text-base font-semibold">班组管理</h3>
+                <p className="text-xs text-[color:var(--muted-foreground)]">
+                  班组可跨工种组合员工，记工时在选择员工处一键选中整个班组。
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsCrewModalOpen(false)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+              >
+                关闭
+              </button>
+            </div>
+
+            <div className="mt-4 grid gap-4 md:grid-cols-[1fr_1.2fr]">
+              <div className="max-h-[26rem] overflow-y-auto rounded-md border border-[color:var(--border)] p-2">
+                {isCrewsLoading ? (
+                  <div className="flex items-center justify-center gap-2 py-6 text-xs text-[color:var(--muted-foreground)]">
+                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                    <span>加载中</span>
+                  </div>
+                ) : crews.length === 0 ? (
+                  <div className="py-6 text-center text-xs text-[color:var(--muted-foreground)]">
+                    暂无班组
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {crews.map((crew) => (
+                      <div
+                        key={crew.id}
+                        className={`rounded-md border px-3 py-2 text-xs ${
+                          editingCrewId === crew.id
+                            ? "border-foreground"
+                            : "border-[color:var(--border)]"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-foreground">
+                            {crew.name}
+                            <span className="ml-1 font-normal text-[color:var(--muted-foreground)]">
+                              {crew.employeeIds.length} 人
+                            </span>
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => startCrewEdit(crew)}
+                              className="text-xs text-foreground hover:underline"
+                            >
+                              编辑
+                            </button>
+                            {can("delete") ? (
+                              <button
+                                type="button"
+                                onClick={() => handleCrewDelete(crew)}
+                                className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                              >
+                                删除
+                              </button>
+                            ) : null}
+                          </div>
+                        </div>
+                        <p className="mt-1 line-clamp-2 text-[10px] text-[color:var(--muted-foreground)]">
+                          {crew.employeeIds
+                            .map((id) => crewEmployeeNameMap.get(id))
+                            .filter(Boolean)
+                            .join("、") || "-"}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <form onSubmit={handleCrewSubmit} className="space-y-3">
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  班组名称
+                  <input
+                    value={crewForm.name}
+                    onChange={(event) =>
+                      setCrewForm((prev) => ({ ...prev, name: event.target.value }))
+                    }
+                    placeholder="如：木工一班、夜班"
+                    maxLength={30}
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+                <div className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  <div className="flex items-center justify-between">
+                    <span>班组成员</span>
+                    <span className="text-[10px]">
+                      已选 {crewForm.employeeIds.length} 位员工
+                    </span>
+                  </div>
+                  <input
+                    value={crewSearch}
+                    onChange={(event) => setCrewSearch(event.target.value)}
+                    placeholder="搜索姓名或工种"
+                    className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+                  />
+                  <div className="max-h-64 overflow-y-auto rounded-md border border-[color:var(--border)] p-2">
+                    {filteredCrewEmployees.length === 0 ? (
+                      <div className="py-6 text-center">暂无员工</div>
+                    ) : (
+                      <div className="grid gap-1 sm:grid-cols-2">
+                        {filteredCrewEmployees.map((employee) => (
+                          <label
+                            key={employee.id}
+                            className="flex items-center gap-2 rounded px-1.5 py-1 text-foreground hover:bg-[color:var(--surface-muted)]"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={crewForm.employeeIds.includes(employee.id)}
+                              onChange={() => toggleCrewMember(employee.id)}
+                            />
+                            <span className="truncate">{employee.name}</span>
+                            {employee.workType ? (
+                              <span className="truncate text-[10px] text-[color:var(--muted-foreground)]">
+                                {employee.workType}
+                              </span>
+                            ) : null}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center justify-end gap-2">
+                  {editingCrewId ? (
+                    <button
+                      type="button"
+                      onClick={cancelCrewEdit}
+                      className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                    >
+                      取消编辑
+                    </button>
+                  ) : null}
+                  <button
+                    type="submit"
+                    className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+                  >
+                    {editingCrewId ? "保存班组" : "新增班组"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {ledgerEmployee ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-3xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h3 className="text-base font-semibold">借支与扣款台账</h3>
+                <p className="text-xs text-[color:var(--muted-foreground)]">
+                  {ledgerEmployee.name} · 借支 ¥{formatAmount(ledgerTotals.advance)} ·
+                  扣款 ¥{formatAmount(ledgerTotals.deduction)} · 累计 ¥
+                  {formatAmount(ledgerTotals.advance + ledgerTotals.deduction)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setLedgerEmployee(null)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+              >
+                关闭
+              </button>
+            </div>
+
+            <div className="mt-4 max-h-72 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[color:var(--muted-foreground)]">
+                  <tr>
+                    <th className="pb-1 font-medium">日期</th>
+                    <th className="pb-1 font-medium">类型</th>
+                    <th className="pb-1 font-medium">项目</th>
+                    <th className="pb-1 font-medium">备注</th>
+                    <th className="pb-1 text-right font-medium">金额</th>
+                    <th className="pb-1 text-right font-medium">累计</th>
+                    <th className="pb-1 text-right font-medium">操作</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {isLedgerLoading ? (
+                    <tr>
+                      <td
+                        colSpan={7}
+                        className="py-6 text-center text-[color:var(--muted-foreground)]"
+                      >
+                        <div className="flex items-center justify-center gap-2">
+                          <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                          <span>加载中</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : ledgerRows.length === 0 ? (
+                    <tr>
+                      <td
+                        colSpan={7}
+                        className="py-6 text-center text-[color:var(--muted-foreground)]"
+                      >
+                        暂无借支或扣款记录
+                      </td>
+                    </tr>
+                  ) : (
+                    ledgerRows.map((entry) => (
+                      <tr
+                        key={entry.id}
+                        className={`border-t border-[color:var(--border)] ${
+                          editingLedgerId === entry.id
+                            ? "bg-[color:var(--surface-muted)]"
+                            : ""
+                        }`}
+                      >
+                        <td className="whitespace-nowrap py-2 text-foreground">
+                          {entry.date}
+                        </td>
+                        <td className="whitespace-nowrap py-2 text-foreground">
+                          {entry.type === "advance" ? "借支" : "扣款"}
+                          {entry.category ? (
+                            <span className="text-[color:var(--muted-foreground)]">
+                              {" "}
+                              · {entry.category}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="py-2 text-[color:var(--muted-foreground)]">
+                          {entry.projectName ||
+                            projects.find((project) => project.id === entry.projectId)
+                              ?.name ||
+                            "-"}
+                        </td>
+                        <td className="py-2 text-[color:var(--muted-foreground)]">
+                          {entry.note || "-"}
+                        </td>
+                        <td className="py-2 text-right text-foreground">
+                          {formatAmount(entry.amount)}
+                        </td>
+                        <td className="py-2 text-right text-[color:var(--muted-foreground)]">
+                          {formatAmount(entry.runningBalance)}
+                        </td>
+                        <td className="whitespace-nowrap py-2 text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => startLedgerEdit(entry)}
+                              className="text-xs text-foreground hover:underline"
+                            >
+                              编辑
+                            </button>
+                            {can("delete") ? (
+                              <button
+                                type="button"
+                                onClick={() => handleLedgerDelete(entry.id)}
+                                className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                              >
+                                删除
+                              </button>
+                            ) : null}
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <form
+              onSubmit={handleLedgerSubmit}
+              className="mt-4 space-y-3 border-t border-[color:var(--border)] pt-4"
+            >
+              <div
+                className={`grid gap-3 ${
+                  ledgerForm.type === "deduction" ? "md:grid-cols-5" : "md:grid-cols-4"
+                }`}
+              >
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  类型
+                  <select
+                    value={ledgerForm.type}
+                    onChange={(event) =>
+                      setLedgerForm((prev) => ({
+                        ...prev,
+                        type: event.target.value as LedgerType,
+                        category: "",
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  >
+                    {ledgerTypes.map((type) => (
+                      <option key={type.value} value={type.value}>
+                        {type.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {ledgerForm.type === "deduction" ? (
+                  <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                    扣款事项
+                    <select
+                      value={ledgerForm.category}
+                      onChange={(event) =>
+                        setLedgerForm((prev) => ({
+                          ...prev,
+                          category: event.target.value,
+                        }))
+                      }
+                      className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                    >
+                      <option value="">请选择</option>
+                      {deductionCategories.map((category) => (
+                        <option key={category} value={category}>
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  日期
+                  <input
+                    type="date"
+                    value={ledgerForm.date}
+                    onChange={(event) =>
+                      setLedgerForm((prev) => ({
+                        ...prev,
+                        date: event.target.value,
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  金额（元）
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={ledgerForm.amount}
+                    onChange={(event) =>
+                      setLedgerForm((prev) => ({
+                        ...prev,
+                        amount: event.target.value,
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  项目
+                  <select
+                    value={ledgerForm.projectId}
+                    onChange={(event) =>
+                      setLedgerForm((prev) => ({
+                        ...prev,
+                        projectId: event.target.value,
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  >
+                    <option value="">不关联项目</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                备注
+                <input
+                  value={ledgerForm.note}
+                  onChange={(event) =>
+                    setLedgerForm((prev) => ({
+                      ...prev,
+                      note: event.target.value,
+                    }))
+                  }
+                  maxLength={100}
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <div className="flex items-center justify-end gap-2">
+                {editingLedgerId ? (
+                  <button
+                    type="button"
+                    onClick={cancelLedgerEdit}
+                    className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                  >
+                    取消编辑
+                  </button>
+                ) : null}
+                <button
+                  type="submit"
+                  className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+                >
+                  {editingLedgerId ? "保存修改" : "新增记录"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      ) : null}
     </section>
   );
 }
@@ -0,0 +1,118 @@
+import { apiJson } from "./api";
+import { extractList } from "./resources";
+
+export type AbsenceReason = "事假" | "病假" | "旷工" | "停工-天气";
+
+// employeeId 为空表示整个项目当天停工；项目级记录不针对具体员工。
+export type Absence = {
+  id: string;
+  employeeId?: string;
+  employeeName?: string;
+  projectId?: string;
+  projectName?: string;
+  date: string;
+  reason: AbsenceReason;
+  note?: string;
+};
+
+export type AbsenceDraft = {
+  employeeIds: string[];
+  projectId: string;
+  dates: string[];
+  reason: AbsenceReason;
+  note: string;
+};
+
+export const ABSENCE_REASONS: AbsenceReason[] = [
+  "事假",
+  "病假",
+  "旷工",
+  "停工-天气",
+];
+
+export const ABSENCE_SHORT_LABELS: Record<AbsenceReason, string> = {
+  事假: "事",
+  病假: "病",
+  旷工: "旷",
+  "停工-天气": "停",
+};
+
+const ABSENCES_PATH = "/api/absences";
+
+function toAbsenceReason(value: unknown): AbsenceReason {
+  const text = String(value ?? "");
+  return ABSENCE_REASONS.find((reason) => reason === text) ?? "事假";
+}
+
+export function normalizeAbsence(raw: unknown): Absence | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const employee = item.employee as { id?: string; name?: string } | undefined;
+  const project = item.project as { id?: string; name?: string } | undefined;
+  const id = String(item.id ?? "");
+  const date = String(item.date ?? item.work_date ?? item.workDate ?? "").slice(
+    0,
+    10,
+  );
+  if (!id || !date) {
+    return null;
+  }
+  const employeeId = item.employee_id ?? item.employeeId ?? employee?.id;
+  const employeeName = item.employee_name ?? item.employeeName ?? employee?.name;
+  const projectId = item.project_id ?? item.projectId ?? project?.id;
+  const projectName = item.project_name ?? item.projectName ?? project?.name;
+  const note = item.note ?? item.remark ?? "";
+  return {
+    id,
+    employeeId: employeeId ? String(employeeId) : undefined,
+    employeeName: employeeName ? String(employeeName) : undefined,
+    projectId: projectId ? String(projectId) : undefined,
+    projectName: projectName ? String(projectName) : undefined,
+    date,
+    reason: toAbsenceReason(item.reason ?? item.type),
+    note: note ? String(note) : undefined,
+  };
+}
+
+export function isProjectStoppage(absence: Absence) {
+  return !absence.employeeId;
+}
+
+export async function fetchAbsences(
+  startDate: string,
+  endDate: string,
+  projectId?: string,
+  signal?: AbortSignal,
+) {
+  const search = new URLSearchParams({
+    start_date: startDate,
+    end_date: endDate,
+  });
+  if (projectId) {
+    search.append("project_id", projectId);
+  }
+  const payload = await apiJson(`${ABSENCES_PATH}?${search.toString()}`, {
+    signal,
+  });
+  const list = extractList<unknown>(payload);
+  return list
+    .map(normalizeAbsence)
+    .filter((item): item is Absence => Boolean(item));
+}
+
+// 员工为空时按整个项目登记停工。
+export async function createAbsences(draft: AbsenceDraft) {
+  await apiJson(ABSENCES_PATH, {
+    method: "POST",
+    body: {
+      employee_ids: draft.employeeIds,
+      project_id: draft.projectId || null,
+      dates: draft.dates,
+      reason: draft.reason,
+      note: draft.note.trim(),
+    },
+  });
+}
+
+export async function deleteAbsence(id: string) {
+  await apiJson(`${ABSENCES_PATH}/${id}`, { method: "DELETE" });
+}
@@ -1,14 +1,39 @@
-﻿import { loadAuthToken } from "./auth";
+﻿import {
+  buildLoginPath,
+  clearAuthSession,
+  loadAuthSession,
+  loadAuthToken,
+  saveAuthSession,
+} from "./auth";
 
 type ApiRequestOptions = {
   method?: string;
   body?: unknown;
   headers?: Record<string, string>;
+  signal?: AbortSignal;
 };
 
 const apiBase = process.env.NEXT_PUBLIC_API_BASE?.trim();
 
-export const API_BASE = apiBase ? apiBase.replace(/\/+$/, "") : "http://api.ejigong.cn";
+// 开启本地模拟接口时请求同源的 /api 路由，忽略 NEXT_PUBLIC_API_BASE。
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_MOCK_API === "true";
+
+export const API_BASE = MOCK_API_ENABLED
+  ? ""
+  : apiBase
+    ? apiBase.replace(/\/+$/, "")
+    : "http://api.ejigong.cn";
+
+// 这些接口无需登录即可访问，401 表示账号、凭证或邀请码错误，需要原样返回给调用方；
+// 不能按登录过期处理，否则注册页查询邀请码时会被清掉会话并跳转到登录页。
+const AUTH_EXEMPT_PATHS = [
+  "/api/auth/login",
+  "/api/auth/register",
+  "/api/auth/refresh",
+  "/api/auth/invitations/",
+];
+
+let refreshPromise: Promise<boolean> | null = null;
 
 function buildUrl(path: string) {
   if (path.startsWith("http://") || path.startsWith("https://")) {
@@ -17,21 +42,116 @@ function buildUrl(path: string) {
   return `${API_BASE}${path}`;
 }
 
-export async function apiJson<T>(path: string, options: ApiRequestOptions = {}) {
-  const token = loadAuthToken();
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...(options.headers ?? {}),
+async function refreshSession() {
+  const session = loadAuthSession();
+  if (!session?.refreshToken) {
+    return false;
+  }
+  try {
+    const response = await fetch(buildUrl("/api/auth/refresh"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refresh_token: session.refreshToken }),
+    });
+    if (!response.ok) {
+      return false;
+    }
+    const payload = (await response.json().catch(() => null)) as {
+      data?: Record<string, unknown>;
+    } | null;
+    const data = (payload?.data ?? payload ?? {}) as Record<string, unknown>;
+    const token = data.token ?? data.access_token;
+    if (typeof token !== "string" || !token) {
+      return false;
+    }
+    saveAuthSession({
+      ...session,
+      token,
+      refreshToken:
+        typeof data.refresh_token === "string"
+          ? data.refresh_token
+          : session.refreshToken,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 并发请求同时过期时只刷新一次，其余请求等待同一结果。
+function refreshSessionOnce() {
+  if (!refreshPromise) {
+    refreshPromise = refreshSession().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+function redirectToLogin() {
+  clearAuthSession();
+  if (typeof window !== "undefined" && window.location.pathname !== "/login") {
+    window.location.replace(
+      buildLoginPath(
+        `${window.location.pathname}${window.location.search}`,
+        "expired",
+      ),
+    );
+  }
+  // 页面即将跳转，挂起调用方，避免各处再弹出“请求失败”提示。
+  return new Promise<never>(() => undefined);
+}
+
+function isFormData(body: unknown): body is FormData {
+  return typeof FormData !== "undefined" && body instanceof FormData;
+}
+
+async function sendRequest(
+  path: string,
+  options: ApiRequestOptions,
+  baseHeaders: Record<string, string>,
+) {
+  const send = () => {
+    const token = loadAuthToken();
+    const headers = { ...baseHeaders };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    return fetch(buildUrl(path), {
+      method: options.method ?? "GET",
+      headers,
+      signal: options.signal,
+      body: isFormData(options.body)
+        ? options.body
+        : options.body
+          ? JSON.stringify(options.body)
+          : undefined,
+    });
   };
 
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
+  const response = await send();
+  if (
+    response.status !== 401 ||
+    AUTH_EXEMPT_PATHS.some((exempt) => path.startsWith(exempt))
+  ) {
+    return response;
+  }
+  if (await refreshSessionOnce()) {
+    const retried = await send();
+    if (retried.status !== 401) {
+      return retried;
+    }
   }
+  return redirectToLogin();
+}
 
-  const response = await fetch(buildUrl(path), {
-    method: options.method ?? "GET",
-    headers,
-    body: options.body ? JSON.stringify(options.body) : undefined,
+export async function apiJson<T>(path: string, options: ApiRequestOptions = {}) {
+  // 上传文件时由浏览器生成带 boundary 的 Content-Type。
+  const response = await sendRequest(path, options, {
+    ...(isFormData(options.body)
+      ? {}
+      : { "Content-Type": "application/json" }),
+    ...(options.headers ?? {}),
   });
 
   const text = await response.text();
@@ -77,19 +197,8 @@ export async function apiJson<T>(path: string, options: ApiRequestOptions = {})
 }
 
 export async function apiBlob(path: string, options: ApiRequestOptions = {}) {
-  const token = loadAuthToken();
-  const headers: Record<string, string> = {
+  const response = await sendRequest(path, options, {
     ...(options.headers ?? {}),
-  };
-
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-
-  const response = await fetch(buildUrl(path), {
-    method: options.method ?? "GET",
-    headers,
-    body: options.body ? JSON.stringify(options.body) : undefined,
   });
 
   if (!response.ok) {
@@ -0,0 +1,216 @@
+import { apiJson } from "./api";
+
+export type AuditEntityType = "time_entry" | "employee" | "project";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+// 每条记录对应一次增删改；操作人与时间由后端写入，前端只负责展示。
+export type AuditLog = {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string;
+  action: AuditAction;
+  actorName: string;
+  createdAt: string;
+  changes: AuditChange[];
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  time_entry: "记工",
+  employee: "员工",
+  project: "项目",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "新增",
+  update: "修改",
+  delete: "删除",
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  employee_id: "员工",
+  employee_name: "员工",
+  project_id: "项目",
+  project_name: "项目",
+  work_date: "日期",
+  normal_hours: "常规工时",
+  overtime_hours: "加班工时",
+  start_time: "上班时间",
+  end_time: "下班时间",
+  break_minutes: "休息分钟",
+  remark: "备注",
+  name: "名称",
+  work_type: "工种",
+  employee_type: "员工类型",
+  phone: "电话",
+  tags: "标签",
+  status: "状态",
+  address: "地址",
+};
+
+export type AuditLogQuery = {
+  entityType?: string;
+  action?: string;
+  actor?: string;
+  startDate?: string;
+  endDate?: string;
+  page: number;
+  pageSize: number;
+};
+
+function isEntityType(value: string): value is AuditEntityType {
+  return value in AUDIT_ENTITY_LABELS;
+}
+
+function isAction(value: string): value is AuditAction {
+  return value in AUDIT_ACTION_LABELS;
+}
+
+function toDisplayValue(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join("、");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// 差异既可能是 [{field, before, after}] 列表，也可能是 {field: {before, after}} 映射。
+function normalizeChanges(raw: unknown): AuditChange[] {
+  if (Array.isArray(raw)) {
+    return raw
+      .map((entry) => {
+        const item = (entry ?? {}) as Record<string, unknown>;
+        return {
+          field: String(item.field ?? item.key ?? ""),
+          before: toDisplayValue(item.before ?? item.old ?? item.from),
+          after: toDisplayValue(item.after ?? item.new ?? item.to),
+        };
+      })
+      .filter((change) => change.field);
+  }
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw as Record<string, unknown>).map(
+      ([field, value]) => {
+        const item = (value ?? {}) as Record<string, unknown>;
+        return {
+          field,
+          before: toDisplayValue(item.before ?? item.old),
+          after: toDisplayValue(item.after ?? item.new),
+        };
+      },
+    );
+  }
+  return [];
+}
+
+export function normalizeAuditLog(raw: unknown): AuditLog | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const actor = item.actor as { display_name?: string; account?: string } | undefined;
+  const id = String(item.id ?? "");
+  const entityType = String(item.entity_type ?? item.entityType ?? "");
+  const action = String(item.action ?? "");
+  if (!id || !isEntityType(entityType) || !isAction(action)) {
+    return null;
+  }
+  const entityLabel = item.entity_label ?? item.entityLabel;
+  return {
+    id,
+    entityType,
+    entityId: String(item.entity_id ?? item.entityId ?? ""),
+    entityLabel: entityLabel ? String(entityLabel) : undefined,
+    action,
+    actorName: String(
+      item.actor_name ??
+        item.actorName ??
+        actor?.display_name ??
+        actor?.account ??
+        "",
+    ),
+    createdAt: String(item.created_at ?? item.createdAt ?? ""),
+    changes: normalizeChanges(item.changes ?? item.diff),
+  };
+}
+
+export function getAuditFieldLabel(field: string) {
+  return AUDIT_FIELD_LABELS[field] ?? field;
+}
+
+function extractPage(payload: unknown) {
+  const data = (payload as { data?: unknown } | null)?.data ?? payload;
+  if (Array.isArray(data)) {
+    return { list: data, total: data.length };
+  }
+  const record = (data ?? {}) as Record<string, unknown>;
+  const list = Array.isArray(record.items)
+    ? record.items
+    : Array.isArray(record.list)
+      ? record.list
+      : [];
+  return { list, total: Number(record.total ?? list.length) };
+}
+
+export async function fetchAuditLogs(
+  query: AuditLogQuery,
+  signal?: AbortSignal,
+) {
+  const search = new URLSearchParams({
+    page: String(query.page),
+    page_size: String(query.pageSize),
+  });
+  if (query.entityType) {
+    search.append("entity_type", query.entityType);
+  }
+  if (query.action) {
+    search.append("action", query.action);
+  }
+  if (query.actor?.trim()) {
+    search.append("actor", query.actor.trim());
+  }
+  if (query.startDate) {
+    search.append("start_date", query.startDate);
+  }
+  if (query.endDate) {
+    search.append("end_date", query.endDate);
+  }
+  const payload = await apiJson(`/api/audit-logs?${search.toString()}`, {
+    signal,
+  });
+  const { list, total } = extractPage(payload);
+  return {
+    items: list
+      .map(normalizeAuditLog)
+      .filter((item): item is AuditLog => Boolean(item)),
+    total,
+  };
+}
+
+export async function fetchEntityHistory(
+  entityType: AuditEntityType,
+  entityId: string,
+  signal?: AbortSignal,
+) {
+  const search = new URLSearchParams({
+    entity_type: entityType,
+    entity_id: entityId,
+    page: "1",
+    page_size: "100",
+  });
+  const payload = await apiJson(`/api/audit-logs?${search.toString()}`, {
+    signal,
+  });
+  return extractPage(payload)
+    .list.map(normalizeAuditLog)
+    .filter((item): item is AuditLog => Boolean(item));
+}
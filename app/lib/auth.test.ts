@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { buildLoginPath, getSafeRedirect } from "./auth";
+
+describe("getSafeRedirect", () => {
+  it("keeps in-site paths with their query", () => {
+    expect(getSafeRedirect("/reports?month=2026-10")).toBe(
+      "/reports?month=2026-10",
+    );
+  });
+
+  it("rejects paths the browser would resolve to another host", () => {
+    expect(getSafeRedirect("https://evil.com")).toBe("/");
+    expect(getSafeRedirect("//evil.com")).toBe("/");
+    expect(getSafeRedirect("/\\evil.com")).toBe("/");
+    expect(getSafeRedirect("/\t/evil.com")).toBe("/");
+  });
+
+  it("never redirects back to the login page", () => {
+    expect(getSafeRedirect("/login?redirect=%2F")).toBe("/");
+    expect(buildLoginPath("/\\evil.com")).toBe("/login");
+  });
+});
+
+describe("buildLoginPath", () => {
+  it("marks redirects caused by an expired session", () => {
+    expect(buildLoginPath("/reports")).toBe("/login?redirect=%2Freports");
+    expect(buildLoginPath("/reports", "expired")).toBe(
+      "/login?redirect=%2Freports&reason=expired",
+    );
+    expect(buildLoginPath("/", "expired")).toBe("/login?reason=expired");
+  });
+});
@@ -3,6 +3,7 @@
   account: string;
   display_name?: string;
   role?: string;
+  crew_ids?: string[];
 };
 
 export type AuthTenant = {
@@ -13,8 +14,10 @@ export type AuthTenant = {
 
 export type AuthSession = {
   token: string;
+  refreshToken?: string;
   user?: AuthUser;
   tenant?: AuthTenant;
+  tenants?: AuthTenant[];
 };
 
 const AUTH_SESSION_KEY = "easy-record-session";
@@ -64,3 +67,38 @@ export function loadAuthUser() {
 export function loadAuthTenant() {
   return loadAuthSession()?.tenant ?? null;
 }
+
+export function loadAuthTenants() {
+  return loadAuthSession()?.tenants ?? [];
+}
+
+// 只允许站内相对路径作为登录后的回跳地址，避免被拼接成外部跳转。
+// 浏览器会把反斜杠当作斜杠、并忽略制表与换行符，`/\evil.com` 同样指向外部站点。
+export function getSafeRedirect(value: string | null | undefined) {
+  if (
+    !value ||
+    !value.startsWith("/") ||
+    value.startsWith("//") ||
+    /[\\\u0000-\u001f]/.test(value)
+  ) {
+    return "/";
+  }
+  if (value === "/login" || value.startsWith("/login?")) {
+    return "/";
+  }
+  return value;
+}
+
+// reason 为 expired 时表示登录态刷新失败，登录页据此提示“登录已过期”。
+export function buildLoginPath(redirect?: string, reason?: "expired") {
+  const target = getSafeRedirect(redirect);
+  const search = new URLSearchParams();
+  if (target !== "/") {
+    search.set("redirect", target);
+  }
+  if (reason) {
+    search.set("reason", reason);
+  }
+  const query = search.toString();
+  return query ? `/login?${query}` : "/login";
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCrew } from "./crews";
+
+describe("normalizeCrew", () => {
+  it("reads member ids from employee_ids or member objects", () => {
+    expect(
+      normalizeCrew({ id: 1, name: "钢筋一班", employee_ids: [3, "4", ""] }),
+    ).toEqual({ id: "1", name: "钢筋一班", employeeIds: ["3", "4"] });
+    expect(
+      normalizeCrew({
+        id: "c2",
+        name: "木工班",
+        members: [{ employee_id: "e1" }, { id: "e2" }],
+      })?.employeeIds,
+    ).toEqual(["e1", "e2"]);
+  });
+
+  it("rejects crews without id or name", () => {
+    expect(normalizeCrew({ id: "c3" })).toBeNull();
+    expect(normalizeCrew(null)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { apiJson } from "./api";
+import { extractList } from "./resources";
+
+export type Crew = {
+  id: string;
+  name: string;
+  employeeIds: string[];
+};
+
+export type CrewDraft = {
+  name: string;
+  employeeIds: string[];
+};
+
+const CREWS_PATH = "/api/crews";
+
+// 成员既可能是 employee_ids 数组，也可能是 members 对象列表。
+export function normalizeCrew(raw: unknown): Crew | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const id = String(item.id ?? "");
+  const name = String(item.name ?? "");
+  if (!id || !name) {
+    return null;
+  }
+  const rawIds =
+    item.employee_ids ??
+    item.employeeIds ??
+    (Array.isArray(item.members)
+      ? (item.members as Array<{ id?: unknown; employee_id?: unknown }>).map(
+          (member) => member.employee_id ?? member.id,
+        )
+      : []);
+  return {
+    id,
+    name,
+    employeeIds: Array.isArray(rawIds)
+      ? rawIds.map((value) => String(value ?? "")).filter(Boolean)
+      : [],
+  };
+}
+
+export async function fetchCrews(signal?: AbortSignal) {
+  const payload = await apiJson(CREWS_PATH, { signal });
+  return extractList<unknown>(payload)
+    .map(normalizeCrew)
+    .filter((item): item is Crew => Boolean(item));
+}
+
+// 班组长只能为自己负责班组内的员工记工。
+export async function fetchCrewEmployeeIds(crewIds: string[]) {
+  const result = new Set<string>();
+  (await fetchCrews()).forEach((crew) => {
+    if (crewIds.includes(crew.id)) {
+      crew.employeeIds.forEach((id) => result.add(id));
+    }
+  });
+  return result;
+}
+
+export async function saveCrew(id: string | null, draft: CrewDraft) {
+  const body = { name: draft.name.trim(), employee_ids: draft.employeeIds };
+  await apiJson(id ? `${CREWS_PATH}/${id}` : CREWS_PATH, {
+    method: id ? "PUT" : "POST",
+    body,
+  });
+}
+
+export async function deleteCrew(id: string) {
+  await apiJson(`${CREWS_PATH}/${id}`, { method: "DELETE" });
+}
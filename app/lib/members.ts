@@ -0,0 +1,150 @@
+import { apiJson } from "./api";
+import { extractList } from "./resources";
+import { Role, parseRole } from "./permissions";
+
+export type Member = {
+  id: string;
+  account: string;
+  displayName?: string;
+  role: Role;
+  isActive: boolean;
+  crewIds: string[];
+  lastLoginAt?: string;
+  createdAt?: string;
+};
+
+export type Invitation = {
+  code: string;
+  role: Role;
+  expiresAt?: string;
+  createdAt?: string;
+};
+
+export type InvitationPreview = {
+  tenantName: string;
+  role: Role;
+};
+
+// 邀请只能授予老板以下的角色，老板身份不可转让。
+export const INVITABLE_ROLES: Role[] = ["admin", "foreman", "viewer"];
+
+const MEMBERS_PATH = "/api/tenant/members";
+const INVITATIONS_PATH = "/api/tenant/invitations";
+
+function toOptionalText(value: unknown) {
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+}
+
+export function normalizeMember(raw: unknown): Member | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const id = String(item.id ?? item.user_id ?? "");
+  const account = String(item.account ?? "");
+  if (!id || !account) {
+    return null;
+  }
+  const activeRaw = item.is_active ?? item.isActive;
+  const crewIds = item.crew_ids ?? item.crewIds;
+  return {
+    id,
+    account,
+    displayName: toOptionalText(item.display_name ?? item.displayName),
+    role: parseRole(item.role),
+    isActive: activeRaw === undefined ? true : Boolean(activeRaw),
+    crewIds: Array.isArray(crewIds) ? crewIds.map(String) : [],
+    lastLoginAt: toOptionalText(item.last_login_at ?? item.lastLoginAt),
+    createdAt: toOptionalText(item.created_at ?? item.createdAt),
+  };
+}
+
+export function normalizeInvitation(raw: unknown): Invitation | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const code = String(item.code ?? item.invite_code ?? "");
+  if (!code) {
+    return null;
+  }
+  return {
+    code,
+    role: parseRole(item.role),
+    expiresAt: toOptionalText(item.expires_at ?? item.expiresAt),
+    createdAt: toOptionalText(item.created_at ?? item.createdAt),
+  };
+}
+
+export async function fetchMembers() {
+  const payload = await apiJson(MEMBERS_PATH);
+  return extractList<unknown>(payload)
+    .map(normalizeMember)
+    .filter((item): item is Member => Boolean(item));
+}
+
+export async function updateMember(
+  memberId: string,
+  changes: { role?: Role; isActive?: boolean; crewIds?: string[] },
+) {
+  await apiJson(`${MEMBERS_PATH}/${memberId}`, {
+    method: "PUT",
+    body: {
+      role: changes.role,
+      is_active: changes.isActive,
+      crew_ids: changes.crewIds,
+    },
+  });
+}
+
+// 后端生成一次性临时密码，成员登录后自行修改。
+export async function resetMemberPassword(memberId: string) {
+  const payload = await apiJson(`${MEMBERS_PATH}/${memberId}/reset-password`, {
+    method: "POST",
+  });
+  const data = ((payload as { data?: unknown } | null)?.data ?? payload) as
+    | Record<string, unknown>
+    | null;
+  return String(data?.temporary_password ?? data?.password ?? "");
+}
+
+export async function fetchInvitations() {
+  const payload = await apiJson(INVITATIONS_PATH);
+  return extractList<unknown>(payload)
+    .map(normalizeInvitation)
+    .filter((item): item is Invitation => Boolean(item));
+}
+
+export async function createInvitation(role: Role) {
+  const payload = await apiJson(INVITATIONS_PATH, {
+    method: "POST",
+    body: { role },
+  });
+  const invitation = normalizeInvitation(
+    (payload as { data?: unknown } | null)?.data ?? payload,
+  );
+  if (!invitation) {
+    throw new Error("生成邀请失败，请稍后再试。");
+  }
+  return invitation;
+}
+
+export async function revokeInvitation(code: string) {
+  await apiJson(`${INVITATIONS_PATH}/${code}`, { method: "DELETE" });
+}
+
+export async function fetchInvitationPreview(
+  code: string,
+): Promise<InvitationPreview> {
+  const payload = await apiJson(
+    `/api/auth/invitations/${encodeURIComponent(code)}`,
+  );
+  const data = ((payload as { data?: unknown } | null)?.data ?? payload) as
+    | Record<string, unknown>
+    | null;
+  return {
+    tenantName: String(data?.tenant_name ?? data?.tenantName ?? ""),
+    role: parseRole(data?.role),
+  };
+}
+
+export function buildInviteLink(code: string) {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  return `${origin}/register?invite=${encodeURIComponent(code)}`;
+}
@@ -0,0 +1,324 @@
+import { Role } from "../permissions";
+
+export type MockTenant = {
+  id: string;
+  code: string;
+  name: string;
+};
+
+export type MockUser = {
+  id: string;
+  account: string;
+  password: string;
+  displayName?: string;
+  memberships: Array<{ tenantId: string; role: Role }>;
+};
+
+export type MockEmployee = {
+  id: string;
+  name: string;
+  type: "正式工" | "临时工";
+  workType: string;
+  phone: string;
+  idCardNumber: string;
+  remark: string;
+  tags: string[];
+  dailyRate: number | null;
+  overtimeRate: number | null;
+  createdAt: string;
+  deletedAt?: string;
+};
+
+export type MockProject = {
+  id: string;
+  name: string;
+  code: string;
+  status: "active" | "pending" | "completed";
+  plannedStartDate: string;
+  plannedEndDate: string;
+  remark: string;
+  createdAt: string;
+  deletedAt?: string;
+};
+
+export type MockTimeEntry = {
+  id: string;
+  employeeId: string;
+  projectId: string | null;
+  workType: string;
+  date: string;
+  normalHours: number;
+  overtimeHours: number;
+  startTime: string | null;
+  endTime: string | null;
+  breakMinutes: number | null;
+  remark: string;
+  createdAt: string;
+  deletedAt?: string;
+};
+
+export type MockTenantData = {
+  employees: MockEmployee[];
+  projects: MockProject[];
+  timeEntries: MockTimeEntry[];
+};
+
+export type MockSeed = {
+  tenants: MockTenant[];
+  users: MockUser[];
+  data: Record<string, MockTenantData>;
+};
+
+type EmployeeSeed = [
+  name: string,
+  type: MockEmployee["type"],
+  workType: string,
+  tags: string[],
+  dailyRate: number,
+];
+
+type ProjectSeed = [
+  name: string,
+  code: string,
+  status: MockProject["status"],
+  startOffsetDays: number,
+  durationDays: number,
+  remark: string,
+];
+
+export const MOCK_PASSWORD = "123456";
+
+const MAIN_TENANT_ID = "t-1";
+const SUB_TENANT_ID = "t-2";
+
+const MAIN_EMPLOYEES: EmployeeSeed[] = [
+  ["张建国", "正式工", "钢筋工", ["班组长", "老员工"], 420],
+  ["李卫东", "正式工", "钢筋工", ["老员工"], 380],
+  ["王志强", "临时工", "钢筋工", [], 350],
+  ["赵铁柱", "临时工", "钢筋工", ["夜班"], 350],
+  ["刘德明", "正式工", "木工", ["班组长"], 430],
+  ["陈国平", "正式工", "木工", ["老员工"], 400],
+  ["杨小军", "临时工", "木工", [], 360],
+  ["黄永发", "临时工", "木工", ["新人"], 330],
+  ["周大勇", "正式工", "泥瓦工", ["班组长", "老员工"], 410],
+  ["吴海波", "正式工", "泥瓦工", [], 380],
+  ["徐春生", "临时工", "泥瓦工", [], 350],
+  ["孙长江", "正式工", "混凝土工", ["老员工"], 390],
+  ["马俊峰", "临时工", "混凝土工", ["夜班"], 360],
+  ["朱建华", "临时工", "混凝土工", [], 340],
+  ["胡振宇", "正式工", "架子工", ["持证上岗"], 450],
+  ["郭宝山", "临时工", "架子工", ["持证上岗"], 420],
+  ["何立新", "正式工", "电焊工", ["持证上岗", "老员工"], 460],
+  ["高明亮", "临时工", "电焊工", ["持证上岗"], 430],
+  ["林少华", "正式工", "水电工", ["持证上岗"], 440],
+  ["罗文斌", "临时工", "水电工", [], 400],
+  ["梁秀英", "正式工", "油漆工", [], 360],
+  ["宋桂兰", "临时工", "油漆工", ["新人"], 320],
+  ["郑春花", "临时工", "杂工", [], 260],
+  ["谢二牛", "临时工", "杂工", ["夜班"], 260],
+  ["韩金宝", "临时工", "杂工", ["新人"], 250],
+  ["唐有才", "正式工", "机械操作工", ["持证上岗"], 480],
+];
+
+const MAIN_PROJECTS: ProjectSeed[] = [
+  ["滨江花园二期住宅楼", "BJHY-02", "active", -120, 300, "12 栋高层住宅，主体结构施工中"],
+  ["城南污水处理厂扩建", "CNWS-01", "active", -75, 240, "二沉池及配套管网"],
+  ["高新区实验学校综合楼", "GXSY-01", "active", -40, 210, "框架结构，含地下车库"],
+  ["地铁五号线配套道路", "DT5-PT", "pending", 20, 180, "等待交通导改审批"],
+  ["东湖商业广场装修", "DHSY-ZX", "completed", -260, 150, "已竣工验收"],
+];
+
+const SUB_EMPLOYEES: EmployeeSeed[] = [
+  ["冯大海", "正式工", "钢筋工", ["班组长"], 400],
+  ["邓小龙", "临时工", "木工", [], 350],
+  ["曹阿宝", "临时工", "杂工", [], 250],
+  ["彭建设", "临时工", "泥瓦工", ["夜班"], 340],
+];
+
+const SUB_PROJECTS: ProjectSeed[] = [
+  ["开发区标准厂房", "KFQ-CF", "active", -30, 120, "钢结构厂房劳务分包"],
+];
+
+const REMARKS = ["", "", "", "", "浇筑楼板", "搭设外架", "材料转运", "雨后清场"];
+
+// 固定种子的伪随机数，保证每次启动与测试得到相同的数据。
+function createRandom(seed: number) {
+  let value = seed;
+  return () => {
+    value = (value + 0x6d2b79f5) | 0;
+    let next = Math.imul(value ^ (value >>> 15), 1 | value);
+    next = (next + Math.imul(next ^ (next >>> 7), 61 | next)) ^ next;
+    return ((next ^ (next >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function buildEmployees(
+  prefix: string,
+  seeds: EmployeeSeed[],
+  random: () => number,
+  createdAt: string,
+): MockEmployee[] {
+  return seeds.map(([name, type, workType, tags, dailyRate], index) => ({
+    id: `${prefix}-e-${index + 1}`,
+    name,
+    type,
+    workType,
+    phone: `13${Math.floor(100000000 + random() * 899999999)}`,
+    idCardNumber: "",
+    remark: "",
+    tags,
+    dailyRate,
+    overtimeRate: Math.round(dailyRate / 8) * 1.5,
+    createdAt,
+  }));
+}
+
+function buildProjects(
+  prefix: string,
+  seeds: ProjectSeed[],
+  today: Date,
+): MockProject[] {
+  return seeds.map(([name, code, status, startOffset, duration, remark], index) => {
+    const start = addDays(today, startOffset);
+    return {
+      id: `${prefix}-p-${index + 1}`,
+      name,
+      code,
+      status,
+      plannedStartDate: toDateKey(start),
+      plannedEndDate: toDateKey(addDays(start, duration)),
+      remark,
+      createdAt: addDays(start, -7).toISOString(),
+    };
+  });
+}
+
+// 进行中的项目按员工轮流分配，模拟每天出勤、偶尔加班和周日休息。
+function buildTimeEntries(
+  prefix: string,
+  employees: MockEmployee[],
+  projects: MockProject[],
+  today: Date,
+  days: number,
+  random: () => number,
+): MockTimeEntry[] {
+  const activeProjects = projects.filter((project) => project.status === "active");
+  const entries: MockTimeEntry[] = [];
+  for (let offset = days - 1; offset >= 0; offset -= 1) {
+    const date = addDays(today, -offset);
+    if (date.getDay() === 0 && random() < 0.8) {
+      continue;
+    }
+    const dateKey = toDateKey(date);
+    employees.forEach((employee, index) => {
+      if (random() < 0.12) {
+        return;
+      }
+      const project = activeProjects[index % activeProjects.length];
+      const overtimeRoll = random();
+      const overtimeHours = overtimeRoll < 0.55 ? 0 : overtimeRoll < 0.85 ? 2 : 3;
+      const normalHours = random() < 0.08 ? 4 : 8;
+      const hasClock = random() < 0.3;
+      entries.push({
+        id: `${prefix}-te-${entries.length + 1}`,
+        employeeId: employee.id,
+        projectId: project?.id ?? null,
+        workType: employee.workType,
+        date: dateKey,
+        normalHours,
+        overtimeHours,
+        startTime: hasClock ? "07:00" : null,
+        endTime: hasClock
+          ? `${pad(7 + normalHours + overtimeHours + 1)}:00`
+          : null,
+        breakMinutes: hasClock ? 60 : null,
+        remark: REMARKS[Math.floor(random() * REMARKS.length)],
+        createdAt: new Date(
+          date.getFullYear(),
+          date.getMonth(),
+          date.getDate(),
+          18,
+          Math.floor(random() * 60),
+        ).toISOString(),
+      });
+    });
+  }
+  return entries;
+}
+
+export function createMockSeed(today = new Date()): MockSeed {
+  const random = createRandom(20261019);
+  const base = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const createdAt = addDays(base, -200).toISOString();
+
+  const mainEmployees = buildEmployees("m", MAIN_EMPLOYEES, random, createdAt);
+  const mainProjects = buildProjects("m", MAIN_PROJECTS, base);
+  const subEmployees = buildEmployees("s", SUB_EMPLOYEES, random, createdAt);
+  const subProjects = buildProjects("s", SUB_PROJECTS, base);
+
+  return {
+    tenants: [
+      { id: MAIN_TENANT_ID, code: "hongda", name: "宏达建筑工程有限公司" },
+      { id: SUB_TENANT_ID, code: "xinyuan", name: "鑫源劳务分包有限公司" },
+    ],
+    users: [
+      {
+        id: "u-1",
+        account: "admin",
+        password: MOCK_PASSWORD,
+        displayName: "王经理",
+        memberships: [
+          { tenantId: MAIN_TENANT_ID, role: "owner" },
+          { tenantId: SUB_TENANT_ID, role: "admin" },
+        ],
+      },
+      {
+        id: "u-2",
+        account: "caiwu",
+        password: MOCK_PASSWORD,
+        displayName: "李会计",
+        memberships: [{ tenantId: MAIN_TENANT_ID, role: "viewer" }],
+      },
+    ],
+    data: {
+      [MAIN_TENANT_ID]: {
+        employees: mainEmployees,
+        projects: mainProjects,
+        timeEntries: buildTimeEntries(
+          "m",
+          mainEmployees,
+          mainProjects,
+          base,
+          60,
+          random,
+        ),
+      },
+      [SUB_TENANT_ID]: {
+        employees: subEmployees,
+        projects: subProjects,
+        timeEntries: buildTimeEntries(
+          "s",
+          subEmployees,
+          subProjects,
+          base,
+          20,
+          random,
+        ),
+      },
+    },
+  };
+}
@@ -0,0 +1,1157 @@
+import { Role } from "../permissions";
+import { computeEntryWorkUnits } from "../workUnits";
+import {
+  MockEmployee,
+  MockProject,
+  MockTenantData,
+  MockTimeEntry,
+  MockUser,
+  createMockSeed,
+} from "./seed";
+import { XLSX_CONTENT_TYPE, XlsxCell, buildXlsx } from "./xlsx";
+
+export type MockApiOptions = {
+  today?: Date;
+};
+
+export type MockApi = {
+  handle(request: Request): Promise<Response>;
+};
+
+type MockContext = {
+  user: MockUser;
+  tenantId: string;
+  role: Role;
+  data: MockTenantData;
+};
+
+type Params = URLSearchParams;
+
+type Body = Record<string, unknown>;
+
+const DEFAULT_PAGE_SIZE = 15;
+const ACCESS_PREFIX = "mock-access";
+const REFRESH_PREFIX = "mock-refresh";
+
+function ok(data: unknown = null) {
+  return Response.json({ code: 0, message: "ok", data });
+}
+
+function fail(status: number, message: string) {
+  return Response.json({ code: status, message, data: null }, { status });
+}
+
+function xlsx(fileName: string, rows: XlsxCell[][]) {
+  return new Response(buildXlsx(fileName.replace(/\.xlsx$/, ""), rows), {
+    headers: {
+      "Content-Type": XLSX_CONTENT_TYPE,
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(
+        fileName,
+      )}`,
+    },
+  });
+}
+
+function toText(value: unknown) {
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+function toNullableText(value: unknown) {
+  const text = toText(value);
+  return text ? text : null;
+}
+
+function toHours(value: unknown) {
+  const hours = Number(value ?? 0);
+  return Number.isFinite(hours) && hours >= 0 ? hours : null;
+}
+
+function toNullableNumber(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toTags(value: unknown) {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[，,|]/)
+      : [];
+  return Array.from(new Set(list.map(toText).filter(Boolean)));
+}
+
+function roundUnits(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function paginate<T>(list: T[], params: Params) {
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const pageSize = Math.max(1, Number(params.get("page_size")) || DEFAULT_PAGE_SIZE);
+  return {
+    items: list.slice((page - 1) * pageSize, page * pageSize),
+    total: list.length,
+    page,
+    page_size: pageSize,
+  };
+}
+
+function compareName(left: string, right: string) {
+  return left.localeCompare(right, "zh-CN");
+}
+
+function isDateKey(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function getMonthDays(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(year, monthIndex, 0).getDate();
+  return Array.from(
+    { length: lastDay },
+    (_, index) => `${month}-${(index + 1).toString().padStart(2, "0")}`,
+  );
+}
+
+async function readJson(request: Request): Promise<Body> {
+  const body = await request.json().catch(() => null);
+  return body && typeof body === "object" ? (body as Body) : {};
+}
+
+export function createMockApi(options: MockApiOptions = {}): MockApi {
+  const seed = createMockSeed(options.today);
+  const { tenants, users, data: tenantData } = seed;
+  let sequence = 0;
+
+  function nextId(prefix: string) {
+    sequence += 1;
+    return `${prefix}-n${sequence}`;
+  }
+
+  function now() {
+    return new Date().toISOString();
+  }
+
+  function serializeUser(user: MockUser, role: Role) {
+    return {
+      id: user.id,
+      account: user.account,
+      display_name: user.displayName,
+      role,
+      crew_ids: [],
+    };
+  }
+
+  function serializeTenant(tenantId: string) {
+    const tenant = tenants.find((item) => item.id === tenantId);
+    return tenant ? { id: tenant.id, code: tenant.code, name: tenant.name } : null;
+  }
+
+  function buildSession(user: MockUser, tenantId: string) {
+    const membership = user.memberships.find((item) => item.tenantId === tenantId);
+    const role = membership?.role ?? "viewer";
+    return {
+      token: `${ACCESS_PREFIX}.${user.id}.${tenantId}`,
+      refresh_token: `${REFRESH_PREFIX}.${user.id}.${tenantId}`,
+      user: serializeUser(user, role),
+      tenant: serializeTenant(tenantId),
+      tenants: user.memberships.map((item) => serializeTenant(item.tenantId)),
+    };
+  }
+
+  function resolveToken(token: string, prefix: string): MockContext | null {
+    const [tokenPrefix, userId, tenantId] = token.split(".");
+    if (tokenPrefix !== prefix) {
+      return null;
+    }
+    const user = users.find((item) => item.id === userId);
+    const membership = user?.memberships.find((item) => item.tenantId === tenantId);
+    if (!user || !membership || !tenantData[tenantId]) {
+      return null;
+    }
+    return { user, tenantId, role: membership.role, data: tenantData[tenantId] };
+  }
+
+  function findEmployee(context: MockContext, id: string) {
+    return context.data.employees.find((item) => item.id === id);
+  }
+
+  function findProject(context: MockContext, id: string | null) {
+    return id ? context.data.projects.find((item) => item.id === id) : undefined;
+  }
+
+  // 与前端一致按员工当天合计折算个工，分摊到多个项目时按工时占比拆分。
+  function getEntryUnits(context: MockContext) {
+    return computeEntryWorkUnits(
+      context.data.timeEntries.filter((entry) => !entry.deletedAt),
+    );
+  }
+
+  function serializeEmployee(employee: MockEmployee) {
+    return {
+      id: employee.id,
+      name: employee.name,
+      type: employee.type,
+      work_type: employee.workType,
+      phone: employee.phone,
+      id_card_number: employee.idCardNumber,
+      remark: employee.remark,
+      tags: employee.tags,
+      daily_rate: employee.dailyRate,
+      overtime_rate: employee.overtimeRate,
+      ledger_balance: 0,
+      created_at: employee.createdAt,
+    };
+  }
+
+  function serializeProject(project: MockProject) {
+    return {
+      id: project.id,
+      name: project.name,
+      code: project.code,
+      status: project.status,
+      planned_start_date: project.plannedStartDate,
+      planned_end_date: project.plannedEndDate,
+      remark: project.remark,
+      created_at: project.createdAt,
+    };
+  }
+
+  function serializeEntry(
+    context: MockContext,
+    entry: MockTimeEntry,
+    units = getEntryUnits(context),
+  ) {
+    const employee = findEmployee(context, entry.employeeId);
+    const project = findProject(context, entry.projectId);
+    return {
+      id: entry.id,
+      employee_id: entry.employeeId,
+      employee_name: employee?.name ?? "",
+      employee_type: employee?.type ?? "正式工",
+      employee_tags: employee?.tags ?? [],
+      work_type: entry.workType,
+      project_id: entry.projectId,
+      project_name: project?.name ?? null,
+      work_date: entry.date,
+      normal_hours: entry.normalHours,
+      overtime_hours: entry.overtimeHours,
+      total_hours: entry.normalHours + entry.overtimeHours,
+      work_units: roundUnits(units.get(entry.id) ?? 0),
+      start_time: entry.startTime,
+      end_time: entry.endTime,
+      break_minutes: entry.breakMinutes,
+      remark: entry.remark,
+      created_at: entry.createdAt,
+    };
+  }
+
+  function readEmployeeBody(body: Body) {
+    return {
+      name: toText(body.name),
+      type: (body.type === "临时工" ? "临时工" : "正式工") as MockEmployee["type"],
+      workType: toText(body.work_type),
+      phone: toText(body.phone),
+      idCardNumber: toText(body.id_card_number),
+      remark: toText(body.remark),
+      tags: toTags(body.tags),
+      dailyRate: toNullableNumber(body.daily_rate),
+      overtimeRate: toNullableNumber(body.overtime_rate),
+    };
+  }
+
+  function readProjectBody(body: Body) {
+    const status = toText(body.status);
+    return {
+      name: toText(body.name),
+      code: toText(body.code),
+      status: (status === "pending" || status === "completed"
+        ? status
+        : "active") as MockProject["status"],
+      plannedStartDate: toText(body.planned_start_date),
+      plannedEndDate: toText(body.planned_end_date),
+      remark: toText(body.remark),
+    };
+  }
+
+  // 新建与修改记工共用的校验，返回错误信息或规整后的字段。
+  function readEntryBody(
+    context: MockContext,
+    body: Body,
+  ): string | Omit<MockTimeEntry, "id" | "createdAt"> {
+    const employee = findEmployee(context, toText(body.employee_id));
+    if (!employee || employee.deletedAt) {
+      return "员工不存在或已删除。";
+    }
+    const date = toText(body.work_date);
+    if (!isDateKey(date)) {
+      return "请填写正确的日期。";
+    }
+    const projectId = toNullableText(body.project_id);
+    if (projectId && !findProject(context, projectId)) {
+      return "项目不存在或已删除。";
+    }
+    const normalHours = toHours(body.normal_hours);
+    const overtimeHours = toHours(body.overtime_hours);
+    if (normalHours === null || overtimeHours === null) {
+      return "工时需为不小于 0 的数字。";
+    }
+    return {
+      employeeId: employee.id,
+      projectId,
+      workType: employee.workType,
+      date,
+      normalHours,
+      overtimeHours,
+      startTime: toNullableText(body.start_time),
+      endTime: toNullableText(body.end_time),
+      breakMinutes: toNullableNumber(body.break_minutes),
+      remark: toText(body.remark),
+    };
+  }
+
+  function listEmployees(context: MockContext, params: Params) {
+    const keyword = toText(params.get("keyword"));
+    const type = toText(params.get("type"));
+    const tag = toText(params.get("tag"));
+    const workType = toText(params.get("work_type"));
+    return context.data.employees
+      .filter(
+        (employee) =>
+          !employee.deletedAt &&
+          (!keyword ||
+            employee.name.includes(keyword) ||
+            employee.phone.includes(keyword) ||
+            employee.workType.includes(keyword)) &&
+          (!type || employee.type === type) &&
+          (!tag || employee.tags.includes(tag)) &&
+          (!workType || employee.workType === workType),
+      )
+      .sort((left, right) => compareName(left.name, right.name));
+  }
+
+  function listProjects(context: MockContext, params: Params) {
+    const keyword = toText(params.get("keyword"));
+    const status = toText(params.get("status"));
+    return context.data.projects
+      .filter(
+        (project) =>
+          !project.deletedAt &&
+          (!keyword ||
+            project.name.includes(keyword) ||
+            project.code.includes(keyword)) &&
+          (!status || project.status === status),
+      )
+      .sort((left, right) => compareName(left.name, right.name));
+  }
+
+  function filterEntries(context: MockContext, params: Params) {
+    const date = toText(params.get("date") ?? params.get("work_date"));
+    const startDate = toText(params.get("start_date"));
+    const endDate = toText(params.get("end_date"));
+    const month = toText(params.get("month"));
+    const employeeId = toText(params.get("employee_id"));
+    const employeeType = toText(params.get("employee_type"));
+    const workType = toText(params.get("work_type"));
+    const projectId = toText(params.get("project_id"));
+    return context.data.timeEntries.filter((entry) => {
+      if (entry.deletedAt) {
+        return false;
+      }
+      if (
+        (date && entry.date !== date) ||
+        (startDate && entry.date < startDate) ||
+        (endDate && entry.date > endDate) ||
+        (month && !entry.date.startsWith(month)) ||
+        (employeeId && entry.employeeId !== employeeId) ||
+        (workType && entry.workType !== workType) ||
+        (projectId && entry.projectId !== projectId)
+      ) {
+        return false;
+      }
+      return (
+        !employeeType ||
+        findEmployee(context, entry.employeeId)?.type === employeeType
+      );
+    });
+  }
+
+  function sortEntries(context: MockContext, list: MockTimeEntry[], sort: string) {
+    if (sort === "hours_desc") {
+      return [...list].sort(
+        (left, right) =>
+          right.normalHours +
+          right.overtimeHours -
+          (left.normalHours + left.overtimeHours),
+      );
+    }
+    return [...list].sort((left, right) =>
+      left.date === right.date
+        ? compareName(
+            findEmployee(context, left.employeeId)?.name ?? "",
+            findEmployee(context, right.employeeId)?.name ?? "",
+          )
+        : right.date.localeCompare(left.date),
+    );
+  }
+
+  function summarizeUnits(
+    context: MockContext,
+    params: Params,
+    group: (entry: MockTimeEntry) => Array<Record<string, unknown> & { key: string }>,
+  ) {
+    const entryUnits = getEntryUnits(context);
+    const totals = new Map<string, Record<string, unknown> & { work_units: number }>();
+    filterEntries(context, params).forEach((entry) => {
+      const units = entryUnits.get(entry.id) ?? 0;
+      group(entry).forEach(({ key, ...fields }) => {
+        const current = totals.get(key) ?? { ...fields, work_units: 0 };
+        current.work_units += units;
+        totals.set(key, current);
+      });
+    });
+    return Array.from(totals.values())
+      .map((item) => ({ ...item, work_units: roundUnits(item.work_units) }))
+      .sort((left, right) => right.work_units - left.work_units);
+  }
+
+  function dailySummary(context: MockContext, params: Params) {
+    const days = new Map<
+      string,
+      {
+        employees: Set<string>;
+        normal: number;
+        overtime: number;
+        units: number;
+      }
+    >();
+    const entryUnits = getEntryUnits(context);
+    filterEntries(context, params).forEach((entry) => {
+      const day = days.get(entry.date) ?? {
+        employees: new Set<string>(),
+        normal: 0,
+        overtime: 0,
+        units: 0,
+      };
+      day.employees.add(entry.employeeId);
+      day.normal += entry.normalHours;
+      day.overtime += entry.overtimeHours;
+      day.units += entryUnits.get(entry.id) ?? 0;
+      days.set(entry.date, day);
+    });
+    return Array.from(days.entries())
+      .sort(([left], [right]) => left.localeCompare(right))
+      .map(([date, day]) => ({
+        date,
+        headcount: day.employees.size,
+        normal_hours: day.normal,
+        overtime_hours: day.overtime,
+        total_hours: day.normal + day.overtime,
+        total_work_units: roundUnits(day.units),
+      }));
+  }
+
+  function createEntries(context: MockContext, body: Body) {
+    const employeeIds = Array.isArray(body.employee_ids)
+      ? body.employee_ids.map(toText).filter(Boolean)
+      : [];
+    const workDates = Array.isArray(body.work_dates)
+      ? body.work_dates.map(toText).filter(Boolean)
+      : [];
+    if (employeeIds.length === 0 || workDates.length === 0) {
+      return fail(400, "请选择员工和日期。");
+    }
+    const projectId = toNullableText(body.project_id);
+    const allowSplit = Boolean(body.allow_split);
+    const created: MockTimeEntry[] = [];
+    const skipped: Array<{ employeeId: string; date: string; existing: MockTimeEntry }> =
+      [];
+    for (const employeeId of employeeIds) {
+      for (const date of workDates) {
+        // 允许分摊时只有同项目已有记录才跳过，否则同一天已有任何记录都跳过。
+        const existing = context.data.timeEntries.find(
+          (entry) =>
+            !entry.deletedAt &&
+            entry.employeeId === employeeId &&
+            entry.date === date &&
+            (!allowSplit || entry.projectId === projectId),
+        );
+        if (existing) {
+          skipped.push({ employeeId, date, existing });
+          continue;
+        }
+        const fields = readEntryBody(context, {
+          ...body,
+          employee_id: employeeId,
+          work_date: date,
+        });
+        if (typeof fields === "string") {
+          return fail(400, fields);
+        }
+        created.push({ ...fields, id: nextId("te"), createdAt: now() });
+      }
+    }
+    context.data.timeEntries.push(...created);
+    const units = getEntryUnits(context);
+    return ok({
+      created: created.length,
+      skipped: skipped.length,
+      skipped_items: skipped.map((item) => ({
+        employee_id: item.employeeId,
+        employee_name: findEmployee(context, item.employeeId)?.name ?? "",
+        work_date: item.date,
+        existing: serializeEntry(context, item.existing, units),
+      })),
+      items: created.map((entry) => serializeEntry(context, entry, units)),
+    });
+  }
+
+  // 按周录入的批量保存：逐条执行并按 client_key 回报结果，单条失败不影响其余改动。
+  function applyBulk(context: MockContext, body: Body) {
+    const results: Array<{ client_key: string; success: boolean; message?: string }> =
+      [];
+    const list = (value: unknown) =>
+      Array.isArray(value) ? (value as Body[]) : [];
+
+    list(body.create).forEach((item) => {
+      const clientKey = toText(item.client_key);
+      const fields = readEntryBody(context, item);
+      if (typeof fields === "string") {
+        results.push({ client_key: clientKey, success: false, message: fields });
+        return;
+      }
+      const duplicated = context.data.timeEntries.some(
+        (entry) =>
+          !entry.deletedAt &&
+          entry.employeeId === fields.employeeId &&
+          entry.date === fields.date &&
+          entry.projectId === fields.projectId,
+      );
+      if (duplicated) {
+        results.push({
+          client_key: clientKey,
+          success: false,
+          message: "该员工当天已有该项目的记工。",
+        });
+        return;
+      }
+      context.data.timeEntries.push({ ...fields, id: nextId("te"), createdAt: now() });
+      results.push({ client_key: clientKey, success: true });
+    });
+
+    list(body.update).forEach((item) => {
+      const clientKey = toText(item.client_key);
+      const entry = context.data.timeEntries.find(
+        (current) => current.id === toText(item.id) && !current.deletedAt,
+      );
+      const normalHours = toHours(item.normal_hours);
+      const overtimeHours = toHours(item.overtime_hours);
+      if (!entry || normalHours === null || overtimeHours === null) {
+        results.push({
+          client_key: clientKey,
+          success: false,
+          message: entry ? "工时需为不小于 0 的数字。" : "记工记录不存在。",
+        });
+        return;
+      }
+      entry.normalHours = normalHours;
+      entry.overtimeHours = overtimeHours;
+      results.push({ client_key: clientKey, success: true });
+    });
+
+    list(body.delete).forEach((item) => {
+      const clientKey = toText(item.client_key);
+      const entry = context.data.timeEntries.find(
+        (current) => current.id === toText(item.id) && !current.deletedAt,
+      );
+      if (!entry) {
+        results.push({ client_key: clientKey, success: false, message: "记工记录不存在。" });
+        return;
+      }
+      entry.deletedAt = now();
+      results.push({ client_key: clientKey, success: true });
+    });
+
+    return ok({ results });
+  }
+
+  async function importEmployees(context: MockContext, request: Request) {
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("File") ?? form?.get("file");
+    if (!file || typeof file === "string") {
+      return fail(400, "请上传 CSV 文件。");
+    }
+    const lines = (await file.text())
+      .replace(/^﻿/, "")
+      .split(/\r?\n/)
+      .map((line) => line.split(",").map((cell) => cell.replace(/^"|"$/g, "").trim()))
+      .filter((cells) => cells.some(Boolean));
+    const [header = [], ...rows] = lines;
+    const column = (...names: string[]) =>
+      header.findIndex((cell) => names.includes(cell));
+    const nameIndex = column("员工姓名", "姓名", "name");
+    if (nameIndex < 0) {
+      return fail(400, "CSV 缺少“员工姓名”列。");
+    }
+    const typeIndex = column("员工类型", "类型", "type");
+    const workTypeIndex = column("工种", "work_type");
+    const phoneIndex = column("手机号", "电话", "phone");
+    const idCardIndex = column("身份证号", "id_card_number");
+    const tagsIndex = column("标签", "tags");
+    const rateIndex = column("日工价", "daily_rate");
+    let created = 0;
+    let skipped = 0;
+    rows.forEach((cells) => {
+      const name = cells[nameIndex] ?? "";
+      const exists = context.data.employees.some(
+        (employee) => !employee.deletedAt && employee.name === name,
+      );
+      if (!name || exists) {
+        skipped += 1;
+        return;
+      }
+      context.data.employees.push({
+        id: nextId("e"),
+        ...readEmployeeBody({
+          name,
+          type: cells[typeIndex],
+          work_type: cells[workTypeIndex],
+          phone: cells[phoneIndex],
+          id_card_number: cells[idCardIndex],
+          tags: (cells[tagsIndex] ?? "").split(/[|;；]/),
+          daily_rate: cells[rateIndex],
+        }),
+        createdAt: now(),
+      });
+      created += 1;
+    });
+    return ok({ created, skipped });
+  }
+
+  function exportEntries(context: MockContext, params: Params) {
+    const startDate = toText(params.get("start_date"));
+    const endDate = toText(params.get("end_date"));
+    const units = getEntryUnits(context);
+    const rows: XlsxCell[][] = [
+      [
+        "日期",
+        "姓名",
+        "类型",
+        "工种",
+        "项目",
+        "上班",
+        "下班",
+        "休息(分钟)",
+        "常规工时",
+        "加班工时",
+        "合计工时",
+        "个工",
+        "备注",
+      ],
+      ...sortEntries(context, filterEntries(context, params), "")
+        .reverse()
+        .map((entry) => {
+          const item = serializeEntry(context, entry, units);
+          return [
+            item.work_date,
+            item.employee_name,
+            item.employee_type,
+            item.work_type,
+            item.project_name ?? "",
+            item.start_time,
+            item.end_time,
+            item.break_minutes,
+            item.normal_hours,
+            item.overtime_hours,
+            item.total_hours,
+            item.work_units,
+            item.remark,
+          ];
+        }),
+    ];
+    return xlsx(`记工明细_${startDate}_${endDate}.xlsx`, rows);
+  }
+
+  function exportAttendance(context: MockContext, params: Params) {
+    const month = toText(params.get("month"));
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return fail(400, "请选择月份。");
+    }
+    const days = getMonthDays(month);
+    const hours = new Map<string, number>();
+    filterEntries(context, params).forEach((entry) => {
+      const key = `${entry.employeeId}|${entry.date}`;
+      hours.set(key, (hours.get(key) ?? 0) + entry.normalHours + entry.overtimeHours);
+    });
+    const employees = listEmployees(context, new URLSearchParams()).filter(
+      (employee) => days.some((day) => hours.has(`${employee.id}|${day}`)),
+    );
+    const rows: XlsxCell[][] = [
+      ["姓名", "工种", ...days.map((day) => Number(day.slice(8))), "合计(h)"],
+      ...employees.map((employee) => {
+        const cells = days.map((day) => hours.get(`${employee.id}|${day}`) ?? null);
+        const total = cells.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+        return [employee.name, employee.workType, ...cells, total];
+      }),
+    ];
+    return xlsx(`考勤表_${month}.xlsx`, rows);
+  }
+
+  function listDeleted(context: MockContext, params: Params) {
+    const entityType = toText(params.get("entity_type"));
+    const records = [
+      ...context.data.timeEntries
+        .filter((entry) => entry.deletedAt)
+        .map((entry) => ({
+          entity_type: "time_entry",
+          entity_id: entry.id,
+          label: `${findEmployee(context, entry.employeeId)?.name ?? ""} ${entry.date}`,
+          deleted_at: entry.deletedAt,
+        })),
+      ...context.data.employees
+        .filter((employee) => employee.deletedAt)
+        .map((employee) => ({
+          entity_type: "employee",
+          entity_id: employee.id,
+          label: employee.name,
+          deleted_at: employee.deletedAt,
+        })),
+      ...context.data.projects
+        .filter((project) => project.deletedAt)
+        .map((project) => ({
+          entity_type: "project",
+          entity_id: project.id,
+          label: project.name,
+          deleted_at: project.deletedAt,
+        })),
+    ];
+    return records
+      .filter((record) => !entityType || record.entity_type === entityType)
+      .map((record) => ({ ...record, deleted_by_name: context.user.displayName }))
+      .sort((left, right) =>
+        String(right.deleted_at).localeCompare(String(left.deleted_at)),
+      );
+  }
+
+  function handleCollection<T extends { id: string; deletedAt?: string }>(
+    context: MockContext,
+    method: string,
+    items: T[],
+    id: string,
+    action: string | undefined,
+    update: (item: T) => Response | void,
+  ) {
+    const item = items.find((current) => current.id === id);
+    if (!item || (action !== "restore" && item.deletedAt)) {
+      return fail(404, "记录不存在或已删除。");
+    }
+    if (method === "POST" && action === "restore") {
+      item.deletedAt = undefined;
+      return ok(null);
+    }
+    if (method === "DELETE" && !action) {
+      item.deletedAt = now();
+      return ok(null);
+    }
+    if (method === "PUT" && !action) {
+      return update(item) ?? ok(null);
+    }
+    return null;
+  }
+
+  async function handleAuth(
+    method: string,
+    action: string,
+    code: string | undefined,
+    request: Request,
+  ) {
+    if (method === "GET" && action === "invitations" && code) {
+      return fail(404, "邀请码无效或已过期。");
+    }
+    if (method !== "POST") {
+      return null;
+    }
+    const body = await readJson(request);
+    if (action === "login") {
+      const user = users.find(
+        (item) =>
+          item.account === toText(body.account) &&
+          item.password === toText(body.password),
+      );
+      if (!user) {
+        return fail(401, "账号或密码错误。");
+      }
+      return ok(buildSession(user, user.memberships[0].tenantId));
+    }
+    if (action === "register") {
+      const account = toText(body.account);
+      const password = toText(body.password);
+      if (!account || !password) {
+        return fail(400, "请输入账号和密码。");
+      }
+      if (users.some((item) => item.account === account)) {
+        return fail(400, "该账号已被注册。");
+      }
+      if (toText(body.invite_code)) {
+        return fail(400, "邀请码无效或已过期。");
+      }
+      const tenantId = nextId("t");
+      tenants.push({
+        id: tenantId,
+        code: tenantId,
+        name: toText(body.tenant_name) || `${account}的公司`,
+      });
+      tenantData[tenantId] = { employees: [], projects: [], timeEntries: [] };
+      const user: MockUser = {
+        id: nextId("u"),
+        account,
+        password,
+        displayName: toText(body.display_name) || undefined,
+        memberships: [{ tenantId, role: "owner" }],
+      };
+      users.push(user);
+      return ok(buildSession(user, tenantId));
+    }
+    if (action === "refresh") {
+      const context = resolveToken(toText(body.refresh_token), REFRESH_PREFIX);
+      return context
+        ? ok(buildSession(context.user, context.tenantId))
+        : fail(401, "登录已过期，请重新登录。");
+    }
+    return null;
+  }
+
+  async function handleAuthorized(
+    context: MockContext,
+    method: string,
+    segments: string[],
+    params: Params,
+    request: Request,
+  ): Promise<Response | null> {
+    const [resource, id, action] = segments;
+
+    if (resource === "auth") {
+      if (method === "GET" && id === "me") {
+        const session = buildSession(context.user, context.tenantId);
+        return ok({
+          user: session.user,
+          tenant: session.tenant,
+          tenants: session.tenants,
+        });
+      }
+      if (method !== "POST") {
+        return null;
+      }
+      const body = await readJson(request);
+      if (id === "logout") {
+        return ok(null);
+      }
+      if (id === "switch-tenant") {
+        const tenantId = toText(body.tenant_id);
+        if (!context.user.memberships.some((item) => item.tenantId === tenantId)) {
+          return fail(403, "无权访问该公司。");
+        }
+        return ok(buildSession(context.user, tenantId));
+      }
+      if (id === "change-password") {
+        if (toText(body.current_password) !== context.user.password) {
+          return fail(400, "当前密码不正确。");
+        }
+        context.user.password = toText(body.new_password);
+        return ok(null);
+      }
+      if (id === "change-display-name") {
+        context.user.displayName = toText(body.display_name) || undefined;
+        return ok(null);
+      }
+      return null;
+    }
+
+    if (method !== "GET" && context.role === "viewer") {
+      return fail(403, "当前账号无权执行该操作。");
+    }
+
+    if (resource === "employees") {
+      if (method === "GET" && !id) {
+        const page = paginate(listEmployees(context, params), params);
+        return ok({ ...page, items: page.items.map(serializeEmployee) });
+      }
+      if (method === "GET" && id === "ids") {
+        return ok({
+          ids: listEmployees(context, params).map((employee) => employee.id),
+        });
+      }
+      if (method === "GET" && id === "work-types") {
+        const counts = new Map<string, number>();
+        listEmployees(context, new URLSearchParams()).forEach((employee) => {
+          if (employee.workType) {
+            counts.set(
+              employee.workType,
+              (counts.get(employee.workType) ?? 0) + 1,
+            );
+          }
+        });
+        return ok({
+          items: Array.from(counts, ([workType, count]) => ({
+            work_type: workType,
+            count,
+          })).sort((left, right) => compareName(left.work_type, right.work_type)),
+        });
+      }
+      if (method === "GET" && id === "export") {
+        return xlsx(
+          "员工管理.xlsx",
+          [
+            ["姓名", "类型", "工种", "电话", "标签", "日工价", "加班工价", "备注"],
+            ...listEmployees(context, params).map((employee) => [
+              employee.name,
+              employee.type,
+              employee.workType,
+              employee.phone,
+              employee.tags.join("|"),
+              employee.dailyRate,
+              employee.overtimeRate,
+              employee.remark,
+            ]),
+          ],
+        );
+      }
+      if (method === "GET" && id === "import-template") {
+        return xlsx("员工导入模板.xlsx", [
+          ["员工姓名", "员工类型", "工种", "手机号", "身份证号"],
+          ["张三", "临时工", "钢筋工", "13800000000", ""],
+        ]);
+      }
+      if (method === "POST" && id === "import") {
+        return importEmployees(context, request);
+      }
+      if (method === "POST" && !id) {
+        const fields = readEmployeeBody(await readJson(request));
+        if (!fields.name) {
+          return fail(400, "请输入员工姓名。");
+        }
+        const employee = { ...fields, id: nextId("e"), createdAt: now() };
+        context.data.employees.push(employee);
+        return ok(serializeEmployee(employee));
+      }
+      if (id) {
+        const body = method === "PUT" ? await readJson(request) : {};
+        return handleCollection(
+          context,
+          method,
+          context.data.employees,
+          id,
+          action,
+          (employee) => {
+            const fields = readEmployeeBody(body);
+            if (!fields.name) {
+              return fail(400, "请输入员工姓名。");
+            }
+            Object.assign(employee, fields);
+          },
+        );
+      }
+    }
+
+    if (resource === "projects") {
+      if (method === "GET" && !id) {
+        const page = paginate(listProjects(context, params), params);
+        return ok({ ...page, items: page.items.map(serializeProject) });
+      }
+      if (method === "GET" && id === "export") {
+        return xlsx("项目管理.xlsx", [
+          ["项目名称", "项目编号", "状态", "计划开始", "计划结束", "备注"],
+          ...listProjects(context, params).map((project) => [
+            project.name,
+            project.code,
+            { active: "进行中", pending: "待开始", completed: "已完成" }[
+              project.status
+            ],
+            project.plannedStartDate,
+            project.plannedEndDate,
+            project.remark,
+          ]),
+        ]);
+      }
+      if (method === "POST" && !id) {
+        const fields = readProjectBody(await readJson(request));
+        if (!fields.name) {
+          return fail(400, "请输入项目名称。");
+        }
+        const project = { ...fields, id: nextId("p"), createdAt: now() };
+        context.data.projects.push(project);
+        return ok(serializeProject(project));
+      }
+      if (id) {
+        const body = method === "PUT" ? await readJson(request) : {};
+        return handleCollection(
+          context,
+          method,
+          context.data.projects,
+          id,
+          action,
+          (project) => {
+            const fields = readProjectBody(body);
+            if (!fields.name) {
+              return fail(400, "请输入项目名称。");
+            }
+            Object.assign(project, fields);
+          },
+        );
+      }
+    }
+
+    if (resource === "time-entries") {
+      if (method === "GET" && !id) {
+        const list = sortEntries(
+          context,
+          filterEntries(context, params),
+          toText(params.get("sort")),
+        );
+        const page = paginate(list, params);
+        const units = getEntryUnits(context);
+        return ok({
+          ...page,
+          items: page.items.map((entry) => serializeEntry(context, entry, units)),
+        });
+      }
+      if (method === "GET" && id === "summary") {
+        if (!action) {
+          return ok(dailySummary(context, params));
+        }
+        if (action === "project-units") {
+          return ok(
+            summarizeUnits(context, params, (entry) => [
+              {
+                key: entry.projectId ?? "",
+                project_id: entry.projectId,
+                project_name: findProject(context, entry.projectId)?.name ?? null,
+              },
+            ]),
+          );
+        }
+        if (action === "employee-units") {
+          return ok(
+            summarizeUnits(context, params, (entry) => [
+              {
+                key: entry.employeeId,
+                employee_id: entry.employeeId,
+                employee_name: findEmployee(context, entry.employeeId)?.name ?? "",
+              },
+            ]),
+          );
+        }
+        if (action === "worktype-units") {
+          return ok(
+            summarizeUnits(context, params, (entry) => [
+              { key: entry.workType, work_type: entry.workType || null },
+            ]),
+          );
+        }
+        if (action === "tag-units") {
+          return ok(
+            summarizeUnits(context, params, (entry) => {
+              const tags = findEmployee(context, entry.employeeId)?.tags ?? [];
+              return tags.length > 0
+                ? tags.map((tag) => ({ key: tag, tag }))
+                : [{ key: "", tag: null }];
+            }),
+          );
+        }
+      }
+      if (method === "GET" && id === "export") {
+        return exportEntries(context, params);
+      }
+      if (method === "GET" && id === "attendance" && action === "export") {
+        return exportAttendance(context, params);
+      }
+      if (method === "POST" && id === "batch") {
+        return createEntries(context, await readJson(request));
+      }
+      if (method === "POST" && id === "bulk") {
+        return applyBulk(context, await readJson(request));
+      }
+      if (id) {
+        const body = method === "PUT" ? await readJson(request) : {};
+        return handleCollection(
+          context,
+          method,
+          context.data.timeEntries,
+          id,
+          action,
+          (entry) => {
+            const fields = readEntryBody(context, body);
+            if (typeof fields === "string") {
+              return fail(400, fields);
+            }
+            Object.assign(entry, fields);
+          },
+        );
+      }
+    }
+
+    if (resource === "recycle-bin" && method === "GET") {
+      return ok({ items: listDeleted(context, params) });
+    }
+
+    return null;
+  }
+
+  async function handle(request: Request) {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const segments = url.pathname
+      .replace(/^\/api\/?/, "")
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    if (segments[0] === "auth") {
+      const response = await handleAuth(method, segments[1], segments[2], request);
+      if (response) {
+        return response;
+      }
+    }
+
+    const authorization = request.headers.get("Authorization") ?? "";
+    const context = resolveToken(
+      authorization.replace(/^Bearer\s+/i, ""),
+      ACCESS_PREFIX,
+    );
+    if (!context) {
+      return fail(401, "登录已过期，请重新登录。");
+    }
+
+    const response = await handleAuthorized(
+      context,
+      method,
+      segments,
+      url.searchParams,
+      request,
+    );
+    if (response) {
+      return response;
+    }
+    // 未模拟的查询接口返回空列表，页面可以正常渲染；写操作明确报错。
+    if (method === "GET") {
+      return ok({ items: [], total: 0 });
+    }
+    return fail(404, `本地模拟接口暂不支持 ${method} ${url.pathname}`);
+  }
+
+  return { handle };
+}
+
+const globalForMock = globalThis as typeof globalThis & {
+  __easyRecordMockApi?: MockApi;
+};
+
+// 开发环境热更新会重新执行模块，挂在 globalThis 上保证内存数据不被重置。
+export function getMockApi() {
+  if (!globalForMock.__easyRecordMockApi) {
+    globalForMock.__easyRecordMockApi = createMockApi();
+  }
+  return globalForMock.__easyRecordMockApi;
+}
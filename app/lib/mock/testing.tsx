@@ -0,0 +1,152 @@
+import { File as NodeFile } from "node:buffer";
+import { render } from "@testing-library/react";
+import { vi } from "vitest";
+import NoticeProvider from "../../components/NoticeProvider";
+import { AuthSession, saveAuthSession } from "../auth";
+import { MOCK_PASSWORD } from "./seed";
+import { MockApi, createMockApi } from "./server";
+
+// 固定“今天”，让种子数据与页面默认选中的日期、月份保持一致。
+export const MOCK_TODAY = new Date(2026, 9, 19, 9, 0, 0);
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+};
+
+export type CapturedDownload = {
+  fileName: string;
+  blob: Blob;
+};
+
+export type MockApiHarness = {
+  api: MockApi;
+  requests: RecordedRequest[];
+  signIn(account?: string): Promise<AuthSession>;
+};
+
+function readFileText(file: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+// jsdom 的 FormData 无法交给 Node 的 Request 序列化，这里先读出文件内容，
+// 再以 Node 的 File 直接提供给模拟接口。
+async function toMockRequest(url: URL, init: RequestInit) {
+  const { body, ...rest } = init;
+  if (!(body instanceof FormData)) {
+    return new Request(url, init);
+  }
+  const fields = new Map<string, string | NodeFile>();
+  for (const [name, value] of body.entries()) {
+    fields.set(
+      name,
+      typeof value === "string"
+        ? value
+        : new NodeFile([await readFileText(value)], value.name, {
+            type: value.type,
+          }),
+    );
+  }
+  const request = new Request(url, rest);
+  Object.defineProperty(request, "formData", {
+    value: async () => ({ get: (name: string) => fields.get(name) ?? null }),
+  });
+  return request;
+}
+
+// 所有 fetch 都转交给内存中的模拟接口，测试不依赖网络与真实后端。
+export function setupMockApi(): MockApiHarness {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(MOCK_TODAY);
+  const api = createMockApi({ today: MOCK_TODAY });
+  const requests: RecordedRequest[] = [];
+
+  vi.stubGlobal(
+    "fetch",
+    async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = new URL(
+        input instanceof Request ? input.url : String(input),
+        "http://localhost",
+      );
+      requests.push({
+        method: (init.method ?? "GET").toUpperCase(),
+        path: url.pathname,
+        params: url.searchParams,
+      });
+      return api.handle(await toMockRequest(url, init));
+    },
+  );
+
+  async function signIn(account = "admin") {
+    const response = await api.handle(
+      new Request("http://localhost/api/auth/login", {
+        method: "POST",
+        body: JSON.stringify({ account, password: MOCK_PASSWORD }),
+      }),
+    );
+    const { data } = (await response.json()) as {
+      data: {
+        token: string;
+        refresh_token: string;
+        user: AuthSession["user"];
+        tenant: AuthSession["tenant"];
+        tenants: AuthSession["tenants"];
+      };
+    };
+    const session: AuthSession = {
+      token: data.token,
+      refreshToken: data.refresh_token,
+      user: data.user,
+      tenant: data.tenant,
+      tenants: data.tenants,
+    };
+    saveAuthSession(session);
+    return session;
+  }
+
+  return { api, requests, signIn };
+}
+
+export function findRequests(
+  requests: RecordedRequest[],
+  method: string,
+  path: string,
+) {
+  return requests.filter(
+    (request) => request.method === method && request.path === path,
+  );
+}
+
+// 页面导出通过临时链接触发下载，这里截获文件名与内容。
+export function captureDownloads() {
+  const downloads: CapturedDownload[] = [];
+  const blobs = new Map<string, Blob>();
+  // jsdom 未实现 createObjectURL，先补上占位再打桩。
+  URL.createObjectURL ??= () => "";
+  URL.revokeObjectURL ??= () => undefined;
+  vi.spyOn(URL, "createObjectURL").mockImplementation((blob) => {
+    const url = `blob:mock/${blobs.size + 1}`;
+    blobs.set(url, blob as Blob);
+    return url;
+  });
+  vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => undefined);
+  vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(
+    function (this: HTMLAnchorElement) {
+      const blob = blobs.get(this.getAttribute("href") ?? "");
+      if (blob) {
+        downloads.push({ fileName: this.download, blob });
+      }
+    },
+  );
+  return downloads;
+}
+
+export function renderWithNotice(ui: React.ReactElement) {
+  return render(<NoticeProvider>{ui}</NoticeProvider>);
+}
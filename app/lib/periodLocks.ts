@@ -0,0 +1,68 @@
+import { apiJson } from "./api";
+import { extractList } from "./resources";
+
+// 一个月份的锁定状态；解锁后记录仍保留，便于查看最近一次锁定与解锁的操作人。
+export type PeriodLock = {
+  month: string;
+  isLocked: boolean;
+  lockedBy?: string;
+  lockedAt?: string;
+  unlockedBy?: string;
+  unlockedAt?: string;
+};
+
+const PERIOD_LOCKS_PATH = "/api/period-locks";
+
+function toOptionalText(value: unknown) {
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+}
+
+export function normalizePeriodLock(raw: unknown): PeriodLock | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const month = String(item.month ?? item.period ?? "").slice(0, 7);
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return null;
+  }
+  const lockedRaw = item.is_locked ?? item.isLocked ?? item.locked;
+  return {
+    month,
+    isLocked: lockedRaw === undefined ? true : Boolean(lockedRaw),
+    lockedBy: toOptionalText(
+      item.locked_by_name ?? item.locked_by ?? item.lockedBy,
+    ),
+    lockedAt: toOptionalText(item.locked_at ?? item.lockedAt),
+    unlockedBy: toOptionalText(
+      item.unlocked_by_name ?? item.unlocked_by ?? item.unlockedBy,
+    ),
+    unlockedAt: toOptionalText(item.unlocked_at ?? item.unlockedAt),
+  };
+}
+
+export async function fetchPeriodLocks() {
+  const payload = await apiJson(PERIOD_LOCKS_PATH);
+  const list = extractList<unknown>(payload);
+  return list
+    .map(normalizePeriodLock)
+    .filter((item): item is PeriodLock => Boolean(item));
+}
+
+export async function lockPeriod(month: string) {
+  await apiJson(PERIOD_LOCKS_PATH, {
+    method: "POST",
+    body: { month },
+  });
+}
+
+export async function unlockPeriod(month: string) {
+  await apiJson(`${PERIOD_LOCKS_PATH}/${month}`, { method: "DELETE" });
+}
+
+export function getLockedMonths(locks: PeriodLock[]) {
+  return new Set(locks.filter((lock) => lock.isLocked).map((lock) => lock.month));
+}
+
+export function isDateLocked(lockedMonths: Set<string>, dateKey: string) {
+  return lockedMonths.has(dateKey.slice(0, 7));
+}
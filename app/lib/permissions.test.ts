@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { normalizeMember } from "./members";
+import { getUserRole } from "./permissions";
+
+describe("getUserRole", () => {
+  it("treats a user without a role as read-only", () => {
+    expect(getUserRole({ account: "13800000000" })).toBe("viewer");
+    expect(getUserRole({ account: "13800000000", role: " Admin " })).toBe(
+      "admin",
+    );
+    expect(getUserRole(null)).toBe("viewer");
+  });
+
+  it("parses member roles the same way", () => {
+    const member = normalizeMember({ id: "u-1", account: "13800000000" });
+
+    expect(member?.role).toBe("viewer");
+    expect(member?.role).toBe(getUserRole({ account: "13800000000" }));
+  });
+});
@@ -0,0 +1,90 @@
+import { AuthUser } from "./auth";
+
+export type Role = "owner" | "admin" | "foreman" | "viewer";
+
+export type Permission =
+  | "entry.write"
+  | "entry.copy"
+  | "employee.write"
+  | "project.write"
+  | "settings.manage"
+  | "settlement.view"
+  | "period.lock"
+  | "audit.view"
+  | "members.manage"
+  | "export"
+  | "delete";
+
+export const ROLES: Role[] = ["owner", "admin", "foreman", "viewer"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "老板",
+  admin: "管理员",
+  foreman: "班组长",
+  viewer: "只读",
+};
+
+// 前端仅负责隐藏与禁用入口，接口层由后端按同一矩阵校验。
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    "entry.write",
+    "entry.copy",
+    "employee.write",
+    "project.write",
+    "settings.manage",
+    "settlement.view",
+    "period.lock",
+    "audit.view",
+    "members.manage",
+    "export",
+    "delete",
+  ],
+  admin: [
+    "entry.write",
+    "entry.copy",
+    "employee.write",
+    "project.write",
+    "settings.manage",
+    "settlement.view",
+    "period.lock",
+    "audit.view",
+  ],
+  foreman: ["entry.write"],
+  viewer: [],
+};
+
+// 按前缀匹配，子路由继承父路由的要求；未列出的页面所有角色可见。
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/settings", permission: "settings.manage" },
+  { prefix: "/reports/settlement", permission: "settlement.view" },
+  { prefix: "/audit", permission: "audit.view" },
+  { prefix: "/recycle-bin", permission: "delete" },
+  { prefix: "/members", permission: "members.manage" },
+  { prefix: "/week", permission: "entry.write" },
+];
+
+// 缺少或无法识别的角色一律按只读处理，避免误放开写权限。
+export function parseRole(value: unknown): Role {
+  const role = String(value ?? "").trim().toLowerCase();
+  return (ROLES as string[]).includes(role) ? (role as Role) : "viewer";
+}
+
+export function getUserRole(user: AuthUser | null | undefined): Role {
+  return parseRole(user?.role);
+}
+
+export function hasPermission(role: Role, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getRoutePermission(pathname: string) {
+  return ROUTE_PERMISSIONS.find(
+    (route) =>
+      pathname === route.prefix || pathname.startsWith(`${route.prefix}/`),
+  )?.permission;
+}
+
+export function canAccessRoute(role: Role, pathname: string) {
+  const permission = getRoutePermission(pathname);
+  return !permission || hasPermission(role, permission);
+}
@@ -0,0 +1,213 @@
+import { apiJson } from "./api";
+import { extractList } from "./resources";
+
+export type PieceItem = {
+  id: string;
+  projectId: string;
+  name: string;
+  unit: string;
+  unitPrice: number;
+  workType?: string;
+};
+
+export type PieceItemDraft = {
+  name: string;
+  unit: string;
+  unitPrice: number;
+  workType: string;
+};
+
+export type PieceEntry = {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  pieceItemId: string;
+  itemName: string;
+  unit: string;
+  unitPrice: number;
+  projectId?: string;
+  projectName?: string;
+  date: string;
+  quantity: number;
+  amount: number;
+  remark?: string;
+};
+
+export type PieceEntryDraft = {
+  employeeIds: string[];
+  pieceItemId: string;
+  date: string;
+  quantity: number;
+  remark: string;
+};
+
+export type PieceOutputSummary = {
+  pieceItemId: string;
+  itemName: string;
+  unit: string;
+  quantity: number;
+  amount: number;
+};
+
+export const PIECE_UNITS = ["平方米", "米", "吨", "个", "套"];
+
+export function formatPieceQuantity(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
+
+export function normalizePieceItem(raw: unknown): PieceItem | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const id = String(item.id ?? "");
+  const name = String(item.name ?? "");
+  if (!id || !name) {
+    return null;
+  }
+  const workType = item.work_type ?? item.workType ?? "";
+  return {
+    id,
+    projectId: String(item.project_id ?? item.projectId ?? ""),
+    name,
+    unit: String(item.unit ?? ""),
+    unitPrice: Number(item.unit_price ?? item.unitPrice ?? 0),
+    workType: workType ? String(workType) : undefined,
+  };
+}
+
+// 金额以后端为准，缺省时按数量 × 单价补算。
+export function normalizePieceEntry(raw: unknown): PieceEntry | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const employee = item.employee as { id?: string; name?: string } | undefined;
+  const pieceItem = item.piece_item as Record<string, unknown> | undefined;
+  const id = String(item.id ?? "");
+  const employeeId = String(item.employee_id ?? item.employeeId ?? employee?.id ?? "");
+  const date = String(item.work_date ?? item.workDate ?? item.date ?? "").slice(0, 10);
+  if (!id || !employeeId || !date) {
+    return null;
+  }
+  const quantity = Number(item.quantity ?? 0);
+  const unitPrice = Number(
+    item.unit_price ?? item.unitPrice ?? pieceItem?.unit_price ?? 0,
+  );
+  const amountRaw = item.amount;
+  const projectId = item.project_id ?? item.projectId;
+  const projectName = item.project_name ?? item.projectName;
+  const remark = item.remark ?? "";
+  return {
+    id,
+    employeeId,
+    employeeName: String(item.employee_name ?? item.employeeName ?? employee?.name ?? ""),
+    pieceItemId: String(item.piece_item_id ?? item.pieceItemId ?? pieceItem?.id ?? ""),
+    itemName: String(item.item_name ?? item.itemName ?? pieceItem?.name ?? ""),
+    unit: String(item.unit ?? pieceItem?.unit ?? ""),
+    unitPrice,
+    projectId: projectId ? String(projectId) : undefined,
+    projectName: projectName ? String(projectName) : undefined,
+    date,
+    quantity,
+    amount:
+      amountRaw === undefined || amountRaw === null
+        ? quantity * unitPrice
+        : Number(amountRaw),
+    remark: remark ? String(remark) : undefined,
+  };
+}
+
+export async function fetchPieceItems(projectId: string) {
+  const payload = await apiJson(`/api/projects/${projectId}/piece-items`);
+  return extractList<unknown>(payload)
+    .map(normalizePieceItem)
+    .filter((item): item is PieceItem => Boolean(item));
+}
+
+export async function savePieceItem(
+  projectId: string,
+  draft: PieceItemDraft,
+  itemId?: string,
+) {
+  const body = {
+    project_id: projectId,
+    name: draft.name.trim(),
+    unit: draft.unit.trim(),
+    unit_price: draft.unitPrice,
+    work_type: draft.workType.trim() || null,
+  };
+  if (itemId) {
+    await apiJson(`/api/piece-items/${itemId}`, { method: "PUT", body });
+    return;
+  }
+  await apiJson(`/api/projects/${projectId}/piece-items`, {
+    method: "POST",
+    body,
+  });
+}
+
+export async function deletePieceItem(itemId: string) {
+  await apiJson(`/api/piece-items/${itemId}`, { method: "DELETE" });
+}
+
+export async function fetchPieceEntries(
+  params: {
+    startDate: string;
+    endDate: string;
+    projectId?: string;
+  },
+  signal?: AbortSignal,
+) {
+  const search = new URLSearchParams({
+    start_date: params.startDate,
+    end_date: params.endDate,
+  });
+  if (params.projectId) {
+    search.append("project_id", params.projectId);
+  }
+  const payload = await apiJson(`/api/piece-entries?${search.toString()}`, {
+    signal,
+  });
+  return extractList<unknown>(payload)
+    .map(normalizePieceEntry)
+    .filter((item): item is PieceEntry => Boolean(item));
+}
+
+export async function createPieceEntries(draft: PieceEntryDraft) {
+  await apiJson("/api/piece-entries", {
+    method: "POST",
+    body: {
+      employee_ids: draft.employeeIds,
+      piece_item_id: draft.pieceItemId,
+      work_date: draft.date,
+      quantity: draft.quantity,
+      remark: draft.remark.trim(),
+    },
+  });
+}
+
+export async function deletePieceEntry(entryId: string) {
+  await apiJson(`/api/piece-entries/${entryId}`, { method: "DELETE" });
+}
+
+export async function fetchPieceOutputSummary(
+  params: Record<string, string | undefined>,
+  signal?: AbortSignal,
+) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) {
+      search.append(key, value);
+    }
+  });
+  const query = search.toString();
+  const payload = await apiJson(
+    `/api/piece-entries/summary${query ? `?${query}` : ""}`,
+    { signal },
+  );
+  return extractList<unknown>(payload).map((raw): PieceOutputSummary => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    return {
+      pieceItemId: String(item.piece_item_id ?? item.pieceItemId ?? ""),
+      itemName: String(item.item_name ?? item.itemName ?? ""),
+      unit: String(item.unit ?? ""),
+      quantity: Number(item.quantity ?? 0),
+      amount: Number(item.amount ?? 0),
+    };
+  });
+}
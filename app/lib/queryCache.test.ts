@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CachedQuery,
+  fetchQuery,
+  invalidateQueries,
+  peekQuery,
+  subscribeQuery,
+} from "./queryCache";
+
+function createQuery(key = "/api/employees/options") {
+  let calls = 0;
+  const query: CachedQuery<number> = {
+    key,
+    placeholder: 0,
+    fetch: vi.fn(async () => {
+      calls += 1;
+      return calls;
+    }),
+  };
+  return query;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(2026, 9, 19, 9, 0, 0));
+});
+
+describe("fetchQuery", () => {
+  it("shares one request between concurrent callers", async () => {
+    const query = createQuery();
+
+    const results = await Promise.all([fetchQuery(query), fetchQuery(query)]);
+
+    expect(results).toEqual([1, 1]);
+    expect(query.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reuses fresh data and refetches once it is stale", async () => {
+    const query = createQuery();
+    await fetchQuery(query);
+
+    vi.setSystemTime(new Date(2026, 9, 19, 9, 0, 10));
+    expect(await fetchQuery(query)).toBe(1);
+
+    vi.setSystemTime(new Date(2026, 9, 19, 9, 1, 0));
+    const pending = fetchQuery(query);
+    expect(peekQuery(query)).toBe(1);
+    expect(await pending).toBe(2);
+    expect(peekQuery(query)).toBe(2);
+  });
+});
+
+describe("invalidateQueries", () => {
+  it("refetches watched queries under the path right away", async () => {
+    const query = createQuery();
+    const listener = vi.fn();
+    await fetchQuery(query);
+    const unsubscribe = subscribeQuery(query, listener);
+
+    invalidateQueries("/api/employees");
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+    expect(peekQuery(query)).toBe(2);
+    unsubscribe();
+  });
+
+  it("marks unwatched queries stale without fetching", async () => {
+    const query = createQuery();
+    const other = createQuery("/api/projects/options");
+    await fetchQuery(query);
+    await fetchQuery(other);
+
+    invalidateQueries("/api/employees");
+
+    expect(query.fetch).toHaveBeenCalledTimes(1);
+    expect(await fetchQuery(query)).toBe(2);
+    expect(await fetchQuery(other)).toBe(1);
+  });
+
+  it("drops responses that were in flight before the invalidation", async () => {
+    let resolveFirst!: (value: number) => void;
+    const query: CachedQuery<number> = {
+      key: "/api/projects/options",
+      placeholder: 0,
+      fetch: vi
+        .fn<() => Promise<number>>()
+        .mockImplementationOnce(
+          () => new Promise((resolve) => (resolveFirst = resolve)),
+        )
+        .mockResolvedValue(2),
+    };
+    const first = fetchQuery(query);
+
+    invalidateQueries("/api/projects");
+    const second = fetchQuery(query);
+    resolveFirst(1);
+
+    expect(await first).toBe(1);
+    expect(await second).toBe(2);
+    expect(peekQuery(query)).toBe(2);
+  });
+});
@@ -0,0 +1,103 @@
+import { loadAuthSession } from "./auth";
+
+export type CachedQuery<T> = {
+  // 以接口路径开头，写操作按路径前缀失效。
+  key: string;
+  fetch: () => Promise<T>;
+  // 尚无缓存时返回的占位值，需为模块级常量以保持引用稳定。
+  placeholder: T;
+};
+
+type CacheEntry = {
+  key: string;
+  data?: unknown;
+  updatedAt: number;
+  generation: number;
+  promise?: Promise<unknown>;
+  fetch?: () => Promise<unknown>;
+  listeners: Set<() => void>;
+};
+
+// 在此时间内直接复用缓存；过期后仍先返回旧数据，同时在后台重新请求。
+const STALE_TIME = 30_000;
+
+const cache = new Map<string, CacheEntry>();
+
+// 缓存按公司与账号隔离，切换公司或换号登录后不会读到上一份数据。
+function scopeKey(key: string) {
+  const session = loadAuthSession();
+  const user = session?.user?.id ?? session?.user?.account ?? "";
+  return `${session?.tenant?.id ?? ""}|${user}|${key}`;
+}
+
+function getEntry(key: string) {
+  const scoped = scopeKey(key);
+  let entry = cache.get(scoped);
+  if (!entry) {
+    entry = { key, updatedAt: 0, generation: 0, listeners: new Set() };
+    cache.set(scoped, entry);
+  }
+  return entry;
+}
+
+// 同一查询并发请求时共用一次网络请求；失效后发起的新请求会覆盖旧结果。
+function revalidate(entry: CacheEntry, fetcher: () => Promise<unknown>) {
+  entry.fetch = fetcher;
+  if (!entry.promise) {
+    const generation = entry.generation;
+    entry.promise = fetcher()
+      .then((data) => {
+        if (entry.generation === generation) {
+          entry.data = data;
+          entry.updatedAt = Date.now();
+          entry.listeners.forEach((listener) => listener());
+        }
+        return data;
+      })
+      .finally(() => {
+        if (entry.generation === generation) {
+          entry.promise = undefined;
+        }
+      });
+  }
+  return entry.promise;
+}
+
+export function fetchQuery<T>(query: CachedQuery<T>) {
+  const entry = getEntry(query.key);
+  if (entry.data !== undefined && Date.now() - entry.updatedAt < STALE_TIME) {
+    return Promise.resolve(entry.data as T);
+  }
+  return revalidate(entry, query.fetch) as Promise<T>;
+}
+
+export function peekQuery<T>(query: CachedQuery<T>) {
+  return cache.get(scopeKey(query.key))?.data as T | undefined;
+}
+
+export function subscribeQuery<T>(query: CachedQuery<T>, listener: () => void) {
+  const entry = getEntry(query.key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+// 写操作成功后调用：正在展示的查询立即后台刷新，其余的下次读取时重新请求。
+export function invalidateQueries(prefix: string) {
+  cache.forEach((entry) => {
+    if (!entry.key.startsWith(prefix)) {
+      return;
+    }
+    entry.generation += 1;
+    entry.updatedAt = 0;
+    entry.promise = undefined;
+    if (entry.listeners.size > 0 && entry.fetch) {
+      revalidate(entry, entry.fetch).catch((error) => console.error(error));
+    }
+  });
+}
+
+export function clearQueryCache() {
+  cache.clear();
+}
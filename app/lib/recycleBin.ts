@@ -0,0 +1,88 @@
+import { apiJson } from "./api";
+import { AUDIT_ENTITY_LABELS, AuditEntityType } from "./auditLogs";
+import { invalidateQueries } from "./queryCache";
+import { extractList } from "./resources";
+
+// 删除均为软删除，保留期内可在回收站恢复，过期后由后端清理。
+export const RECYCLE_RETENTION_DAYS = 30;
+
+export type DeletedRecord = {
+  id: string;
+  entityType: AuditEntityType;
+  label: string;
+  deletedBy?: string;
+  deletedAt: string;
+  expiresAt: string;
+};
+
+const RESOURCE_PATHS: Record<AuditEntityType, string> = {
+  time_entry: "/api/time-entries",
+  employee: "/api/employees",
+  project: "/api/projects",
+};
+
+function addDays(value: string, days: number) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+}
+
+export function normalizeDeletedRecord(raw: unknown): DeletedRecord | null {
+  const item = (raw ?? {}) as Record<string, unknown>;
+  const id = String(item.entity_id ?? item.entityId ?? item.id ?? "");
+  const entityType = String(item.entity_type ?? item.entityType ?? "");
+  if (!id || !(entityType in AUDIT_ENTITY_LABELS)) {
+    return null;
+  }
+  const deletedAt = String(item.deleted_at ?? item.deletedAt ?? "");
+  const deletedBy = item.deleted_by_name ?? item.deleted_by ?? item.deletedBy;
+  const expiresAt = item.expires_at ?? item.expiresAt;
+  return {
+    id,
+    entityType: entityType as AuditEntityType,
+    label: String(item.label ?? item.name ?? id),
+    deletedBy: deletedBy ? String(deletedBy) : undefined,
+    deletedAt,
+    expiresAt: expiresAt
+      ? String(expiresAt)
+      : addDays(deletedAt, RECYCLE_RETENTION_DAYS),
+  };
+}
+
+export async function fetchDeletedRecords(
+  entityType?: string,
+  signal?: AbortSignal,
+) {
+  const query = entityType
+    ? `?${new URLSearchParams({ entity_type: entityType }).toString()}`
+    : "";
+  const payload = await apiJson(`/api/recycle-bin${query}`, { signal });
+  const list = extractList<unknown>(payload);
+  return list
+    .map(normalizeDeletedRecord)
+    .filter((item): item is DeletedRecord => Boolean(item));
+}
+
+export async function restoreDeletedRecord(
+  entityType: AuditEntityType,
+  id: string,
+) {
+  await apiJson(`${RESOURCE_PATHS[entityType]}/${id}/restore`, {
+    method: "POST",
+  });
+  invalidateQueries(RESOURCE_PATHS[entityType]);
+}
+
+export function getRemainingDays(expiresAt: string, now = new Date()) {
+  const expires = new Date(expiresAt);
+  if (Number.isNaN(expires.getTime())) {
+    return null;
+  }
+  return Math.max(
+    0,
+    Math.ceil((expires.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+  );
+}
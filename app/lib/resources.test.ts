@@ -0,0 +1,384 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildQuery,
+  extractList,
+  extractPagedMeta,
+  normalizeBulkResult,
+  normalizeDailySummary,
+  normalizeEmployee,
+  normalizeEmployeeWorkUnits,
+  normalizeProject,
+  normalizeProjectWorkUnits,
+  normalizeSkippedTimeEntry,
+  normalizeTags,
+  normalizeTagWorkUnits,
+  normalizeTimeEntry,
+  normalizeWorkTypeCount,
+  normalizeWorkTypeWorkUnits,
+} from "./resources";
+
+describe("buildQuery", () => {
+  it("skips empty values and keeps zero and false", () => {
+    expect(
+      buildQuery({ keyword: "", page: 0, active: false, type: undefined }),
+    ).toBe("?page=0&active=false");
+  });
+
+  it("returns an empty string when nothing is set", () => {
+    expect(buildQuery({ keyword: "" })).toBe("");
+  });
+});
+
+describe("extractList", () => {
+  it("reads every list envelope the backend uses", () => {
+    expect(extractList([1])).toEqual([1]);
+    expect(extractList({ data: [2] })).toEqual([2]);
+    expect(extractList({ data: { items: [3] } })).toEqual([3]);
+    expect(extractList({ data: { list: [4] } })).toEqual([4]);
+    expect(extractList({ data: { total: 0 } })).toEqual([]);
+    expect(extractList(null)).toEqual([]);
+  });
+});
+
+describe("extractPagedMeta", () => {
+  it("reads snake and camel page sizes", () => {
+    expect(
+      extractPagedMeta({ data: { total: 31, page: 2, page_size: 10 } }),
+    ).toEqual({ total: 31, page: 2, pageSize: 10 });
+    expect(extractPagedMeta({ data: { total: 5, pageSize: 20 } })).toEqual({
+      total: 5,
+      page: 1,
+      pageSize: 20,
+    });
+  });
+
+  it("falls back to the given page size", () => {
+    expect(extractPagedMeta({ data: [] }, 50)).toEqual({
+      total: 0,
+      page: 1,
+      pageSize: 50,
+    });
+  });
+});
+
+describe("normalizeTags", () => {
+  it("splits on Chinese commas, commas and pipes", () => {
+    expect(normalizeTags("老员工，夜班,带班|老员工")).toEqual([
+      "老员工",
+      "夜班",
+      "带班",
+    ]);
+  });
+
+  it("trims array items and drops non-text values", () => {
+    expect(normalizeTags([" 焊工 ", "", null, { name: "x" }, 3])).toEqual([
+      "焊工",
+      "3",
+    ]);
+  });
+
+  it("returns an empty list for missing tags", () => {
+    expect(normalizeTags(undefined)).toEqual([]);
+  });
+});
+
+describe("normalizeEmployee", () => {
+  it("maps the full snake_case payload", () => {
+    expect(
+      normalizeEmployee({
+        id: 7,
+        name: "张建国",
+        type: "临时工",
+        work_type: "钢筋工",
+        phone_number: "13800000000",
+        id_card_number: "110101199001011234",
+        remark: "自带工具",
+        tags: "班长,老员工",
+        daily_rate: "350",
+        overtime_rate: null,
+        ledger_balance: "-200",
+        created_at: "2026-03-01T08:00:00Z",
+      }),
+    ).toEqual({
+      id: "7",
+      name: "张建国",
+      type: "临时工",
+      workType: "钢筋工",
+      phone: "13800000000",
+      idCardNumber: "110101199001011234",
+      remark: "自带工具",
+      tags: ["班长", "老员工"],
+      dailyRate: 350,
+      overtimeRate: null,
+      ledgerBalance: -200,
+      createdAt: "2026-03-01T08:00:00Z",
+    });
+  });
+
+  it("reads employee_type and employee_name when type and name are absent", () => {
+    const employee = normalizeEmployee({
+      id: "e1",
+      employee_name: "李四",
+      employee_type: "临时工",
+    });
+    expect(employee?.name).toBe("李四");
+    expect(employee?.type).toBe("临时工");
+  });
+
+  it("defaults unknown types to 正式工 and missing fields to empty values", () => {
+    expect(normalizeEmployee({ id: "e2", name: "王五", type: "外包" })).toMatchObject({
+      type: "正式工",
+      workType: "",
+      tags: [],
+      dailyRate: null,
+      ledgerBalance: 0,
+    });
+  });
+
+  it("rejects records without id or name", () => {
+    expect(normalizeEmployee({ id: "e3" })).toBeNull();
+    expect(normalizeEmployee({ name: "赵六" })).toBeNull();
+  });
+});
+
+describe("normalizeProject", () => {
+  it("maps planned dates from either casing", () => {
+    expect(
+      normalizeProject({
+        id: 3,
+        name: "滨江花园二期",
+        code: "BJ-02",
+        status: "pending",
+        planned_start_date: "2026-04-01",
+        plannedEndDate: "2026-12-31",
+      }),
+    ).toEqual({
+      id: "3",
+      name: "滨江花园二期",
+      code: "BJ-02",
+      status: "pending",
+      plannedStartDate: "2026-04-01",
+      plannedEndDate: "2026-12-31",
+      remark: "",
+      createdAt: "",
+    });
+  });
+
+  it("falls back to active for unknown status and reads project_name", () => {
+    expect(
+      normalizeProject({ id: "p1", project_name: "市政道路", status: "archived" }),
+    ).toMatchObject({ name: "市政道路", status: "active", code: undefined });
+  });
+
+  it("rejects records without id or name", () => {
+    expect(normalizeProject({ id: "p2" })).toBeNull();
+  });
+});
+
+describe("normalizeTimeEntry", () => {
+  it("maps flat fields and trims clock times", () => {
+    expect(
+      normalizeTimeEntry({
+        id: 11,
+        employee_id: 7,
+        employee_name: "张建国",
+        employee_type: "临时工",
+        work_type: "钢筋工",
+        project_id: 3,
+        project_name: "滨江花园二期",
+        work_date: "2026-10-18T00:00:00",
+        normal_hours: "8",
+        overtime_hours: 2,
+        start_time: "07:30:00",
+        end_time: "18:30:00",
+        break_minutes: 60,
+        work_units: 1.25,
+        remark: "浇筑",
+      }),
+    ).toEqual({
+      id: "11",
+      employeeId: "7",
+      employeeName: "张建国",
+      employeeType: "临时工",
+      workType: "钢筋工",
+      projectId: "3",
+      projectName: "滨江花园二期",
+      date: "2026-10-18",
+      normalHours: 8,
+      overtimeHours: 2,
+      totalHours: 10,
+      workUnits: 1.25,
+      startTime: "07:30",
+      endTime: "18:30",
+      breakMinutes: 60,
+      remark: "浇筑",
+      createdAt: "",
+    });
+  });
+
+  it("falls back to nested employee and project objects", () => {
+    expect(
+      normalizeTimeEntry({
+        id: "t2",
+        date: "2026-10-18",
+        employee: { id: "e9", name: "孙七", type: "临时工", work_type: "木工" },
+        project: { id: "p5", name: "学校扩建" },
+      }),
+    ).toMatchObject({
+      employeeId: "e9",
+      employeeName: "孙七",
+      employeeType: "临时工",
+      workType: "木工",
+      projectId: "p5",
+      projectName: "学校扩建",
+      workUnits: null,
+      breakMinutes: undefined,
+    });
+  });
+
+  it("reads employee tags from the entry or the nested employee", () => {
+    expect(
+      normalizeTimeEntry({
+        id: "t5",
+        employee_id: "e1",
+        work_date: "2026-10-18",
+        employee_tags: "班组长|老员工",
+      })?.employeeTags,
+    ).toEqual(["班组长", "老员工"]);
+    expect(
+      normalizeTimeEntry({
+        id: "t6",
+        date: "2026-10-18",
+        employee: { id: "e2", name: "李四", tags: ["新人"] },
+      })?.employeeTags,
+    ).toEqual(["新人"]);
+  });
+
+  it("rejects entries without employee or date", () => {
+    expect(normalizeTimeEntry({ id: "t3", work_date: "2026-10-18" })).toBeNull();
+    expect(normalizeTimeEntry({ id: "t4", employee_id: "e1" })).toBeNull();
+  });
+});
+
+describe("normalizeSkippedTimeEntry", () => {
+  it("reads the existing entry from any casing and fills its employee and date", () => {
+    const skipped = normalizeSkippedTimeEntry({
+      employeeId: "e1",
+      workDate: "2026-10-18",
+      existingEntry: { id: "t1", normalHours: 8, overtimeHours: 2 },
+    });
+
+    expect(skipped?.employeeId).toBe("e1");
+    expect(skipped?.existing).toMatchObject({
+      id: "t1",
+      employeeId: "e1",
+      date: "2026-10-18",
+      normalHours: 8,
+      overtimeHours: 2,
+    });
+  });
+
+  it("takes the existing id from existing_entry_id", () => {
+    const skipped = normalizeSkippedTimeEntry({
+      employee_id: "e1",
+      work_date: "2026-10-18",
+      existing_entry_id: "t2",
+      existing_entry: { normal_hours: 4 },
+    });
+
+    expect(skipped?.existing?.id).toBe("t2");
+    expect(skipped?.existing?.normalHours).toBe(4);
+  });
+
+  it("keeps skipped rows without an existing entry and rejects rows without a date", () => {
+    expect(
+      normalizeSkippedTimeEntry({ employee_id: "e1", work_date: "2026-10-18" })
+        ?.existing,
+    ).toBeNull();
+    expect(normalizeSkippedTimeEntry({ employee_id: "e1" })).toBeNull();
+  });
+});
+
+describe("normalizeBulkResult", () => {
+  it("treats failed statuses and success false as failures", () => {
+    expect(normalizeBulkResult({ client_key: "a", success: true })).toEqual({
+      key: "a",
+      success: true,
+      message: undefined,
+    });
+    expect(
+      normalizeBulkResult({ clientKey: "b", status: "error", error: "已锁定" }),
+    ).toEqual({ key: "b", success: false, message: "已锁定" });
+    expect(normalizeBulkResult({ success: false })).toBeNull();
+  });
+});
+
+describe("normalizeDailySummary", () => {
+  it("keeps missing work units as null and derives total hours", () => {
+    expect(
+      normalizeDailySummary({
+        work_date: "2026-10-01",
+        headcount: 4,
+        normal_hours: 32,
+        overtime_hours: 6,
+      }),
+    ).toEqual({
+      date: "2026-10-01",
+      headcount: 4,
+      normalHours: 32,
+      overtimeHours: 6,
+      totalHours: 38,
+      totalWorkUnits: null,
+    });
+  });
+
+  it("rejects rows without a date", () => {
+    expect(normalizeDailySummary({ total_hours: 8 })).toBeNull();
+  });
+});
+
+describe("normalizeWorkTypeCount", () => {
+  it("reads counts from either casing and drops blank work types", () => {
+    expect(normalizeWorkTypeCount({ work_type: "钢筋工", count: "12" })).toEqual({
+      workType: "钢筋工",
+      count: 12,
+    });
+    expect(normalizeWorkTypeCount({ workType: "木工", total: 3 })).toEqual({
+      workType: "木工",
+      count: 3,
+    });
+    expect(normalizeWorkTypeCount({ work_type: "", count: 4 })).toBeNull();
+  });
+});
+
+describe("work unit summaries", () => {
+  it("groups entries without a project as unassigned", () => {
+    expect(normalizeProjectWorkUnits({ work_units: 2.5 })).toEqual({
+      id: "unassigned",
+      name: "未关联项目",
+      workUnits: 2.5,
+    });
+  });
+
+  it("requires an employee id and name", () => {
+    expect(normalizeEmployeeWorkUnits({ employee_id: "e1" })).toBeNull();
+    expect(
+      normalizeEmployeeWorkUnits({
+        employeeId: "e1",
+        employeeName: "张建国",
+        workUnits: "3",
+      }),
+    ).toEqual({ id: "e1", name: "张建国", workUnits: 3 });
+  });
+
+  it("labels blank work types and tags", () => {
+    expect(normalizeWorkTypeWorkUnits({ work_type: "", work_units: 1 })).toEqual({
+      id: "未设置工种",
+      name: "未设置工种",
+      workUnits: 1,
+    });
+    expect(normalizeTagWorkUnits({ tag: null, work_units: 1 })?.name).toBe(
+      "未设置标签",
+    );
+  });
+});
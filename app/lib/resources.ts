@@ -0,0 +1,995 @@
+import { apiBlob, apiJson } from "./api";
+import { CachedQuery, fetchQuery, invalidateQueries } from "./queryCache";
+
+export type EmployeeType = "正式工" | "临时工";
+
+export const EMPLOYEE_TYPES: EmployeeType[] = ["正式工", "临时工"];
+
+export type Employee = {
+  id: string;
+  name: string;
+  type: EmployeeType;
+  workType: string;
+  phone: string;
+  idCardNumber: string;
+  remark: string;
+  tags: string[];
+  dailyRate: number | null;
+  overtimeRate: number | null;
+  ledgerBalance: number;
+  createdAt: string;
+};
+
+export type EmployeeDraft = {
+  name: string;
+  type: EmployeeType;
+  workType: string;
+  phone: string;
+  idCardNumber: string;
+  remark: string;
+  tags: string[];
+  dailyRate: number | null;
+  overtimeRate: number | null;
+};
+
+export type ProjectStatus = "active" | "pending" | "completed";
+
+export type Project = {
+  id: string;
+  name: string;
+  code?: string;
+  status: ProjectStatus;
+  plannedStartDate?: string;
+  plannedEndDate?: string;
+  remark: string;
+  createdAt: string;
+};
+
+export type ProjectDraft = {
+  name: string;
+  code: string;
+  status: ProjectStatus;
+  plannedStartDate: string;
+  plannedEndDate: string;
+  remark: string;
+};
+
+export type TimeEntry = {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  employeeType: EmployeeType;
+  // 列表中随记录返回员工标签，不再依赖前端持有全部员工。
+  employeeTags?: string[];
+  workType: string;
+  projectId?: string;
+  projectName?: string;
+  date: string;
+  normalHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  // 后端未返回折算工数时为 null，由调用方按记工规则补算。
+  workUnits: number | null;
+  startTime?: string;
+  endTime?: string;
+  breakMinutes?: number;
+  remark: string;
+  createdAt: string;
+};
+
+export type TimeEntryDraft = {
+  employeeId: string;
+  projectId?: string;
+  date: string;
+  normalHours: number;
+  overtimeHours: number;
+  startTime?: string;
+  endTime?: string;
+  breakMinutes?: number;
+  remark: string;
+};
+
+// 批量记工：员工与日期两两组合各建一条；allowSplit 时仅同项目已有记录才跳过。
+export type TimeEntryBatchDraft = Omit<
+  TimeEntryDraft,
+  "employeeId" | "date"
+> & {
+  employeeIds: string[];
+  dates: string[];
+  allowSplit?: boolean;
+};
+
+export type SkippedTimeEntry = {
+  employeeId: string;
+  employeeName: string;
+  date: string;
+  existing: TimeEntry | null;
+};
+
+export type TimeEntryBatchResult = {
+  created: number;
+  skipped: number;
+  skippedItems: SkippedTimeEntry[];
+};
+
+// 按周录入的批量保存，key 用于把逐条结果对应回表格单元格。
+export type TimeEntryBulkChanges = {
+  create: Array<{
+    key: string;
+    employeeId: string;
+    date: string;
+    projectId?: string;
+    normalHours: number;
+    overtimeHours: number;
+  }>;
+  update: Array<{
+    key: string;
+    id: string;
+    normalHours: number;
+    overtimeHours: number;
+  }>;
+  delete: Array<{ key: string; id: string }>;
+};
+
+export type TimeEntryBulkResult = {
+  key: string;
+  success: boolean;
+  message?: string;
+};
+
+export type DailySummary = {
+  date: string;
+  headcount: number;
+  normalHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  totalWorkUnits: number | null;
+};
+
+export type WorkTypeCount = {
+  workType: string;
+  count: number;
+};
+
+export type WorkUnitSummary = {
+  id: string;
+  name: string;
+  workUnits: number;
+};
+
+export type PagedResult<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type EmployeeQuery = {
+  keyword?: string;
+  type?: EmployeeType | "";
+  tag?: string;
+  workType?: string;
+  // 班组长只能看到本班组员工，由后端按班组过滤。
+  crewIds?: string[];
+  page?: number;
+  pageSize?: number;
+};
+
+export type EmployeeIdQuery = Pick<
+  EmployeeQuery,
+  "keyword" | "type" | "workType" | "crewIds"
+>;
+
+export type ProjectQuery = {
+  keyword?: string;
+  status?: ProjectStatus | "";
+  page?: number;
+  pageSize?: number;
+};
+
+export type TimeEntryQuery = {
+  date?: string;
+  startDate?: string;
+  endDate?: string;
+  employeeId?: string;
+  employeeType?: EmployeeType | "";
+  workType?: string;
+  projectId?: string;
+  page?: number;
+  pageSize?: number;
+  sort?: string;
+};
+
+export type TimeEntryExportQuery = {
+  startDate: string;
+  endDate: string;
+  workType?: string;
+  projectId?: string;
+};
+
+export type SummaryQuery = {
+  month: string;
+  employeeId?: string;
+  employeeType?: EmployeeType | "";
+  workType?: string;
+  projectId?: string;
+};
+
+type QueryValue = string | number | boolean | undefined;
+
+// 下拉选项等一次性全量加载的场景统一使用该上限。
+export const OPTION_PAGE_SIZE = 200;
+
+const DEFAULT_PAGE_SIZE = 15;
+
+export function buildQuery(params: Record<string, QueryValue>) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === "") {
+      return;
+    }
+    search.append(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+export function extractList<T>(payload: unknown): T[] {
+  if (!payload) {
+    return [];
+  }
+  if (Array.isArray(payload)) {
+    return payload as T[];
+  }
+  const data = (payload as { data?: unknown }).data ?? payload;
+  if (Array.isArray(data)) {
+    return data as T[];
+  }
+  if (data && typeof data === "object") {
+    const items = (data as { items?: T[] }).items;
+    if (Array.isArray(items)) {
+      return items;
+    }
+    const list = (data as { list?: T[] }).list;
+    if (Array.isArray(list)) {
+      return list;
+    }
+  }
+  return [];
+}
+
+export function extractPagedMeta(
+  payload: unknown,
+  defaultPageSize = DEFAULT_PAGE_SIZE,
+) {
+  const data = (payload as { data?: unknown } | null)?.data ?? payload;
+  if (data && typeof data === "object") {
+    const meta = data as {
+      total?: number;
+      page?: number;
+      page_size?: number;
+      pageSize?: number;
+    };
+    return {
+      total: Number(meta.total ?? 0),
+      page: Number(meta.page ?? 1),
+      pageSize: Number(meta.page_size ?? meta.pageSize ?? defaultPageSize),
+    };
+  }
+  return { total: 0, page: 1, pageSize: defaultPageSize };
+}
+
+function toText(value: unknown) {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+function toOptionalText(value: unknown) {
+  const text = toText(value);
+  return text ? text : undefined;
+}
+
+function toOptionalNumber(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function normalizeList<T>(
+  payload: unknown,
+  normalize: (item: Record<string, unknown>) => T | null,
+) {
+  return extractList<Record<string, unknown>>(payload)
+    .map(normalize)
+    .filter((item): item is T => Boolean(item));
+}
+
+function toPagedResult<T>(
+  payload: unknown,
+  normalize: (item: Record<string, unknown>) => T | null,
+  pageSize?: number,
+): PagedResult<T> {
+  return {
+    ...extractPagedMeta(payload, pageSize),
+    items: normalizeList(payload, normalize),
+  };
+}
+
+// 标签可能是数组，也可能是用中英文逗号或竖线拼接的字符串。
+export function normalizeTags(raw: unknown): string[] {
+  const values = Array.isArray(raw)
+    ? raw
+    : typeof raw === "string"
+      ? raw.split(/[，,|]/)
+      : [];
+  return Array.from(
+    new Set(
+      values
+        .filter((item) => typeof item === "string" || typeof item === "number")
+        .map((item) => String(item).trim())
+        .filter(Boolean),
+    ),
+  );
+}
+
+export function normalizeEmployeeType(raw: unknown): EmployeeType {
+  return raw === "临时工" ? "临时工" : "正式工";
+}
+
+export function normalizeEmployee(
+  item: Record<string, unknown>,
+): Employee | null {
+  const id = toText(item.id ?? item.employee_id);
+  const name = toText(item.name ?? item.employee_name);
+  if (!id || !name) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    type: normalizeEmployeeType(
+      item.type ?? item.employee_type ?? item.employeeType,
+    ),
+    workType: toText(item.work_type ?? item.workType ?? item.employee_work_type),
+    phone: toText(item.phone ?? item.phone_number ?? item.mobile),
+    idCardNumber: toText(
+      item.id_card_number ?? item.idCardNumber ?? item.id_card,
+    ),
+    remark: toText(item.remark ?? item.notes),
+    tags: normalizeTags(item.tags ?? item.tag ?? item.labels ?? item.label),
+    dailyRate: toOptionalNumber(item.daily_rate ?? item.dailyRate),
+    overtimeRate: toOptionalNumber(item.overtime_rate ?? item.overtimeRate),
+    ledgerBalance: Number(item.ledger_balance ?? item.ledgerBalance ?? 0),
+    createdAt: toText(item.created_at ?? item.createdAt),
+  };
+}
+
+export function normalizeProjectStatus(raw: unknown): ProjectStatus {
+  return raw === "pending" || raw === "completed" ? raw : "active";
+}
+
+export function normalizeProject(item: Record<string, unknown>): Project | null {
+  const id = toText(item.id ?? item.project_id);
+  const name = toText(item.name ?? item.project_name);
+  if (!id || !name) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    code: toOptionalText(item.code),
+    status: normalizeProjectStatus(item.status),
+    plannedStartDate: toOptionalText(
+      item.planned_start_date ?? item.plannedStartDate,
+    ),
+    plannedEndDate: toOptionalText(item.planned_end_date ?? item.plannedEndDate),
+    remark: toText(item.remark ?? item.notes),
+    createdAt: toText(item.created_at ?? item.createdAt),
+  };
+}
+
+export function normalizeTimeEntry(
+  item: Record<string, unknown>,
+): TimeEntry | null {
+  const employee = item.employee as Record<string, unknown> | undefined;
+  const project = item.project as Record<string, unknown> | undefined;
+  const id = toText(item.id);
+  const employeeId = toText(
+    item.employee_id ?? item.employeeId ?? employee?.id,
+  );
+  const date = toText(item.work_date ?? item.workDate ?? item.date).slice(0, 10);
+  if (!id || !employeeId || !date) {
+    return null;
+  }
+  const normalHours = Number(item.normal_hours ?? item.normalHours ?? 0);
+  const overtimeHours = Number(item.overtime_hours ?? item.overtimeHours ?? 0);
+  const startTime = toOptionalText(item.start_time ?? item.startTime);
+  const endTime = toOptionalText(item.end_time ?? item.endTime);
+  const breakMinutes = toOptionalNumber(item.break_minutes ?? item.breakMinutes);
+  const employeeTags = item.employee_tags ?? item.employeeTags ?? employee?.tags;
+  return {
+    id,
+    employeeId,
+    employeeName: toText(
+      item.employee_name ?? item.employeeName ?? employee?.name,
+    ),
+    employeeType: normalizeEmployeeType(
+      item.employee_type ??
+        item.employeeType ??
+        employee?.type ??
+        employee?.employee_type,
+    ),
+    employeeTags:
+      employeeTags === undefined ? undefined : normalizeTags(employeeTags),
+    workType: toText(
+      item.work_type ??
+        item.workType ??
+        item.employee_work_type ??
+        employee?.work_type,
+    ),
+    projectId: toOptionalText(item.project_id ?? item.projectId ?? project?.id),
+    projectName: toOptionalText(
+      item.project_name ?? item.projectName ?? project?.name,
+    ),
+    date,
+    normalHours,
+    overtimeHours,
+    totalHours: Number(
+      item.total_hours ?? item.totalHours ?? normalHours + overtimeHours,
+    ),
+    workUnits: toOptionalNumber(item.work_units ?? item.workUnits),
+    startTime: startTime?.slice(0, 5),
+    endTime: endTime?.slice(0, 5),
+    breakMinutes: breakMinutes ?? undefined,
+    remark: toText(item.remark ?? item.notes ?? item.note),
+    createdAt: toText(item.created_at ?? item.createdAt),
+  };
+}
+
+// 被跳过的记录可能只带已有记录的 ID，员工与日期缺失时沿用跳过项本身的字段。
+export function normalizeSkippedTimeEntry(
+  item: Record<string, unknown>,
+): SkippedTimeEntry | null {
+  const employeeId = toText(item.employee_id ?? item.employeeId);
+  const date = toText(item.work_date ?? item.workDate ?? item.date).slice(0, 10);
+  if (!employeeId || !date) {
+    return null;
+  }
+  const existingRaw = (item.existing ??
+    item.existing_entry ??
+    item.existingEntry ??
+    null) as Record<string, unknown> | null;
+  const existingId =
+    existingRaw?.id ?? item.existing_entry_id ?? item.existingEntryId;
+  return {
+    employeeId,
+    employeeName: toText(item.employee_name ?? item.employeeName),
+    date,
+    existing: existingRaw
+      ? normalizeTimeEntry({
+          employee_id: employeeId,
+          work_date: date,
+          ...existingRaw,
+          id: existingId,
+        })
+      : null,
+  };
+}
+
+export function normalizeBulkResult(
+  item: Record<string, unknown>,
+): TimeEntryBulkResult | null {
+  const key = toText(item.client_key ?? item.clientKey ?? item.key);
+  if (!key) {
+    return null;
+  }
+  const message = toText(item.message ?? item.error);
+  return {
+    key,
+    success: !(
+      item.success === false ||
+      item.status === "failed" ||
+      item.status === "error"
+    ),
+    message: message || undefined,
+  };
+}
+
+export function normalizeWorkTypeCount(
+  item: Record<string, unknown>,
+): WorkTypeCount | null {
+  const workType = toText(item.work_type ?? item.workType ?? item.name);
+  if (!workType) {
+    return null;
+  }
+  return { workType, count: Number(item.count ?? item.total ?? 0) || 0 };
+}
+
+export function normalizeDailySummary(
+  item: Record<string, unknown>,
+): DailySummary | null {
+  const date = toText(item.date ?? item.work_date).slice(0, 10);
+  if (!date) {
+    return null;
+  }
+  const normalHours = Number(item.normal_hours ?? item.normalHours ?? 0);
+  const overtimeHours = Number(item.overtime_hours ?? item.overtimeHours ?? 0);
+  return {
+    date,
+    headcount: Number(item.headcount ?? item.headCount ?? 0),
+    normalHours,
+    overtimeHours,
+    totalHours: Number(
+      item.total_hours ?? item.totalHours ?? normalHours + overtimeHours,
+    ),
+    totalWorkUnits: toOptionalNumber(
+      item.total_work_units ?? item.totalWorkUnits,
+    ),
+  };
+}
+
+function toWorkUnits(item: Record<string, unknown>) {
+  return Number(item.work_units ?? item.workUnits ?? 0);
+}
+
+export function normalizeProjectWorkUnits(
+  item: Record<string, unknown>,
+): WorkUnitSummary | null {
+  const projectId = toText(item.project_id ?? item.projectId);
+  return {
+    id: projectId || "unassigned",
+    name: toText(item.project_name ?? item.projectName) || "未关联项目",
+    workUnits: toWorkUnits(item),
+  };
+}
+
+export function normalizeEmployeeWorkUnits(
+  item: Record<string, unknown>,
+): WorkUnitSummary | null {
+  const employeeId = toText(item.employee_id ?? item.employeeId);
+  const employeeName = toText(item.employee_name ?? item.employeeName);
+  if (!employeeId || !employeeName) {
+    return null;
+  }
+  return { id: employeeId, name: employeeName, workUnits: toWorkUnits(item) };
+}
+
+export function normalizeWorkTypeWorkUnits(
+  item: Record<string, unknown>,
+): WorkUnitSummary | null {
+  const workType = toText(item.work_type ?? item.workType) || "未设置工种";
+  return { id: workType, name: workType, workUnits: toWorkUnits(item) };
+}
+
+export function normalizeTagWorkUnits(
+  item: Record<string, unknown>,
+): WorkUnitSummary | null {
+  const tag = toText(item.tag) || "未设置标签";
+  return { id: tag, name: tag, workUnits: toWorkUnits(item) };
+}
+
+function toEmployeeBody(draft: EmployeeDraft) {
+  return {
+    name: draft.name,
+    type: draft.type,
+    work_type: draft.workType,
+    phone: draft.phone || null,
+    id_card_number: draft.idCardNumber || null,
+    remark: draft.remark,
+    tags: draft.tags,
+    daily_rate: draft.dailyRate,
+    overtime_rate: draft.overtimeRate,
+  };
+}
+
+function toProjectBody(draft: ProjectDraft) {
+  return {
+    name: draft.name,
+    code: draft.code || null,
+    status: draft.status,
+    planned_start_date: draft.plannedStartDate || null,
+    planned_end_date: draft.plannedEndDate || null,
+    remark: draft.remark,
+  };
+}
+
+function toTimeEntryBody(draft: TimeEntryDraft) {
+  return {
+    employee_id: draft.employeeId,
+    project_id: draft.projectId || null,
+    work_date: draft.date,
+    normal_hours: draft.normalHours,
+    overtime_hours: draft.overtimeHours,
+    start_time: draft.startTime ?? null,
+    end_time: draft.endTime ?? null,
+    break_minutes: draft.breakMinutes ?? null,
+    remark: draft.remark,
+  };
+}
+
+function toTimeEntryBatchBody(draft: TimeEntryBatchDraft) {
+  return {
+    employee_ids: draft.employeeIds,
+    work_dates: draft.dates,
+    project_id: draft.projectId || null,
+    normal_hours: draft.normalHours,
+    overtime_hours: draft.overtimeHours,
+    start_time: draft.startTime ?? null,
+    end_time: draft.endTime ?? null,
+    break_minutes: draft.breakMinutes ?? null,
+    remark: draft.remark,
+    allow_split: draft.allowSplit ?? false,
+  };
+}
+
+function toTimeEntryBulkBody(changes: TimeEntryBulkChanges) {
+  return {
+    create: changes.create.map((item) => ({
+      client_key: item.key,
+      employee_id: item.employeeId,
+      work_date: item.date,
+      project_id: item.projectId || null,
+      normal_hours: item.normalHours,
+      overtime_hours: item.overtimeHours,
+    })),
+    update: changes.update.map((item) => ({
+      client_key: item.key,
+      id: item.id,
+      normal_hours: item.normalHours,
+      overtime_hours: item.overtimeHours,
+    })),
+    delete: changes.delete.map((item) => ({
+      client_key: item.key,
+      id: item.id,
+    })),
+  };
+}
+
+function toSummaryParams(query: SummaryQuery) {
+  return {
+    month: query.month,
+    employee_id: query.employeeId || undefined,
+    employee_type: query.employeeType || undefined,
+    work_type: query.workType || undefined,
+    project_id: query.projectId || undefined,
+  };
+}
+
+async function fetchWorkUnits(
+  path: string,
+  query: SummaryQuery,
+  normalize: (item: Record<string, unknown>) => WorkUnitSummary | null,
+  signal?: AbortSignal,
+) {
+  const payload = await apiJson(`${path}${buildQuery(toSummaryParams(query))}`, {
+    signal,
+  });
+  return normalizeList(payload, normalize);
+}
+
+const NO_EMPLOYEES: Employee[] = [];
+const NO_PROJECTS: Project[] = [];
+const NO_WORK_TYPES: WorkTypeCount[] = [];
+
+// 下拉与考勤表需要完整列表，超过单页上限时继续翻页直到取完。
+async function fetchAllPages<T>(
+  listPage: (page: number) => Promise<PagedResult<T>>,
+) {
+  const items: T[] = [];
+  for (let page = 1; ; page += 1) {
+    const result = await listPage(page);
+    items.push(...result.items);
+    if (result.items.length === 0 || items.length >= result.total) {
+      return items;
+    }
+  }
+}
+
+// 各页面的员工、项目下拉共用同一份缓存，切换页面时不再重复请求。
+const employeeOptionsQuery: CachedQuery<Employee[]> = {
+  key: "/api/employees/options",
+  placeholder: NO_EMPLOYEES,
+  fetch: () =>
+    fetchAllPages((page) =>
+      employeesApi.list({ page, pageSize: OPTION_PAGE_SIZE }),
+    ),
+};
+
+const projectOptionsQuery: CachedQuery<Project[]> = {
+  key: "/api/projects/options",
+  placeholder: NO_PROJECTS,
+  fetch: () =>
+    fetchAllPages((page) =>
+      projectsApi.list({ page, pageSize: OPTION_PAGE_SIZE }),
+    ),
+};
+
+const workTypeCountsQuery: CachedQuery<WorkTypeCount[]> = {
+  key: "/api/employees/work-types",
+  placeholder: NO_WORK_TYPES,
+  fetch: async () =>
+    normalizeList(
+      await apiJson("/api/employees/work-types"),
+      normalizeWorkTypeCount,
+    ),
+};
+
+const employeesApi = {
+  async list(query: EmployeeQuery = {}, signal?: AbortSignal) {
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    const payload = await apiJson(
+      `/api/employees${buildQuery({
+        keyword: query.keyword?.trim(),
+        type: query.type || undefined,
+        tag: query.tag?.trim() || undefined,
+        work_type: query.workType?.trim() || undefined,
+        crew_ids: query.crewIds?.join(",") || undefined,
+        page: query.page ?? 1,
+        page_size: pageSize,
+        sort: "name_asc",
+      })}`,
+      { signal },
+    );
+    return toPagedResult(payload, normalizeEmployee, pageSize);
+  },
+
+  options: employeeOptionsQuery,
+  workTypes: workTypeCountsQuery,
+
+  listOptions() {
+    return fetchQuery(employeeOptionsQuery);
+  },
+
+  // 整组选择只需要 ID，由后端按筛选条件一次返回，不受分页上限影响。
+  async listIds(query: EmployeeIdQuery = {}, signal?: AbortSignal) {
+    const payload = await apiJson(
+      `/api/employees/ids${buildQuery({
+        keyword: query.keyword?.trim(),
+        type: query.type || undefined,
+        work_type: query.workType?.trim() || undefined,
+        crew_ids: query.crewIds?.join(",") || undefined,
+      })}`,
+      { signal },
+    );
+    const data = (payload as { data?: unknown } | null)?.data ?? payload;
+    const ids = Array.isArray((data as { ids?: unknown } | null)?.ids)
+      ? (data as { ids: unknown[] }).ids
+      : extractList<unknown>(payload);
+    return ids.map((id) => toText(id)).filter(Boolean);
+  },
+
+  async create(draft: EmployeeDraft) {
+    await apiJson("/api/employees", {
+      method: "POST",
+      body: toEmployeeBody(draft),
+    });
+    invalidateQueries("/api/employees");
+  },
+
+  async update(id: string, draft: EmployeeDraft) {
+    await apiJson(`/api/employees/${id}`, {
+      method: "PUT",
+      body: toEmployeeBody(draft),
+    });
+    invalidateQueries("/api/employees");
+  },
+
+  async remove(id: string) {
+    await apiJson(`/api/employees/${id}`, { method: "DELETE" });
+    invalidateQueries("/api/employees");
+  },
+
+  async importFile(file: File) {
+    const formData = new FormData();
+    formData.append("File", file);
+    await apiJson("/api/employees/import", { method: "POST", body: formData });
+    invalidateQueries("/api/employees");
+  },
+
+  exportXlsx() {
+    return apiBlob(`/api/employees/export${buildQuery({ format: "xlsx" })}`);
+  },
+
+  downloadTemplate() {
+    return apiBlob(
+      `/api/employees/import-template${buildQuery({ format: "xlsx" })}`,
+    );
+  },
+};
+
+const projectsApi = {
+  async list(query: ProjectQuery = {}, signal?: AbortSignal) {
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    const payload = await apiJson(
+      `/api/projects${buildQuery({
+        keyword: query.keyword?.trim(),
+        status: query.status || undefined,
+        page: query.page ?? 1,
+        page_size: pageSize,
+        sort: "name_asc",
+      })}`,
+      { signal },
+    );
+    return toPagedResult(payload, normalizeProject, pageSize);
+  },
+
+  options: projectOptionsQuery,
+
+  listOptions() {
+    return fetchQuery(projectOptionsQuery);
+  },
+
+  async create(draft: ProjectDraft) {
+    await apiJson("/api/projects", {
+      method: "POST",
+      body: toProjectBody(draft),
+    });
+    invalidateQueries("/api/projects");
+  },
+
+  async update(id: string, draft: ProjectDraft) {
+    await apiJson(`/api/projects/${id}`, {
+      method: "PUT",
+      body: toProjectBody(draft),
+    });
+    invalidateQueries("/api/projects");
+  },
+
+  async remove(id: string) {
+    await apiJson(`/api/projects/${id}`, { method: "DELETE" });
+    invalidateQueries("/api/projects");
+  },
+
+  exportXlsx(query: Pick<ProjectQuery, "keyword" | "status"> = {}) {
+    return apiBlob(
+      `/api/projects/export${buildQuery({
+        format: "xlsx",
+        keyword: query.keyword?.trim(),
+        status: query.status || undefined,
+      })}`,
+    );
+  },
+};
+
+const timeEntriesApi = {
+  async list(query: TimeEntryQuery = {}, signal?: AbortSignal) {
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    const payload = await apiJson(
+      `/api/time-entries${buildQuery({
+        date: query.date,
+        start_date: query.startDate,
+        end_date: query.endDate,
+        employee_id: query.employeeId || undefined,
+        employee_type: query.employeeType || undefined,
+        work_type: query.workType || undefined,
+        project_id: query.projectId || undefined,
+        page: query.page ?? 1,
+        page_size: pageSize,
+        sort: query.sort,
+      })}`,
+      { signal },
+    );
+    return toPagedResult(payload, normalizeTimeEntry, pageSize);
+  },
+
+  // 周视图、考勤表与冲突校验需要区间内的全部记录，按总数翻页取完，不设页数上限。
+  listAll(
+    query: Omit<TimeEntryQuery, "page" | "pageSize"> = {},
+    signal?: AbortSignal,
+  ) {
+    return fetchAllPages((page) =>
+      timeEntriesApi.list(
+        { ...query, page, pageSize: OPTION_PAGE_SIZE },
+        signal,
+      ),
+    );
+  },
+
+  async batch(draft: TimeEntryBatchDraft): Promise<TimeEntryBatchResult> {
+    const payload = await apiJson("/api/time-entries/batch", {
+      method: "POST",
+      body: toTimeEntryBatchBody(draft),
+    });
+    const data = ((payload as { data?: unknown } | null)?.data ??
+      payload ??
+      {}) as Record<string, unknown>;
+    return {
+      created: Number(data.created ?? 0),
+      skipped: Number(data.skipped ?? 0),
+      skippedItems: normalizeList(
+        data.skipped_items ?? data.skippedItems ?? [],
+        normalizeSkippedTimeEntry,
+      ),
+    };
+  },
+
+  // 逐条执行，单条失败不影响其余改动；未回报结果的改动视为成功。
+  async bulk(changes: TimeEntryBulkChanges) {
+    const payload = await apiJson("/api/time-entries/bulk", {
+      method: "POST",
+      body: toTimeEntryBulkBody(changes),
+    });
+    const data = (payload as { data?: unknown } | null)?.data ?? payload;
+    return normalizeList(
+      (data as { results?: unknown } | null)?.results ?? data,
+      normalizeBulkResult,
+    );
+  },
+
+  async update(id: string, draft: TimeEntryDraft) {
+    await apiJson(`/api/time-entries/${id}`, {
+      method: "PUT",
+      body: toTimeEntryBody(draft),
+    });
+  },
+
+  async remove(id: string) {
+    await apiJson(`/api/time-entries/${id}`, { method: "DELETE" });
+  },
+
+  exportXlsx(query: TimeEntryExportQuery) {
+    return apiBlob(
+      `/api/time-entries/export${buildQuery({
+        format: "xlsx",
+        start_date: query.startDate,
+        end_date: query.endDate,
+        work_type: query.workType || undefined,
+        project_id: query.projectId || undefined,
+      })}`,
+    );
+  },
+};
+
+const summariesApi = {
+  async daily(query: SummaryQuery, signal?: AbortSignal) {
+    const payload = await apiJson(
+      `/api/time-entries/summary${buildQuery(toSummaryParams(query))}`,
+      { signal },
+    );
+    return normalizeList(payload, normalizeDailySummary);
+  },
+
+  projectUnits(query: SummaryQuery, signal?: AbortSignal) {
+    return fetchWorkUnits(
+      "/api/time-entries/summary/project-units",
+      query,
+      normalizeProjectWorkUnits,
+      signal,
+    );
+  },
+
+  employeeUnits(query: SummaryQuery, signal?: AbortSignal) {
+    return fetchWorkUnits(
+      "/api/time-entries/summary/employee-units",
+      query,
+      normalizeEmployeeWorkUnits,
+      signal,
+    );
+  },
+
+  workTypeUnits(query: SummaryQuery, signal?: AbortSignal) {
+    return fetchWorkUnits(
+      "/api/time-entries/summary/worktype-units",
+      query,
+      normalizeWorkTypeWorkUnits,
+      signal,
+    );
+  },
+
+  tagUnits(query: SummaryQuery, signal?: AbortSignal) {
+    return fetchWorkUnits(
+      "/api/time-entries/summary/tag-units",
+      query,
+      normalizeTagWorkUnits,
+      signal,
+    );
+  },
+};
+
+export const resources = {
+  employees: employeesApi,
+  projects: projectsApi,
+  timeEntries: timeEntriesApi,
+  summaries: summariesApi,
+};
@@ -0,0 +1,139 @@
+import { apiJson } from "./api";
+
+export type StandardShift = {
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+};
+
+export type ClockTimes = {
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+};
+
+export const DEFAULT_STANDARD_SHIFT: StandardShift = {
+  startTime: "07:00",
+  endTime: "17:00",
+  breakMinutes: 60,
+};
+
+const STANDARD_SHIFT_PATH = "/api/tenant-settings/shift";
+const MINUTES_PER_DAY = 24 * 60;
+
+// 解析 HH:mm，返回当天的分钟数；格式不合法时返回 null。
+export function parseClockTime(value: string | undefined | null) {
+  const match = /^(\d{1,2}):(\d{2})/.exec((value ?? "").trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+function toClockText(value: unknown, fallback: string) {
+  const minutes = parseClockTime(typeof value === "string" ? value : "");
+  if (minutes === null) {
+    return fallback;
+  }
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60,
+  ).padStart(2, "0")}`;
+}
+
+export function normalizeStandardShift(payload: unknown): StandardShift {
+  const data = (payload as { data?: unknown } | null)?.data ?? payload;
+  if (!data || typeof data !== "object") {
+    return DEFAULT_STANDARD_SHIFT;
+  }
+  const item = data as Record<string, unknown>;
+  const breakMinutes = Number(item.break_minutes ?? item.breakMinutes ?? 0);
+  return {
+    startTime: toClockText(
+      item.start_time ?? item.startTime,
+      DEFAULT_STANDARD_SHIFT.startTime,
+    ),
+    endTime: toClockText(
+      item.end_time ?? item.endTime,
+      DEFAULT_STANDARD_SHIFT.endTime,
+    ),
+    breakMinutes:
+      Number.isFinite(breakMinutes) && breakMinutes > 0 ? breakMinutes : 0,
+  };
+}
+
+export async function fetchStandardShift() {
+  const payload = await apiJson(STANDARD_SHIFT_PATH);
+  return normalizeStandardShift(payload);
+}
+
+export async function saveStandardShift(shift: StandardShift) {
+  await apiJson(STANDARD_SHIFT_PATH, {
+    method: "PUT",
+    body: {
+      start_time: shift.startTime,
+      end_time: shift.endTime,
+      break_minutes: shift.breakMinutes,
+    },
+  });
+}
+
+function toRange(startTime: string, endTime: string) {
+  const start = parseClockTime(startTime);
+  const end = parseClockTime(endTime);
+  if (start === null || end === null) {
+    return null;
+  }
+  // 下班早于上班视为跨零点。
+  return { start, end: end <= start ? end + MINUTES_PER_DAY : end };
+}
+
+export function getStandardShiftHours(shift: StandardShift) {
+  const range = toRange(shift.startTime, shift.endTime);
+  if (!range) {
+    return 0;
+  }
+  return Math.max(0, range.end - range.start - shift.breakMinutes) / 60;
+}
+
+// 按标准班次拆分常规与加班：落在班次时间内的部分扣除休息后计常规（不超过标准班次时长），其余计加班。
+export function computeShiftHours(clock: ClockTimes, shift: StandardShift) {
+  const range = toRange(clock.startTime, clock.endTime);
+  const shiftRange = toRange(shift.startTime, shift.endTime);
+  if (!range || !shiftRange) {
+    return null;
+  }
+  const breakMinutes = Math.max(0, clock.breakMinutes || 0);
+  const worked = Math.max(0, range.end - range.start - breakMinutes);
+  const overlap = Math.max(
+    0,
+    Math.min(range.end, shiftRange.end) - Math.max(range.start, shiftRange.start),
+  );
+  const normal = Math.min(
+    Math.max(0, overlap - breakMinutes),
+    getStandardShiftHours(shift) * 60,
+    worked,
+  );
+  const toHours = (minutes: number) => Math.round(minutes / 6) / 10;
+  return {
+    normalHours: toHours(normal),
+    overtimeHours: toHours(worked - normal),
+  };
+}
+
+export function formatClockRange(
+  startTime?: string,
+  endTime?: string,
+  breakMinutes?: number,
+) {
+  if (!startTime || !endTime) {
+    return "";
+  }
+  return breakMinutes
+    ? `${startTime}–${endTime} 休${breakMinutes}分`
+    : `${startTime}–${endTime}`;
+}
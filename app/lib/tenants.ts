@@ -0,0 +1,45 @@
+import { apiJson } from "./api";
+import { AuthTenant, AuthUser, loadAuthSession, saveAuthSession } from "./auth";
+
+export function normalizeTenants(raw: unknown): AuthTenant[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .map((value) => {
+      const item = (value ?? {}) as Record<string, unknown>;
+      const id = item.id ?? item.tenant_id;
+      return {
+        id: id === undefined || id === null ? undefined : String(id),
+        code: item.code ? String(item.code) : undefined,
+        name: item.name ? String(item.name) : undefined,
+      };
+    })
+    .filter((tenant) => Boolean(tenant.id));
+}
+
+// 切换后后端签发新令牌，角色随目标公司变化，需整页刷新以丢弃上一家公司的数据。
+export async function switchTenant(tenantId: string) {
+  const payload = await apiJson("/api/auth/switch-tenant", {
+    method: "POST",
+    body: { tenant_id: tenantId },
+  });
+  const data = ((payload as { data?: unknown } | null)?.data ?? payload) as
+    | Record<string, unknown>
+    | null;
+  const token = data?.token ?? data?.access_token;
+  if (typeof token !== "string" || !token) {
+    throw new Error("切换公司失败，请稍后再试。");
+  }
+  const session = loadAuthSession();
+  saveAuthSession({
+    ...session,
+    token,
+    refreshToken:
+      typeof data?.refresh_token === "string"
+        ? data.refresh_token
+        : session?.refreshToken,
+    user: (data?.user as AuthUser | undefined) ?? session?.user,
+    tenant: (data?.tenant as AuthTenant | undefined) ?? { id: tenantId },
+  });
+}
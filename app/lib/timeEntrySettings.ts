@@ -0,0 +1,40 @@
+import { apiJson } from "./api";
+
+export type TimeEntrySettings = {
+  maxDailyHours: number;
+};
+
+export const DEFAULT_TIME_ENTRY_SETTINGS: TimeEntrySettings = {
+  maxDailyHours: 12,
+};
+
+const TIME_ENTRY_SETTINGS_PATH = "/api/tenant-settings/time-entry";
+
+export function normalizeTimeEntrySettings(payload: unknown): TimeEntrySettings {
+  const data = (payload as { data?: unknown } | null)?.data ?? payload;
+  if (!data || typeof data !== "object") {
+    return DEFAULT_TIME_ENTRY_SETTINGS;
+  }
+  const item = data as Record<string, unknown>;
+  const maxDailyHours = Number(item.max_daily_hours ?? item.maxDailyHours);
+  return {
+    maxDailyHours:
+      Number.isFinite(maxDailyHours) && maxDailyHours > 0
+        ? maxDailyHours
+        : DEFAULT_TIME_ENTRY_SETTINGS.maxDailyHours,
+  };
+}
+
+export async function fetchTimeEntrySettings() {
+  const payload = await apiJson(TIME_ENTRY_SETTINGS_PATH);
+  return normalizeTimeEntrySettings(payload);
+}
+
+export async function saveTimeEntrySettings(settings: TimeEntrySettings) {
+  await apiJson(TIME_ENTRY_SETTINGS_PATH, {
+    method: "PUT",
+    body: {
+      max_daily_hours: settings.maxDailyHours,
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { computeEntryWorkUnits, resolveEntryWorkUnits } from "./workUnits";
+
+const rules = {
+  normalHoursPerUnit: 8,
+  overtimeHoursPerUnit: 6,
+  minimumUnits: 1,
+};
+
+function entry(
+  id: string,
+  normalHours: number,
+  workUnits: number | null = null,
+) {
+  return {
+    id,
+    employeeId: "e-1",
+    date: "2026-10-19",
+    normalHours,
+    overtimeHours: 0,
+    workUnits,
+  };
+}
+
+describe("computeEntryWorkUnits", () => {
+  it("applies the minimum once per employee day and splits it by hours", () => {
+    const units = computeEntryWorkUnits([entry("a", 3), entry("b", 1)], rules);
+
+    expect(units.get("a")).toBeCloseTo(0.75);
+    expect(units.get("b")).toBeCloseTo(0.25);
+  });
+});
+
+describe("resolveEntryWorkUnits", () => {
+  it("prefers the units reported by the server", () => {
+    const units = resolveEntryWorkUnits([entry("a", 3, 0.5)], [], rules);
+
+    expect(units.get("a")).toBe(0.5);
+  });
+
+  it("computes missing units from the employee's whole day", () => {
+    const day = [entry("a", 3), entry("b", 1)];
+
+    expect(resolveEntryWorkUnits([day[1]], day, rules).get("b")).toBeCloseTo(
+      0.25,
+    );
+    expect(resolveEntryWorkUnits([day[1]], [day[1]], rules).get("b")).toBe(1);
+  });
+});
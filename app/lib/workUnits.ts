@@ -0,0 +1,151 @@
+import { apiJson } from "./api";
+
+export type WorkUnitRules = {
+  normalHoursPerUnit: number;
+  overtimeHoursPerUnit: number;
+  minimumUnits: number;
+};
+
+export const DEFAULT_WORK_UNIT_RULES: WorkUnitRules = {
+  normalHoursPerUnit: 8,
+  overtimeHoursPerUnit: 6,
+  minimumUnits: 0,
+};
+
+const WORK_UNIT_RULES_PATH = "/api/tenant-settings/work-units";
+
+function toPositiveNumber(value: unknown, fallback: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function normalizeWorkUnitRules(payload: unknown): WorkUnitRules {
+  const data = (payload as { data?: unknown } | null)?.data ?? payload;
+  if (!data || typeof data !== "object") {
+    return DEFAULT_WORK_UNIT_RULES;
+  }
+  const item = data as Record<string, unknown>;
+  const minimumUnits = Number(item.minimum_units ?? item.minimumUnits ?? 0);
+  return {
+    normalHoursPerUnit: toPositiveNumber(
+      item.normal_hours_per_unit ?? item.normalHoursPerUnit,
+      DEFAULT_WORK_UNIT_RULES.normalHoursPerUnit,
+    ),
+    overtimeHoursPerUnit: toPositiveNumber(
+      item.overtime_hours_per_unit ?? item.overtimeHoursPerUnit,
+      DEFAULT_WORK_UNIT_RULES.overtimeHoursPerUnit,
+    ),
+    minimumUnits:
+      Number.isFinite(minimumUnits) && minimumUnits > 0 ? minimumUnits : 0,
+  };
+}
+
+// 单条记工折算个工：常规与加班分别按规则折算，有出勤但不足起算值时按起算值计。
+export function computeWorkUnits(
+  normalHours: number,
+  overtimeHours: number,
+  rules: WorkUnitRules = DEFAULT_WORK_UNIT_RULES,
+) {
+  const units =
+    normalHours / rules.normalHoursPerUnit +
+    overtimeHours / rules.overtimeHoursPerUnit;
+  if (units > 0 && units < rules.minimumUnits) {
+    return rules.minimumUnits;
+  }
+  return units;
+}
+
+type WorkUnitEntry = {
+  id: string;
+  employeeId: string;
+  date: string;
+  normalHours: number;
+  overtimeHours: number;
+};
+
+// 同一员工同一天分摊到多个项目时，起算值按当天合计判断一次，再按各条工时占比分回每条记录。
+export function computeEntryWorkUnits(
+  entries: WorkUnitEntry[],
+  rules: WorkUnitRules = DEFAULT_WORK_UNIT_RULES,
+) {
+  const rawRules = { ...rules, minimumUnits: 0 };
+  const dayGroups = new Map<string, WorkUnitEntry[]>();
+  entries.forEach((entry) => {
+    const key = `${entry.employeeId}|${entry.date.slice(0, 10)}`;
+    dayGroups.set(key, [...(dayGroups.get(key) ?? []), entry]);
+  });
+
+  const result = new Map<string, number>();
+  dayGroups.forEach((group) => {
+    const normalHours = group.reduce((sum, entry) => sum + entry.normalHours, 0);
+    const overtimeHours = group.reduce(
+      (sum, entry) => sum + entry.overtimeHours,
+      0,
+    );
+    const rawUnits = computeWorkUnits(normalHours, overtimeHours, rawRules);
+    const dayUnits = computeWorkUnits(normalHours, overtimeHours, rules);
+    group.forEach((entry) => {
+      const entryUnits = computeWorkUnits(
+        entry.normalHours,
+        entry.overtimeHours,
+        rawRules,
+      );
+      result.set(
+        entry.id,
+        rawUnits > 0 ? (entryUnits / rawUnits) * dayUnits : 0,
+      );
+    });
+  });
+  return result;
+}
+
+type ReportedWorkUnitEntry = WorkUnitEntry & { workUnits: number | null };
+
+export function hasMissingWorkUnits(entries: ReportedWorkUnitEntry[]) {
+  return entries.some((entry) => entry.workUnits === null);
+}
+
+// 以后端返回的折算工数为准；缺失时按员工当天全部记录补算，dayEntries 须包含这些员工当天的所有记录，
+// 否则按项目、工种筛选或分页后的部分记录会让起算值判断出错。
+export function resolveEntryWorkUnits(
+  entries: ReportedWorkUnitEntry[],
+  dayEntries: WorkUnitEntry[],
+  rules: WorkUnitRules = DEFAULT_WORK_UNIT_RULES,
+) {
+  const computed = hasMissingWorkUnits(entries)
+    ? computeEntryWorkUnits(dayEntries, rules)
+    : new Map<string, number>();
+  return new Map(
+    entries.map((entry) => [
+      entry.id,
+      entry.workUnits ?? computed.get(entry.id) ?? 0,
+    ]),
+  );
+}
+
+export function describeWorkUnitRules(rules: WorkUnitRules) {
+  const parts = [
+    `常规 ${rules.normalHoursPerUnit}h = 1个工`,
+    `加班 ${rules.overtimeHoursPerUnit}h = 1个工`,
+  ];
+  if (rules.minimumUnits > 0) {
+    parts.push(`不足 ${rules.minimumUnits} 个工按 ${rules.minimumUnits} 个工计`);
+  }
+  return parts.join("，");
+}
+
+export async function fetchWorkUnitRules() {
+  const payload = await apiJson(WORK_UNIT_RULES_PATH);
+  return normalizeWorkUnitRules(payload);
+}
+
+export async function saveWorkUnitRules(rules: WorkUnitRules) {
+  await apiJson(WORK_UNIT_RULES_PATH, {
+    method: "PUT",
+    body: {
+      normal_hours_per_unit: rules.normalHoursPerUnit,
+      overtime_hours_per_unit: rules.overtimeHoursPerUnit,
+      minimum_units: rules.minimumUnits,
+    },
+  });
+}
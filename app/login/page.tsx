@@ -1,12 +1,17 @@
 ﻿"use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import ThemeToggle from "../components/ThemeToggle";
 import { apiJson } from "../lib/api";
 import { useNotice } from "../components/NoticeProvider";
-import { AuthSession, loadAuthSession, saveAuthSession } from "../lib/auth";
+import {
+  AuthSession,
+  getSafeRedirect,
+  loadAuthSession,
+  saveAuthSession,
+} from "../lib/auth";
 
 type ModalType = "privacy" | "disclaimer";
 
@@ -29,8 +34,12 @@ const modalContent: Record<ModalType, { title: string; items: string[] }> = {
   },
 };
 
-export default function LoginPage() {
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const redirectParam = searchParams.get("redirect");
+  const redirectTo = getSafeRedirect(redirectParam);
+  const isExpired = searchParams.get("reason") === "expired";
   const [account, setAccount] = useState("");
   const [password, setPassword] = useState("");
   const [agreed, setAgreed] = useState(false);
@@ -41,9 +50,9 @@ export default function LoginPage() {
   useEffect(() => {
     const session = loadAuthSession();
     if (session) {
-      router.replace("/");
+      router.replace(redirectTo);
     }
-  }, [router]);
+  }, [router, redirectTo]);
 
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -80,15 +89,17 @@ export default function LoginPage() {
         return;
       }
 
+      const refreshToken = (data as { refresh_token?: string }).refresh_token;
       saveAuthSession({
         token,
+        refreshToken,
         user: (data as AuthSession).user ?? {
           account: trimmedAccount,
         },
         tenant: (data as AuthSession).tenant,
       });
       notify("登录成功。", "success");
-      router.replace("/");
+      router.replace(redirectTo);
     } catch (error) {
       const message =
         error instanceof Error ? error.message : "登录失败，请稍后再试。";
@@ -138,6 +149,13 @@ export default function LoginPage() {
             <p className="text-sm text-[color:var(--muted-foreground)]">
               输入账号与密码登录，系统将进入对应的数据空间。
             </p>
+            {isExpired ? (
+              <p className="text-xs text-amber-600">
+                {redirectTo === "/"
+                  ? "登录已过期，请重新登录。"
+                  : "登录已过期，请重新登录，登录后将返回原页面。"}
+              </p>
+            ) : null}
           </div>
 
           <form onSubmit={handleSubmit} className="mt-6 space-y-4">
@@ -238,3 +256,11 @@ export default function LoginPage() {
     </section>
   );
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  );
+}
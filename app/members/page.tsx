@@ -0,0 +1,481 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadAuthUser } from "../lib/auth";
+import { Crew, fetchCrews } from "../lib/crews";
+import { useNotice } from "../components/NoticeProvider";
+import { ROLE_LABELS, Role } from "../lib/permissions";
+import {
+  INVITABLE_ROLES,
+  Invitation,
+  Member,
+  buildInviteLink,
+  createInvitation,
+  fetchInvitations,
+  fetchMembers,
+  resetMemberPassword,
+  revokeInvitation,
+  updateMember,
+} from "../lib/members";
+
+type PasswordResult = {
+  account: string;
+  password: string;
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function formatDateTime(value?: string) {
+  if (!value) {
+    return "-";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function MembersPage() {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [crews, setCrews] = useState<Crew[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [inviteRole, setInviteRole] = useState<Role>("foreman");
+  const [isInviting, setIsInviting] = useState(false);
+  const [savingMemberId, setSavingMemberId] = useState("");
+  const [passwordResult, setPasswordResult] = useState<PasswordResult | null>(
+    null,
+  );
+  const [currentAccount] = useState(() => loadAuthUser()?.account ?? "");
+  const { notify, confirm } = useNotice();
+
+  useEffect(() => {
+    loadMembers();
+    loadInvitations();
+    loadCrews();
+  }, []);
+
+  async function loadMembers() {
+    try {
+      setIsLoading(true);
+      setMembers(await fetchMembers());
+    } catch (error) {
+      console.error(error);
+      setMembers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadInvitations() {
+    try {
+      setInvitations(await fetchInvitations());
+    } catch (error) {
+      console.error(error);
+      setInvitations([]);
+    }
+  }
+
+  async function loadCrews() {
+    try {
+      setCrews(await fetchCrews());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function copyText(text: string, successMessage: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      notify(successMessage, "success");
+    } catch {
+      notify("复制失败，请手动复制。", "warning");
+    }
+  }
+
+  async function handleInvite() {
+    try {
+      setIsInviting(true);
+      const invitation = await createInvitation(inviteRole);
+      await loadInvitations();
+      await copyText(
+        buildInviteLink(invitation.code),
+        `邀请链接已复制，邀请码 ${invitation.code}。`,
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "生成邀请失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsInviting(false);
+    }
+  }
+
+  async function handleRevoke(invitation: Invitation) {
+    const confirmed = await confirm(`确认撤销邀请码 ${invitation.code} 吗？`);
+    if (!confirmed) {
+      return;
+    }
+    try {
+      await revokeInvitation(invitation.code);
+      await loadInvitations();
+      notify("邀请已撤销。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "撤销失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function handleMemberUpdate(
+    member: Member,
+    changes: { role?: Role; isActive?: boolean; crewIds?: string[] },
+    successMessage: string,
+  ) {
+    try {
+      setSavingMemberId(member.id);
+      await updateMember(member.id, changes);
+      await loadMembers();
+      notify(successMessage, "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setSavingMemberId("");
+    }
+  }
+
+  async function handleToggleActive(member: Member) {
+    const name = member.displayName ?? member.account;
+    if (member.isActive) {
+      const confirmed = await confirm(
+        `确认停用“${name}”吗？停用后该账号无法登录。`,
+      );
+      if (!confirmed) {
+        return;
+      }
+    }
+    await handleMemberUpdate(
+      member,
+      { isActive: !member.isActive },
+      member.isActive ? "成员已停用。" : "成员已启用。",
+    );
+  }
+
+  async function handleResetPassword(member: Member) {
+    const confirmed = await confirm(
+      `确认重置“${member.displayName ?? member.account}”的密码吗？`,
+    );
+    if (!confirmed) {
+      return;
+    }
+    try {
+      setSavingMemberId(member.id);
+      const password = await resetMemberPassword(member.id);
+      setPasswordResult({ account: member.account, password });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "重置失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setSavingMemberId("");
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">成员管理</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          邀请班组长、记账员加入本公司，分配角色、重置密码或停用账号。
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium">邀请成员</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={inviteRole}
+              onChange={(event) => setInviteRole(event.target.value as Role)}
+              className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+            >
+              {INVITABLE_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleInvite}
+              disabled={isInviting}
+              className="h-8 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isInviting ? "生成中..." : "生成邀请链接"}
+            </button>
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-[color:var(--muted-foreground)]">
+          被邀请人打开链接注册，或在注册页填写邀请码，即可加入本公司。
+        </p>
+        {invitations.length > 0 ? (
+          <table className="mt-3 w-full text-left text-xs">
+            <thead className="text-[color:var(--muted-foreground)]">
+              <tr>
+                <th className="pb-1 font-medium">邀请码</th>
+                <th className="pb-1 font-medium">角色</th>
+                <th className="pb-1 font-medium">有效期至</th>
+                <th className="w-[120px] min-w-[120px] pb-1 font-medium">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map((invitation) => (
+                <tr
+                  key={invitation.code}
+                  className="border-t border-[color:var(--border)]"
+                >
+                  <td className="py-2 font-mono text-foreground">
+                    {invitation.code}
+                  </td>
+                  <td className="py-2 text-[color:var(--muted-foreground)]">
+                    {ROLE_LABELS[invitation.role]}
+                  </td>
+                  <td className="py-2 text-[color:var(--muted-foreground)]">
+                    {formatDateTime(invitation.expiresAt)}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          copyText(
+                            buildInviteLink(invitation.code),
+                            "邀请链接已复制。",
+                          )
+                        }
+                        className="text-xs text-foreground hover:underline"
+                      >
+                        复制链接
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(invitation)}
+                        className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                      >
+                        撤销
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <p className="text-sm font-medium">成员列表</p>
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[color:var(--muted-foreground)]">
+              <tr>
+                <th className="pb-1 font-medium">账号</th>
+                <th className="pb-1 font-medium">昵称</th>
+                <th className="pb-1 font-medium">角色</th>
+                <th className="pb-1 font-medium">负责班组</th>
+                <th className="pb-1 font-medium">状态</th>
+                <th className="w-[140px] min-w-[140px] pb-1 font-medium">
+                  最近登录
+                </th>
+                <th className="w-[120px] min-w-[120px] pb-1 font-medium">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    <div className="flex items-center justify-center gap-2">
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                      <span>加载中</span>
+                    </div>
+                  </td>
+                </tr>
+              ) : members.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    暂无成员
+                  </td>
+                </tr>
+              ) : (
+                members.map((member) => {
+                  // 老板账号与当前登录账号不可在此修改角色或停用。
+                  const isLocked =
+                    member.role === "owner" || member.account === currentAccount;
+                  const isSaving = savingMemberId === member.id;
+                  return (
+                    <tr
+                      key={member.id}
+                      className="border-t border-[color:var(--border)]"
+                    >
+                      <td className="py-2 text-foreground">{member.account}</td>
+                      <td className="py-2 text-[color:var(--muted-foreground)]">
+                        {member.displayName || "-"}
+                      </td>
+                      <td className="py-2">
+                        {isLocked ? (
+                          <span className="text-foreground">
+                            {ROLE_LABELS[member.role]}
+                          </span>
+                        ) : (
+                          <select
+                            value={member.role}
+                            onChange={(event) =>
+                              handleMemberUpdate(
+                                member,
+                                { role: event.target.value as Role },
+                                "角色已更新。",
+                              )
+                            }
+                            disabled={isSaving}
+                            className="h-7 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+                          >
+                            {INVITABLE_ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {member.role === "foreman" ? (
+                          <select
+                            value={member.crewIds[0] ?? ""}
+                            onChange={(event) =>
+                              handleMemberUpdate(
+                                member,
+                                {
+                                  crewIds: event.target.value
+                                    ? [event.target.value]
+                                    : [],
+                                },
+                                "负责班组已更新。",
+                              )
+                            }
+                            disabled={isSaving || crews.length === 0}
+                            className="h-7 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+                          >
+                            <option value="">
+                              {crews.length === 0 ? "暂无班组" : "未分配"}
+                            </option>
+                            {crews.map((crew) => (
+                              <option key={crew.id} value={crew.id}>
+                                {crew.name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-[color:var(--muted-foreground)]">
+                            -
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <span
+                          className={
+                            member.isActive
+                              ? "text-emerald-600"
+                              : "text-[color:var(--muted-foreground)]"
+                          }
+                        >
+                          {member.isActive ? "正常" : "已停用"}
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap py-2 text-[color:var(--muted-foreground)]">
+                        {formatDateTime(member.lastLoginAt)}
+                      </td>
+                      <td className="py-2">
+                        {isLocked ? (
+                          <span className="text-[color:var(--muted-foreground)]">
+                            -
+                          </span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => handleResetPassword(member)}
+                              disabled={isSaving}
+                              className="text-xs text-foreground hover:underline disabled:cursor-not-allowed disabled:opacity-50 disabled:no-underline"
+                            >
+                              重置密码
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleToggleActive(member)}
+                              disabled={isSaving}
+                              className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              {member.isActive ? "停用" : "启用"}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {passwordResult ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-sm rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-semibold">密码已重置</h3>
+              <button
+                type="button"
+                onClick={() => setPasswordResult(null)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+              >
+                关闭
+              </button>
+            </div>
+            <p className="mt-3 text-xs text-[color:var(--muted-foreground)]">
+              账号 {passwordResult.account} 的临时密码如下，关闭后不再显示，请及时告知对方并提醒登录后修改。
+            </p>
+            <div className="mt-3 flex items-center justify-between gap-2 rounded-md border border-[color:var(--border)] bg-[color:var(--surface-muted)] px-3 py-2">
+              <span className="font-mono text-sm text-foreground">
+                {passwordResult.password || "-"}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  copyText(passwordResult.password, "临时密码已复制。")
+                }
+                disabled={!passwordResult.password}
+                className="text-xs text-foreground hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                复制
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,239 @@
+// @vitest-environment jsdom
+import {
+  act,
+  fireEvent,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import Home from "./page";
+import { resources } from "./lib/resources";
+import {
+  MockApiHarness,
+  captureDownloads,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "./lib/mock/testing";
+
+let mock: MockApiHarness;
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  renderWithNotice(<Home />);
+});
+
+async function readEntryTotal() {
+  const label = await screen.findByText(/^共 [1-9]\d* 条$/);
+  return Number(label.textContent?.match(/\d+/)?.[0]);
+}
+
+function getModal(title: string) {
+  const heading = screen.getByRole("heading", { name: title });
+  return within(heading.parentElement!.parentElement!);
+}
+
+function getEntryRow(name: string) {
+  return screen
+    .getAllByRole("row")
+    .find((row) => within(row).queryByText(name))!;
+}
+
+function getFirstEntryRow() {
+  const row = screen.getAllByRole("row")[1];
+  const name = within(row).getAllByRole("cell")[0].querySelector("span span");
+  return { row, name: name?.textContent ?? "" };
+}
+
+describe("Home", () => {
+  it("lists today's entries from the API", async () => {
+    const total = await readEntryTotal();
+
+    expect(total).toBeGreaterThan(15);
+    expect(screen.getByText("1 / 2")).toBeTruthy();
+    const [request] = findRequests(mock.requests, "GET", "/api/time-entries");
+    expect(request.params.get("date")).toBe("2026-10-19");
+    expect(request.params.get("page_size")).toBe("15");
+  });
+
+  it("shows skipped employees after a batch create", async () => {
+    await readEntryTotal();
+    fireEvent.click(screen.getByRole("button", { name: "记工" }));
+
+    const modal = getModal("新增记工");
+    fireEvent.change(modal.getByLabelText(/^项目/), {
+      target: { value: "m-p-1" },
+    });
+    fireEvent.change(modal.getByPlaceholderText("搜索姓名、手机号或工种"), {
+      target: { value: "张建国" },
+    });
+    await waitFor(() => expect(modal.getByText("共 1 位")).toBeTruthy());
+    fireEvent.click(modal.getByRole("button", { name: /张建国/ }));
+    fireEvent.click(modal.getByRole("button", { name: "保存" }));
+
+    expect(await screen.findByText("批量记工结果")).toBeTruthy();
+    expect(
+      screen.getByText("成功 0 条，跳过 1 条（当天该项目已有记录）。"),
+    ).toBeTruthy();
+    const skippedRow = getEntryRow("2026-10-19");
+    expect(within(skippedRow).getByText("张建国")).toBeTruthy();
+    const [batch] = findRequests(mock.requests, "POST", "/api/time-entries/batch");
+    expect(batch).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "保留" }));
+    expect(await screen.findByText("已保留原记录")).toBeTruthy();
+  });
+
+  it("clears the clock times when adding onto a skipped entry", async () => {
+    await readEntryTotal();
+    const [employee] = (
+      await resources.employees.list({ keyword: "张建国" })
+    ).items;
+    const query = { date: "2026-10-19", employeeId: employee.id };
+    const [existing] = (await resources.timeEntries.list(query)).items;
+    await resources.timeEntries.update(existing.id, {
+      ...existing,
+      startTime: "07:00",
+      endTime: "17:00",
+      breakMinutes: 60,
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "记工" }));
+    const modal = getModal("新增记工");
+    fireEvent.change(modal.getByLabelText(/^项目/), {
+      target: { value: existing.projectId },
+    });
+    fireEvent.change(modal.getByPlaceholderText("搜索姓名、手机号或工种"), {
+      target: { value: "张建国" },
+    });
+    await waitFor(() => expect(modal.getByText("共 1 位")).toBeTruthy());
+    fireEvent.click(modal.getByRole("button", { name: /张建国/ }));
+    fireEvent.click(modal.getByRole("button", { name: "保存" }));
+    await screen.findByText("批量记工结果");
+    fireEvent.click(screen.getByRole("button", { name: "累加" }));
+    expect(await screen.findByText("已累加")).toBeTruthy();
+
+    const [updated] = (await resources.timeEntries.list(query)).items;
+    expect(updated.normalHours).toBe(existing.normalHours + 8);
+    expect(updated.startTime).toBeUndefined();
+    expect(updated.endTime).toBeUndefined();
+    expect(updated.breakMinutes).toBeUndefined();
+  });
+
+  it("updates an entry from the edit modal", async () => {
+    await readEntryTotal();
+    const { row, name } = getFirstEntryRow();
+    fireEvent.click(within(row).getByRole("button", { name: "编辑" }));
+
+    const modal = getModal("编辑记工");
+    fireEvent.change(modal.getByLabelText(/^常规班次小时/), {
+      target: { value: "6" },
+    });
+    fireEvent.click(modal.getByRole("button", { name: "保存" }));
+
+    expect(await screen.findByText("记工记录已更新。")).toBeTruthy();
+    const [update] = mock.requests.filter(
+      (request) =>
+        request.method === "PUT" &&
+        request.path.startsWith("/api/time-entries/"),
+    );
+    expect(update).toBeTruthy();
+    await waitFor(() =>
+      expect(within(getEntryRow(name)).getByText(/常规 6h/)).toBeTruthy(),
+    );
+  });
+
+  it("deletes an entry after confirmation", async () => {
+    const total = await readEntryTotal();
+    const { row, name } = getFirstEntryRow();
+    fireEvent.click(within(row).getByRole("button", { name: "删除" }));
+
+    expect(await screen.findByText("确认删除该条记工记录吗？")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "确认" }));
+
+    expect(await screen.findByText(`共 ${total - 1} 条`)).toBeTruthy();
+    expect(screen.queryByText(name)).toBeNull();
+    expect(
+      mock.requests.some(
+        (request) =>
+          request.method === "DELETE" &&
+          request.path.startsWith("/api/time-entries/"),
+      ),
+    ).toBe(true);
+  });
+
+  it("returns to the first page when the filters change", async () => {
+    await readEntryTotal();
+    fireEvent.click(screen.getByRole("button", { name: "下一页" }));
+    expect(await screen.findByText("2 / 2")).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText(/^工种/), {
+      target: { value: "钢筋工" },
+    });
+
+    await waitFor(() => {
+      const last = findRequests(mock.requests, "GET", "/api/time-entries").at(-1);
+      expect(last?.params.get("work_type")).toBe("钢筋工");
+      expect(last?.params.get("page")).toBe("1");
+    });
+    expect(await screen.findByText("1 / 1")).toBeTruthy();
+    expect(
+      findRequests(mock.requests, "GET", "/api/time-entries").some(
+        (request) =>
+          request.params.get("work_type") === "钢筋工" &&
+          request.params.get("page") === "2",
+      ),
+    ).toBe(false);
+  });
+
+  it("loads the pickers once and refreshes them after a mutation", async () => {
+    await readEntryTotal();
+    expect(findRequests(mock.requests, "GET", "/api/projects")).toHaveLength(1);
+
+    await act(() =>
+      resources.projects.create({
+        name: "江北物流园仓库",
+        code: "",
+        status: "active",
+        plannedStartDate: "",
+        plannedEndDate: "",
+        remark: "",
+      }),
+    );
+
+    expect(
+      await screen.findByRole("option", { name: "江北物流园仓库" }),
+    ).toBeTruthy();
+    expect(findRequests(mock.requests, "GET", "/api/projects")).toHaveLength(2);
+  });
+
+  it("downloads the entry export for the selected day", async () => {
+    const downloads = captureDownloads();
+    await readEntryTotal();
+    const [existing] = (
+      await resources.timeEntries.list({ date: "2026-10-19" })
+    ).items;
+    await resources.timeEntries.update(existing.id, {
+      ...existing,
+      startTime: "06:30",
+      endTime: "17:15",
+      breakMinutes: 45,
+    });
+    fireEvent.click(screen.getByRole("button", { name: "导出明细" }));
+    fireEvent.click(screen.getByRole("button", { name: "确认导出" }));
+
+    expect(await screen.findByText("工时明细导出成功。")).toBeTruthy();
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].fileName).toBe("记工明细_2026-10-19_2026-10-19.xlsx");
+    expect(downloads[0].blob.size).toBeGreaterThan(0);
+    // 模拟导出的 xlsx 不压缩，可直接在包内容中查找单元格。
+    const content = await downloads[0].blob.text();
+    const header = content.match(/<row r="1">.*?<\/row>/)?.[0] ?? "";
+    expect(header).toMatch(/项目.*上班.*下班.*休息\(分钟\).*常规工时/);
+    expect(content).toMatch(
+      /<c r="F(\d+)" t="inlineStr"><is><t xml:space="preserve">06:30<\/t><\/is><\/c><c r="G\1" t="inlineStr"><is><t xml:space="preserve">17:15<\/t><\/is><\/c><c r="H\1"><v>45<\/v>/,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { fireEvent, screen, waitFor, within } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import ProjectsPage from "./page";
+import {
+  MockApiHarness,
+  captureDownloads,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  renderWithNotice(<ProjectsPage />);
+});
+
+function getProjectRow(name: string) {
+  return screen
+    .getAllByRole("row")
+    .find((row) => within(row).queryByText(name))!;
+}
+
+function getModal(title: string) {
+  const heading = screen.getByRole("heading", { name: title });
+  return within(heading.parentElement!.parentElement!);
+}
+
+describe("ProjectsPage", () => {
+  it("lists active projects and filters by status", async () => {
+    expect(await screen.findByText("共 3 条")).toBeTruthy();
+    const [first] = findRequests(mock.requests, "GET", "/api/projects");
+    expect(first.params.get("status")).toBe("active");
+
+    const statusSelect = screen.getByDisplayValue("进行中");
+    fireEvent.change(statusSelect, { target: { value: "" } });
+    expect(await screen.findByText("共 5 条")).toBeTruthy();
+
+    fireEvent.change(statusSelect, { target: { value: "completed" } });
+
+    expect(await screen.findByText("共 1 条")).toBeTruthy();
+    expect(getProjectRow("东湖商业广场装修")).toBeTruthy();
+    const last = findRequests(mock.requests, "GET", "/api/projects").at(-1);
+    expect(last?.params.get("status")).toBe("completed");
+  });
+
+  it("creates and then edits a project", async () => {
+    await screen.findByText("共 3 条");
+    fireEvent.click(screen.getByRole("button", { name: "新增项目" }));
+
+    const createModal = getModal("新增项目");
+    fireEvent.change(createModal.getByLabelText(/^项目名称/), {
+      target: { value: "江北物流园仓库" },
+    });
+    fireEvent.click(createModal.getByRole("button", { name: "保存" }));
+
+    expect(await screen.findByText("项目已新增。")).toBeTruthy();
+    expect(await screen.findByText("共 4 条")).toBeTruthy();
+
+    fireEvent.click(
+      within(getProjectRow("江北物流园仓库")).getByRole("button", {
+        name: "编辑",
+      }),
+    );
+    const editModal = getModal("编辑项目");
+    fireEvent.change(editModal.getByLabelText(/^项目代码/), {
+      target: { value: "JBWL-01" },
+    });
+    fireEvent.click(editModal.getByRole("button", { name: "保存" }));
+
+    expect(await screen.findByText("项目已更新。")).toBeTruthy();
+    await waitFor(() =>
+      expect(
+        within(getProjectRow("江北物流园仓库")).getByText("JBWL-01"),
+      ).toBeTruthy(),
+    );
+  });
+
+  it("deletes a project after confirmation", async () => {
+    await screen.findByText("共 3 条");
+    fireEvent.click(
+      within(getProjectRow("城南污水处理厂扩建")).getByRole("button", {
+        name: "删除",
+      }),
+    );
+
+    expect(await screen.findByText("确认删除该项目吗？")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "确认" }));
+
+    expect(await screen.findByText("项目已删除。")).toBeTruthy();
+    expect(await screen.findByText("共 2 条")).toBeTruthy();
+    expect(screen.queryByText("城南污水处理厂扩建")).toBeNull();
+  });
+
+  it("exports projects with the current filters", async () => {
+    const downloads = captureDownloads();
+    await screen.findByText("共 3 条");
+    fireEvent.change(screen.getByPlaceholderText("搜索项目"), {
+      target: { value: "滨江" },
+    });
+    await screen.findByText("共 1 条");
+
+    fireEvent.click(screen.getByRole("button", { name: "导出Excel" }));
+
+    expect(await screen.findByText("项目导出成功。")).toBeTruthy();
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].fileName).toBe("项目管理_2026-10-19.xlsx");
+    const [request] = findRequests(mock.requests, "GET", "/api/projects/export");
+    expect(request.params.get("keyword")).toBe("滨江");
+    expect(request.params.get("status")).toBe("active");
+  });
+});
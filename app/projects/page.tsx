@@ -1,21 +1,22 @@
 ﻿"use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { apiBlob, apiJson } from "../lib/api";
 import { useNotice } from "../components/NoticeProvider";
-
-type ProjectStatus = "active" | "pending" | "completed";
-
-type Project = {
-  id: string;
-  name: string;
-  code?: string;
-  status: ProjectStatus;
-  planned_start_date?: string;
-  planned_end_date?: string;
-  remark?: string;
-  createdAt?: string;
-};
+import useLatestRequest from "../components/useLatestRequest";
+import usePermissions from "../components/usePermissions";
+import {
+  PIECE_UNITS,
+  PieceItem,
+  deletePieceItem,
+  fetchPieceItems,
+  savePieceItem,
+} from "../lib/pieceRates";
+import {
+  Project,
+  ProjectDraft,
+  ProjectStatus,
+  resources,
+} from "../lib/resources";
 
 type FormState = {
   name: string;
@@ -26,6 +27,20 @@ type FormState = {
   remark: string;
 };
 
+type PieceItemFormState = {
+  name: string;
+  unit: string;
+  unitPrice: string;
+  workType: string;
+};
+
+const emptyPieceItemForm: PieceItemFormState = {
+  name: "",
+  unit: PIECE_UNITS[0],
+  unitPrice: "",
+  workType: "",
+};
+
 const projectStatuses: { value: ProjectStatus; label: string }[] = [
   { value: "active", label: "进行中" },
   { value: "pending", label: "待开始" },
@@ -34,74 +49,6 @@ const projectStatuses: { value: ProjectStatus; label: string }[] = [
 
 const DEFAULT_PROJECT_PAGE_SIZE = 15;
 
-function buildQuery(params: Record<string, string | number | boolean | undefined>) {
-  const search = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    if (value === undefined || value === "") {
-      return;
-    }
-    search.append(key, String(value));
-  });
-  const query = search.toString();
-  return query ? `?${query}` : "";
-}
-
-function extractList<T>(payload: unknown): T[] {
-  if (!payload) {
-    return [];
-  }
-  if (Array.isArray(payload)) {
-    return payload as T[];
-  }
-  const data = (payload as { data?: unknown }).data ?? payload;
-  if (Array.isArray(data)) {
-    return data as T[];
-  }
-  if (data && typeof data === "object") {
-    const items = (data as { items?: T[] }).items;
-    if (Array.isArray(items)) {
-      return items;
-    }
-    const list = (data as { list?: T[] }).list;
-    if (Array.isArray(list)) {
-      return list;
-    }
-  }
-  return [];
-}
-
-function extractPagedMeta(payload: unknown) {
-  const data = (payload as { data?: unknown }).data ?? payload;
-  if (data && typeof data === "object") {
-    const total = Number((data as { total?: number }).total ?? 0);
-    const page = Number((data as { page?: number }).page ?? 1);
-    const pageSize = Number(
-      (data as { page_size?: number; pageSize?: number }).page_size ??
-        (data as { page_size?: number; pageSize?: number }).pageSize ??
-        DEFAULT_PROJECT_PAGE_SIZE,
-    );
-    return { total, page, pageSize };
-  }
-  return { total: 0, page: 1, pageSize: DEFAULT_PROJECT_PAGE_SIZE };
-}
-
-function normalizeProject(item: Record<string, unknown>): Project {
-  const createdAt = item.created_at ?? item.createdAt ?? "";
-  const remark = item.remark ?? item.notes ?? "";
-  const plannedStartDate = item.planned_start_date ?? item.plannedStartDate ?? "";
-  const plannedEndDate = item.planned_end_date ?? item.plannedEndDate ?? "";
-  return {
-    id: String(item.id ?? ""),
-    name: String(item.name ?? item.project_name ?? ""),
-    code: item.code ? String(item.code) : undefined,
-    status: (item.status as ProjectStatus) ?? "active",
-    planned_start_date: plannedStartDate ? String(plannedStartDate) : undefined,
-    planned_end_date: plannedEndDate ? String(plannedEndDate) : undefined,
-    remark: String(remark ?? ""),
-    createdAt: createdAt ? String(createdAt) : "",
-  };
-}
-
 function formatDateTime(value?: string) {
   if (!value) {
     return "-";
@@ -277,6 +224,14 @@ export default function ProjectsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [ganttZoom, setGanttZoom] = useState(0);
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
+  const [pieceProject, setPieceProject] = useState<Project | null>(null);
+  const [pieceItems, setPieceItems] = useState<PieceItem[]>([]);
+  const [isPieceItemsLoading, setIsPieceItemsLoading] = useState(false);
+  const [pieceItemForm, setPieceItemForm] =
+    useState<PieceItemFormState>(emptyPieceItemForm);
+  const [editingPieceItemId, setEditingPieceItemId] = useState<string | null>(
+    null,
+  );
   const [formState, setFormState] = useState<FormState>({
     name: "",
     code: "",
@@ -286,6 +241,8 @@ export default function ProjectsPage() {
     remark: "",
   });
   const { notify, confirm } = useNotice();
+  const { can } = usePermissions();
+  const beginRequest = useLatestRequest();
   const displayProjects = projects;
   const filtersKey = useMemo(
     () => `${searchText.trim()}|${selectedStatus}|${pageSize}`,
@@ -315,38 +272,44 @@ export default function ProjectsPage() {
       status?: ProjectStatus | "";
       page?: number;
     }) => {
+      const signal = beginRequest("projects");
       try {
         setIsLoading(true);
         const keyword = overrides?.keyword ?? searchText;
         const status = overrides?.status ?? selectedStatus;
         const page = overrides?.page ?? currentPage;
-        const query = buildQuery({
-          keyword: keyword.trim(),
-          status: status || undefined,
-          page,
-          page_size: pageSize,
-          sort: "name_asc",
-        });
-        const payload = await apiJson(`/api/projects${query}`);
-        const meta = extractPagedMeta(payload);
-        const list = extractList<Record<string, unknown>>(payload).map(
-          normalizeProject,
+        const result = await resources.projects.list(
+          {
+            keyword,
+            status,
+            page,
+            pageSize,
+          },
+          signal,
         );
-        setProjects(list);
-        setTotal(meta.total);
-        const nextTotalPages = Math.max(1, Math.ceil(meta.total / pageSize));
-        if (meta.total > 0 && page > nextTotalPages) {
+        if (signal.aborted) {
+          return;
+        }
+        setProjects(result.items);
+        setTotal(result.total);
+        const nextTotalPages = Math.max(1, Math.ceil(result.total / pageSize));
+        if (result.total > 0 && page > nextTotalPages) {
           setCurrentPage(nextTotalPages);
         }
       } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
         console.error(error);
         setProjects([]);
         setTotal(0);
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
     },
-    [currentPage, pageSize, searchText, selectedStatus],
+    [beginRequest, currentPage, pageSize, searchText, selectedStatus],
   );
 
   useEffect(() => {
@@ -382,8 +345,8 @@ export default function ProjectsPage() {
       name: project.name,
       code: project.code ?? "",
       status: project.status,
-      plannedStartDate: toDateInputValue(project.planned_start_date),
-      plannedEndDate: toDateInputValue(project.planned_end_date),
+      plannedStartDate: toDateInputValue(project.plannedStartDate),
+      plannedEndDate: toDateInputValue(project.plannedEndDate),
       remark: project.remark ?? "",
     });
     setIsModalOpen(true);
@@ -395,7 +358,7 @@ export default function ProjectsPage() {
       return;
     }
     try {
-      await apiJson(`/api/projects/${projectId}`, { method: "DELETE" });
+      await resources.projects.remove(projectId);
       await loadProjects();
       notify("项目已删除。", "success");
     } catch (error) {
@@ -405,15 +368,101 @@ export default function ProjectsPage() {
     }
   }
 
+  async function loadPieceItems(projectId: string) {
+    try {
+      setIsPieceItemsLoading(true);
+      setPieceItems(await fetchPieceItems(projectId));
+    } catch (error) {
+      console.error(error);
+      setPieceItems([]);
+    } finally {
+      setIsPieceItemsLoading(false);
+    }
+  }
+
+  function openPieceItemsModal(project: Project) {
+    setPieceProject(project);
+    setPieceItems([]);
+    setPieceItemForm(emptyPieceItemForm);
+    setEditingPieceItemId(null);
+    loadPieceItems(project.id);
+  }
+
+  function startEditPieceItem(item: PieceItem) {
+    setEditingPieceItemId(item.id);
+    setPieceItemForm({
+      name: item.name,
+      unit: item.unit,
+      unitPrice: String(item.unitPrice),
+      workType: item.workType ?? "",
+    });
+  }
+
+  async function handlePieceItemSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!pieceProject) {
+      return;
+    }
+    const name = pieceItemForm.name.trim();
+    const unitPrice = Number(pieceItemForm.unitPrice);
+    if (!name || !pieceItemForm.unit.trim()) {
+      notify("请填写计件项名称和单位。", "warning");
+      return;
+    }
+    if (
+      !pieceItemForm.unitPrice.trim() ||
+      !Number.isFinite(unitPrice) ||
+      unitPrice < 0
+    ) {
+      notify("单价需为不小于 0 的数字。", "warning");
+      return;
+    }
+
+    try {
+      await savePieceItem(
+        pieceProject.id,
+        {
+          name,
+          unit: pieceItemForm.unit,
+          unitPrice,
+          workType: pieceItemForm.workType,
+        },
+        editingPieceItemId ?? undefined,
+      );
+      notify(editingPieceItemId ? "计件项已更新。" : "计件项已新增。", "success");
+      setPieceItemForm(emptyPieceItemForm);
+      setEditingPieceItemId(null);
+      await loadPieceItems(pieceProject.id);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function handlePieceItemDelete(item: PieceItem) {
+    const confirmed = await confirm(`确认删除计件项“${item.name}”吗？`);
+    if (!confirmed || !pieceProject) {
+      return;
+    }
+    try {
+      await deletePieceItem(item.id);
+      await loadPieceItems(pieceProject.id);
+      notify("计件项已删除。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "删除失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
   async function handleExport() {
     try {
       setIsExporting(true);
-      const query = buildQuery({
-        format: "xlsx",
-        keyword: searchText.trim(),
-        status: selectedStatus || undefined,
+      const blob = await resources.projects.exportXlsx({
+        keyword: searchText,
+        status: selectedStatus,
       });
-      const blob = await apiBlob(`/api/projects/export${query}`);
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
       const date = new Date();
@@ -441,32 +490,19 @@ export default function ProjectsPage() {
       return;
     }
 
+    const draft: ProjectDraft = {
+      ...formState,
+      name,
+      code: formState.code.trim(),
+      remark: formState.remark.trim(),
+    };
+
     try {
       if (editingProjectId) {
-        await apiJson(`/api/projects/${editingProjectId}`, {
-          method: "PUT",
-          body: {
-            name,
-            code: formState.code.trim() || null,
-            status: formState.status,
-            planned_start_date: formState.plannedStartDate || null,
-            planned_end_date: formState.plannedEndDate || null,
-            remark: formState.remark.trim(),
-          },
-        });
+        await resources.projects.update(editingProjectId, draft);
         notify("项目已更新。", "success");
       } else {
-        await apiJson("/api/projects", {
-          method: "POST",
-          body: {
-            name,
-            code: formState.code.trim() || null,
-            status: formState.status,
-            planned_start_date: formState.plannedStartDate || null,
-            planned_end_date: formState.plannedEndDate || null,
-            remark: formState.remark.trim(),
-          },
-        });
+        await resources.projects.create(draft);
         notify("项目已新增。", "success");
       }
       setIsModalOpen(false);
@@ -512,21 +548,25 @@ export default function ProjectsPage() {
             </select>
           </div>
           <div className="flex flex-wrap items-center gap-2">
-            <button
-              type="button"
-              onClick={handleExport}
-              disabled={isExporting}
-              className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
-            >
-              {isExporting ? "导出中..." : "导出Excel"}
-            </button>
-            <button
-              type="button"
-              onClick={openCreateModal}
-              className="h-8 rounded-md bg-foreground px-3 text-xs font-medium text-background"
-            >
-              新增项目
-            </button>
+            {can("export") ? (
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={isExporting}
+                className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isExporting ? "导出中..." : "导出Excel"}
+              </button>
+            ) : null}
+            {can("project.write") ? (
+              <button
+                type="button"
+                onClick={openCreateModal}
+                className="h-8 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+              >
+                新增项目
+              </button>
+            ) : null}
           </div>
         </div>
         <div className="mt-4 rounded-md border border-[color:var(--border)] bg-[color:var(--surface-muted)] p-3">
@@ -611,8 +651,8 @@ export default function ProjectsPage() {
                 </div>
               ) : (
                 displayProjects.map((project) => {
-                  const rawStart = parseDate(project.planned_start_date);
-                  const rawEnd = parseDate(project.planned_end_date);
+                  const rawStart = parseDate(project.plannedStartDate);
+                  const rawEnd = parseDate(project.plannedEndDate);
                   const fallback = rawStart ?? rawEnd;
                   let barStart = rawStart ?? fallback;
                   let barEnd = rawEnd ?? fallback;
@@ -760,10 +800,10 @@ export default function ProjectsPage() {
                         {getStatusLabel(project.status)}
                       </td>
                       <td className="py-2 text-[color:var(--muted-foreground)]">
-                        {formatDate(project.planned_start_date)}
+                        {formatDate(project.plannedStartDate)}
                       </td>
                       <td className="py-2 text-[color:var(--muted-foreground)]">
-                        {formatDate(project.planned_end_date)}
+                        {formatDate(project.plannedEndDate)}
                       </td>
                       <td className="py-2 text-[color:var(--muted-foreground)]">
                         {project.remark || "-"}
@@ -773,20 +813,33 @@ export default function ProjectsPage() {
                       </td>
                       <td className="py-2">
                         <div className="flex items-center gap-2">
-                          <button
-                            type="button"
-                            onClick={() => openEditModal(project)}
-                            className="text-xs text-foreground hover:underline"
-                          >
-                            编辑
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => handleDelete(project.id)}
-                            className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
-                          >
-                            删除
-                          </button>
+                          {can("project.write") ? (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => openEditModal(project)}
+                                className="text-xs text-foreground hover:underline"
+                              >
+                                编辑
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => openPieceItemsModal(project)}
+                                className="text-xs text-foreground hover:underline"
+                              >
+                                计件单价
+                              </button>
+                            </>
+                          ) : null}
+                          {can("delete") ? (
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(project.id)}
+                              className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                            >
+                              删除
+                            </button>
+                          ) : null}
                         </div>
                       </td>
                     </tr>
@@ -976,6 +1029,190 @@ export default function ProjectsPage() {
           </div>
         </div>
       ) : null}
+
+      {pieceProject ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-2xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-semibold">
+                计件单价 · {pieceProject.name}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setPieceProject(null)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+              >
+                关闭
+              </button>
+            </div>
+
+            <form
+              onSubmit={handlePieceItemSubmit}
+              className="mt-4 grid gap-3 md:grid-cols-[1.4fr_1fr_1fr_1fr_auto] md:items-end"
+            >
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                计件项
+                <input
+                  value={pieceItemForm.name}
+                  onChange={(event) =>
+                    setPieceItemForm((prev) => ({
+                      ...prev,
+                      name: event.target.value,
+                    }))
+                  }
+                  placeholder="如：地砖铺贴"
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                单位
+                <input
+                  list="piece-unit-options"
+                  value={pieceItemForm.unit}
+                  onChange={(event) =>
+                    setPieceItemForm((prev) => ({
+                      ...prev,
+                      unit: event.target.value,
+                    }))
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+                <datalist id="piece-unit-options">
+                  {PIECE_UNITS.map((unit) => (
+                    <option key={unit} value={unit} />
+                  ))}
+                </datalist>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                单价（元）
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={pieceItemForm.unitPrice}
+                  onChange={(event) =>
+                    setPieceItemForm((prev) => ({
+                      ...prev,
+                      unitPrice: event.target.value,
+                    }))
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                工种（可选）
+                <input
+                  value={pieceItemForm.workType}
+                  onChange={(event) =>
+                    setPieceItemForm((prev) => ({
+                      ...prev,
+                      workType: event.target.value,
+                    }))
+                  }
+                  placeholder="如：瓦工"
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <div className="flex items-center gap-2">
+                {editingPieceItemId ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingPieceItemId(null);
+                      setPieceItemForm(emptyPieceItemForm);
+                    }}
+                    className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                  >
+                    取消
+                  </button>
+                ) : null}
+                <button
+                  type="submit"
+                  className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+                >
+                  {editingPieceItemId ? "保存" : "新增"}
+                </button>
+              </div>
+            </form>
+
+            <div className="mt-4 max-h-72 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[color:var(--muted-foreground)]">
+                  <tr>
+                    <th className="pb-1 font-medium">计件项</th>
+                    <th className="pb-1 font-medium">单位</th>
+                    <th className="pb-1 text-right font-medium">单价</th>
+                    <th className="pb-1 font-medium">工种</th>
+                    <th className="pb-1 font-medium">操作</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {isPieceItemsLoading ? (
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className="py-6 text-center text-[color:var(--muted-foreground)]"
+                      >
+                        <div className="flex items-center justify-center gap-2">
+                          <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                          <span>加载中</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : pieceItems.length === 0 ? (
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className="py-6 text-center text-[color:var(--muted-foreground)]"
+                      >
+                        暂无计件项
+                      </td>
+                    </tr>
+                  ) : (
+                    pieceItems.map((item) => (
+                      <tr
+                        key={item.id}
+                        className="border-t border-[color:var(--border)]"
+                      >
+                        <td className="py-2 text-foreground">{item.name}</td>
+                        <td className="py-2 text-[color:var(--muted-foreground)]">
+                          {item.unit}
+                        </td>
+                        <td className="py-2 text-right text-foreground">
+                          ¥{item.unitPrice.toFixed(2)}/{item.unit}
+                        </td>
+                        <td className="py-2 text-[color:var(--muted-foreground)]">
+                          {item.workType || "不限"}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => startEditPieceItem(item)}
+                              className="text-xs text-foreground hover:underline"
+                            >
+                              编辑
+                            </button>
+                            {can("delete") ? (
+                              <button
+                                type="button"
+                                onClick={() => handlePieceItemDelete(item)}
+                                className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                              >
+                                删除
+                              </button>
+                            ) : null}
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </section>
   );
 }
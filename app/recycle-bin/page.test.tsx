@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import RecycleBinPage from "./page";
+import {
+  MockApiHarness,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  renderWithNotice(<RecycleBinPage />);
+});
+
+describe("RecycleBinPage", () => {
+  it("ignores a filter response that arrives after a newer one", async () => {
+    expect(await screen.findByText("回收站为空")).toBeTruthy();
+    // 员工筛选的请求挂起，模拟切换类型时上一次的响应晚到。
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const signals: AbortSignal[] = [];
+    const mockFetch = globalThis.fetch;
+    vi.stubGlobal("fetch", async (input: string, init: RequestInit = {}) => {
+      if (input.includes("entity_type=employee")) {
+        signals.push(init.signal!);
+        await gate;
+        return Response.json([
+          {
+            id: "e-stale",
+            entity_type: "employee",
+            label: "过期响应",
+            deleted_at: "2026-10-18T08:00:00.000Z",
+          },
+        ]);
+      }
+      return mockFetch(input, init);
+    });
+
+    const typeSelect = screen.getByDisplayValue("全部类型");
+    fireEvent.change(typeSelect, { target: { value: "employee" } });
+    await waitFor(() => expect(signals).toHaveLength(1));
+    fireEvent.change(typeSelect, { target: { value: "project" } });
+    await waitFor(() =>
+      expect(
+        findRequests(mock.requests, "GET", "/api/recycle-bin").some(
+          (request) => request.params.get("entity_type") === "project",
+        ),
+      ).toBe(true),
+    );
+    expect(await screen.findByText("回收站为空")).toBeTruthy();
+
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(signals[0].aborted).toBe(true);
+    expect(screen.queryByText("过期响应")).toBeNull();
+    expect(screen.getByText("回收站为空")).toBeTruthy();
+  });
+});
@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useNotice } from "../components/NoticeProvider";
+import useLatestRequest from "../components/useLatestRequest";
+import { AUDIT_ENTITY_LABELS } from "../lib/auditLogs";
+import {
+  DeletedRecord,
+  RECYCLE_RETENTION_DAYS,
+  fetchDeletedRecords,
+  getRemainingDays,
+  restoreDeletedRecord,
+} from "../lib/recycleBin";
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function formatDateTime(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value || "-";
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function RecycleBinPage() {
+  const [entityType, setEntityType] = useState("");
+  const [records, setRecords] = useState<DeletedRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState("");
+  const { notify } = useNotice();
+  const beginRequest = useLatestRequest();
+
+  const loadRecords = useCallback(async () => {
+    const signal = beginRequest("records");
+    try {
+      setIsLoading(true);
+      const list = await fetchDeletedRecords(entityType, signal);
+      if (signal.aborted) {
+        return;
+      }
+      setRecords(list);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      setRecords([]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [beginRequest, entityType]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  async function handleRestore(record: DeletedRecord) {
+    try {
+      setRestoringId(record.id);
+      await restoreDeletedRecord(record.entityType, record.id);
+      notify(
+        `${AUDIT_ENTITY_LABELS[record.entityType]}“${record.label}”已恢复。`,
+        "success",
+      );
+      await loadRecords();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "恢复失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setRestoringId("");
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">回收站</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          已删除的记工、员工与项目保留 {RECYCLE_RETENTION_DAYS} 天，期间可随时恢复，到期后自动清除。
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={entityType}
+            onChange={(event) => setEntityType(event.target.value)}
+            className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+          >
+            <option value="">全部类型</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-[color:var(--muted-foreground)]">
+            共 {records.length} 条
+          </span>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[color:var(--muted-foreground)]">
+              <tr>
+                <th className="pb-1 font-medium">类型</th>
+                <th className="pb-1 font-medium">名称</th>
+                <th className="pb-1 font-medium">删除人</th>
+                <th className="w-[140px] min-w-[140px] pb-1 font-medium">删除时间</th>
+                <th className="pb-1 font-medium">剩余保留</th>
+                <th className="w-[60px] min-w-[60px] pb-1 font-medium">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    <div className="flex items-center justify-center gap-2">
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                      <span>加载中</span>
+                    </div>
+                  </td>
+                </tr>
+              ) : records.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    回收站为空
+                  </td>
+                </tr>
+              ) : (
+                records.map((record) => {
+                  const remainingDays = getRemainingDays(record.expiresAt);
+                  return (
+                    <tr
+                      key={`${record.entityType}-${record.id}`}
+                      className="border-t border-[color:var(--border)]"
+                    >
+                      <td className="py-2 text-[color:var(--muted-foreground)]">
+                        {AUDIT_ENTITY_LABELS[record.entityType]}
+                      </td>
+                      <td className="py-2 text-foreground">{record.label}</td>
+                      <td className="py-2 text-[color:var(--muted-foreground)]">
+                        {record.deletedBy || "-"}
+                      </td>
+                      <td className="whitespace-nowrap py-2 text-[color:var(--muted-foreground)]">
+                        {formatDateTime(record.deletedAt)}
+                      </td>
+                      <td
+                        className={`py-2 ${
+                          remainingDays !== null && remainingDays <= 3
+                            ? "text-amber-600"
+                            : "text-[color:var(--muted-foreground)]"
+                        }`}
+                      >
+                        {remainingDays === null ? "-" : `${remainingDays} 天`}
+                      </td>
+                      <td className="py-2">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(record)}
+                          disabled={restoringId === record.id}
+                          className="text-xs text-foreground hover:underline disabled:cursor-not-allowed disabled:opacity-50 disabled:no-underline"
+                        >
+                          {restoringId === record.id ? "恢复中..." : "恢复"}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
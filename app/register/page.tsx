@@ -1,15 +1,22 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import ThemeToggle from "../components/ThemeToggle";
 import { apiJson } from "../lib/api";
 import { useNotice } from "../components/NoticeProvider";
 import { AuthSession, saveAuthSession } from "../lib/auth";
+import { InvitationPreview, fetchInvitationPreview } from "../lib/members";
+import { ROLE_LABELS } from "../lib/permissions";
 
 type ModalType = "privacy" | "disclaimer";
 
+type InviteState = {
+  code: string;
+  preview: InvitationPreview | null;
+};
+
 const modalContent: Record<ModalType, { title: string; items: string[] }> = {
   privacy: {
     title: "隐私协议",
@@ -29,9 +36,14 @@ const modalContent: Record<ModalType, { title: string; items: string[] }> = {
   },
 };
 
-export default function RegisterPage() {
+function RegisterForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { notify } = useNotice();
+  const [inviteCode, setInviteCode] = useState(
+    () => searchParams.get("invite") ?? "",
+  );
+  const [inviteState, setInviteState] = useState<InviteState | null>(null);
   const [account, setAccount] = useState("");
   const [displayName, setDisplayName] = useState("");
   const [password, setPassword] = useState("");
@@ -39,6 +51,35 @@ export default function RegisterPage() {
   const [agreed, setAgreed] = useState(false);
   const [activeModal, setActiveModal] = useState<ModalType | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const trimmedInviteCode = inviteCode.trim();
+  const isInviteChecked = inviteState?.code === trimmedInviteCode;
+  const invitePreview = isInviteChecked ? inviteState.preview : null;
+
+  // 邀请码输入停顿后再校验，避免每次按键都请求。
+  useEffect(() => {
+    const code = inviteCode.trim();
+    if (!code) {
+      return;
+    }
+    let active = true;
+    const timer = window.setTimeout(() => {
+      fetchInvitationPreview(code)
+        .then((preview) => {
+          if (active) {
+            setInviteState({ code, preview });
+          }
+        })
+        .catch(() => {
+          if (active) {
+            setInviteState({ code, preview: null });
+          }
+        });
+    }, 400);
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+    };
+  }, [inviteCode]);
 
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -71,6 +112,10 @@ export default function RegisterPage() {
       notify("所在公司长度不能超过 100。", "warning");
       return;
     }
+    if (trimmedInviteCode && isInviteChecked && !invitePreview) {
+      notify("邀请码无效或已过期。", "warning");
+      return;
+    }
     setSubmitting(true);
     try {
       const body: Record<string, string> = {
@@ -80,7 +125,10 @@ export default function RegisterPage() {
       if (trimmedDisplayName) {
         body.display_name = trimmedDisplayName;
       }
-      if (trimmedTenantName) {
+      // 通过邀请注册时加入邀请方公司，不再新建租户。
+      if (trimmedInviteCode) {
+        body.invite_code = trimmedInviteCode;
+      } else if (trimmedTenantName) {
         body.tenant_name = trimmedTenantName;
       }
       const payload = await apiJson<AuthSession | { data?: AuthSession }>(
@@ -103,6 +151,7 @@ export default function RegisterPage() {
 
       saveAuthSession({
         token,
+        refreshToken: (data as { refresh_token?: string }).refresh_token,
         user: (data as AuthSession).user ?? {
           account: trimmedAccount,
           display_name: trimmedDisplayName || undefined,
@@ -157,9 +206,13 @@ export default function RegisterPage() {
         <div className="w-full max-w-md space-y-6">
         <div className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-sm">
           <div className="space-y-2">
-            <h1 className="text-xl font-semibold">注册个人账号</h1>
+            <h1 className="text-xl font-semibold">
+              {trimmedInviteCode ? "受邀加入公司" : "注册个人账号"}
+            </h1>
             <p className="text-sm text-[color:var(--muted-foreground)]">
-              创建个人账号，免费使用易记工，开启便捷方便的记工填报新体验！
+              {trimmedInviteCode
+                ? "使用邀请码注册账号，注册后直接加入邀请方公司。"
+                : "创建个人账号，免费使用易记工，开启便捷方便的记工填报新体验！"}
             </p>
           </div>
 
@@ -196,14 +249,43 @@ export default function RegisterPage() {
               />
             </label>
 
+            {trimmedInviteCode ? null : (
+              <label className="flex flex-col gap-2 text-xs text-[color:var(--muted-foreground)]">
+                所在公司（选填）
+                <input
+                  value={tenantName}
+                  onChange={(event) => setTenantName(event.target.value)}
+                  placeholder="请输入公司名称"
+                  className="h-10 rounded-md border border-[color:var(--border)] bg-transparent px-3 text-sm text-foreground"
+                />
+              </label>
+            )}
+
             <label className="flex flex-col gap-2 text-xs text-[color:var(--muted-foreground)]">
-              所在公司（选填）
+              邀请码（选填）
               <input
-                value={tenantName}
-                onChange={(event) => setTenantName(event.target.value)}
-                placeholder="请输入公司名称"
+                value={inviteCode}
+                onChange={(event) => setInviteCode(event.target.value)}
+                placeholder="加入已有公司时填写"
                 className="h-10 rounded-md border border-[color:var(--border)] bg-transparent px-3 text-sm text-foreground"
               />
+              {trimmedInviteCode ? (
+                <span
+                  className={
+                    isInviteChecked && !invitePreview
+                      ? "text-rose-600"
+                      : "text-[color:var(--muted-foreground)]"
+                  }
+                >
+                  {!isInviteChecked
+                    ? "正在校验邀请码..."
+                    : invitePreview
+                      ? `将以${ROLE_LABELS[invitePreview.role]}身份加入“${
+                          invitePreview.tenantName || "邀请方公司"
+                        }”`
+                      : "邀请码无效或已过期"}
+                </span>
+              ) : null}
             </label>
 
             <label className="flex items-center gap-2 text-xs text-[color:var(--muted-foreground)]">
@@ -283,3 +365,11 @@ export default function RegisterPage() {
     </section>
   );
 }
+
+export default function RegisterPage() {
+  return (
+    <Suspense fallback={null}>
+      <RegisterForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,732 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Clock3, Lock } from "lucide-react";
+import { apiBlob } from "../../lib/api";
+import { useNotice } from "../../components/NoticeProvider";
+import TimeEntryModal from "../../components/TimeEntryModal";
+import useCachedQuery from "../../components/useCachedQuery";
+import useLatestRequest from "../../components/useLatestRequest";
+import usePermissions from "../../components/usePermissions";
+import {
+  DEFAULT_WORK_UNIT_RULES,
+  WorkUnitRules,
+  fetchWorkUnitRules,
+  hasMissingWorkUnits,
+  resolveEntryWorkUnits,
+} from "../../lib/workUnits";
+import {
+  ABSENCE_SHORT_LABELS,
+  Absence,
+  fetchAbsences,
+  isProjectStoppage,
+} from "../../lib/absences";
+import { fetchPeriodLocks, getLockedMonths } from "../../lib/periodLocks";
+import {
+  Employee,
+  TimeEntry,
+  buildQuery,
+  resources,
+} from "../../lib/resources";
+
+// 已不在员工列表中的记录只能从记工里还原出这些字段。
+type RowEmployee = Pick<Employee, "id" | "name" | "type" | "workType">;
+
+type AttendanceRow = {
+  employee: RowEmployee;
+  cells: Map<string, TimeEntry[]>;
+  absences: Map<string, Absence>;
+  units: number;
+  days: number;
+  absenceDays: number;
+};
+
+type CellSelection = {
+  employee: RowEmployee;
+  date: string;
+  entries: TimeEntry[];
+};
+
+const WEEKDAY_LABELS = ["日", "一", "二", "三", "四", "五", "六"];
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toMonthKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+function parseMonthKey(key: string) {
+  const [year, month] = key.split("-").map(Number);
+  return { year, month };
+}
+
+function formatHours(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function formatWorkUnits(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
+
+function getMonthOptions(baseDate: Date) {
+  const options = [] as Array<{ value: string; label: string }>;
+  for (let i = 0; i < 12; i += 1) {
+    const date = new Date(baseDate.getFullYear(), baseDate.getMonth() - i, 1);
+    const value = toMonthKey(date);
+    options.push({
+      value,
+      label: `${date.getFullYear()}年${date.getMonth() + 1}月`,
+    });
+  }
+  return options;
+}
+
+export default function AttendancePage() {
+  const [today] = useState(() => new Date());
+  const monthOptions = useMemo(() => getMonthOptions(today), [today]);
+  const [selectedMonth, setSelectedMonth] = useState(() => toMonthKey(today));
+  const [selectedWorkType, setSelectedWorkType] = useState("");
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+  const employees = useCachedQuery(resources.employees.options);
+  const projects = useCachedQuery(resources.projects.options);
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  // 补算工数用的当月全部记录，未按工种、项目筛选时即为 entries。
+  const [unitEntries, setUnitEntries] = useState<TimeEntry[]>([]);
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [workUnitRules, setWorkUnitRules] = useState<WorkUnitRules>(
+    DEFAULT_WORK_UNIT_RULES,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [cellSelection, setCellSelection] = useState<CellSelection | null>(null);
+  const [modalState, setModalState] = useState<{
+    entry: TimeEntry | null;
+    employeeIds: string[];
+    dates: string[];
+  } | null>(null);
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const { notify } = useNotice();
+  const { can, canRecordFor, crewIds } = usePermissions();
+  const beginRequest = useLatestRequest();
+  const isMonthLocked = lockedMonths.has(selectedMonth);
+
+  const { year, month } = parseMonthKey(selectedMonth);
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const dayColumns = useMemo(
+    () =>
+      Array.from({ length: daysInMonth }, (_, index) => {
+        const day = index + 1;
+        const weekday = new Date(year, month - 1, day).getDay();
+        return {
+          day,
+          dateKey: `${year}-${pad(month)}-${pad(day)}`,
+          weekday,
+          isWeekend: weekday === 0 || weekday === 6,
+        };
+      }),
+    [daysInMonth, month, year],
+  );
+  const workTypeOptions = useMemo(() => {
+    const set = new Set<string>();
+    employees.forEach((employee) => {
+      if (employee.workType) {
+        set.add(employee.workType);
+      }
+    });
+    if (selectedWorkType) {
+      set.add(selectedWorkType);
+    }
+    return Array.from(set);
+  }, [employees, selectedWorkType]);
+  const currentMonthLabel =
+    monthOptions.find((option) => option.value === selectedMonth)?.label ??
+    selectedMonth;
+
+  const entryUnitMap = useMemo(
+    () => resolveEntryWorkUnits(entries, unitEntries, workUnitRules),
+    [entries, unitEntries, workUnitRules],
+  );
+
+  // 项目级停工按日期标记在表头，不展开到每位员工。
+  const stoppageDates = useMemo(
+    () =>
+      new Set(
+        absences.filter(isProjectStoppage).map((absence) => absence.date),
+      ),
+    [absences],
+  );
+
+  const rows = useMemo(() => {
+    const absenceMap = new Map<string, Map<string, Absence>>();
+    absences.forEach((absence) => {
+      if (!absence.employeeId) {
+        return;
+      }
+      const cells = absenceMap.get(absence.employeeId) ?? new Map();
+      cells.set(absence.date, absence);
+      absenceMap.set(absence.employeeId, cells);
+    });
+    const entryMap = new Map<string, Map<string, TimeEntry[]>>();
+    entries.forEach((entry) => {
+      const cells = entryMap.get(entry.employeeId) ?? new Map();
+      const dateKey = entry.date.slice(0, 10);
+      cells.set(dateKey, [...(cells.get(dateKey) ?? []), entry]);
+      entryMap.set(entry.employeeId, cells);
+    });
+
+    const list: AttendanceRow[] = [];
+    const seen = new Set<string>();
+    const pushRow = (employee: RowEmployee) => {
+      seen.add(employee.id);
+      const cells = entryMap.get(employee.id) ?? new Map<string, TimeEntry[]>();
+      let units = 0;
+      cells.forEach((cellEntries) => {
+        cellEntries.forEach((entry) => {
+          units += entryUnitMap.get(entry.id) ?? 0;
+        });
+      });
+      const employeeAbsences =
+        absenceMap.get(employee.id) ?? new Map<string, Absence>();
+      list.push({
+        employee,
+        cells,
+        absences: employeeAbsences,
+        units,
+        days: cells.size,
+        absenceDays: employeeAbsences.size,
+      });
+    };
+
+    employees.forEach((employee) => {
+      if (selectedWorkType && employee.workType !== selectedWorkType) {
+        return;
+      }
+      // 按项目筛选时只保留该项目有出勤的员工，避免整页空行。
+      if (
+        selectedProjectId &&
+        !entryMap.has(employee.id) &&
+        !absenceMap.has(employee.id)
+      ) {
+        return;
+      }
+      pushRow(employee);
+    });
+    // 已离职等不在员工列表中的记录仍需出现在考勤表里。
+    entries.forEach((entry) => {
+      if (seen.has(entry.employeeId)) {
+        return;
+      }
+      pushRow({
+        id: entry.employeeId,
+        name: entry.employeeName || "未知",
+        type: entry.employeeType,
+        workType: entry.workType,
+      });
+    });
+    return list;
+  }, [
+    absences,
+    employees,
+    entries,
+    entryUnitMap,
+    selectedProjectId,
+    selectedWorkType,
+  ]);
+
+  const columnTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    entries.forEach((entry) => {
+      const dateKey = entry.date.slice(0, 10);
+      totals.set(
+        dateKey,
+        (totals.get(dateKey) ?? 0) + (entryUnitMap.get(entry.id) ?? 0),
+      );
+    });
+    return totals;
+  }, [entries, entryUnitMap]);
+  const grandTotal = useMemo(
+    () => rows.reduce((sum, row) => sum + row.units, 0),
+    [rows],
+  );
+
+  const loadEntries = useCallback(async () => {
+    const { year: loadYear, month: loadMonth } = parseMonthKey(selectedMonth);
+    const lastDay = new Date(loadYear, loadMonth, 0).getDate();
+    const range = {
+      startDate: `${selectedMonth}-01`,
+      endDate: `${selectedMonth}-${pad(lastDay)}`,
+    };
+    const signal = beginRequest("entries");
+    try {
+      setIsLoading(true);
+      const list = await resources.timeEntries.listAll(
+        { ...range, workType: selectedWorkType, projectId: selectedProjectId },
+        signal,
+      );
+      const unitList =
+        hasMissingWorkUnits(list) && (selectedWorkType || selectedProjectId)
+          ? await resources.timeEntries.listAll(range, signal)
+          : list;
+      const absenceList = await fetchAbsences(
+        range.startDate,
+        range.endDate,
+        selectedProjectId || undefined,
+        signal,
+      ).catch((error) => {
+        if (!signal.aborted) {
+          console.error(error);
+        }
+        return [] as Absence[];
+      });
+      if (signal.aborted) {
+        return;
+      }
+      setEntries(list);
+      setUnitEntries(unitList);
+      setAbsences(absenceList);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      const message =
+        error instanceof Error ? error.message : "加载考勤失败，请稍后再试。";
+      notify(message, "error");
+      setEntries([]);
+      setUnitEntries([]);
+      setAbsences([]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [beginRequest, notify, selectedMonth, selectedProjectId, selectedWorkType]);
+
+  useEffect(() => {
+    loadWorkUnitRules();
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setLockedMonths(getLockedMonths(await fetchPeriodLocks()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  async function loadWorkUnitRules() {
+    try {
+      setWorkUnitRules(await fetchWorkUnitRules());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  function handleCellClick(row: AttendanceRow, dateKey: string) {
+    if (isMonthLocked) {
+      notify("该月已结算锁定，考勤只读。", "info");
+      return;
+    }
+    if (!canRecordFor(row.employee.id)) {
+      notify("当前账号无权为该员工记工。", "info");
+      return;
+    }
+    const cellEntries = row.cells.get(dateKey) ?? [];
+    if (cellEntries.length === 0) {
+      setModalState({
+        entry: null,
+        employeeIds: [row.employee.id],
+        dates: [dateKey],
+      });
+      return;
+    }
+    if (cellEntries.length === 1) {
+      setModalState({
+        entry: cellEntries[0],
+        employeeIds: [row.employee.id],
+        dates: [dateKey],
+      });
+      return;
+    }
+    setCellSelection({ employee: row.employee, date: dateKey, entries: cellEntries });
+  }
+
+  async function handleEntrySaved() {
+    setModalState(null);
+    setCellSelection(null);
+    await loadEntries();
+  }
+
+  async function handleExport() {
+    try {
+      setIsExporting(true);
+      const query = buildQuery({
+        format: "xlsx",
+        month: selectedMonth,
+        work_type: selectedWorkType || undefined,
+        project_id: selectedProjectId || undefined,
+      });
+      const blob = await apiBlob(`/api/time-entries/attendance/export${query}`);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+
+      link.href = url;
+      link.download = `考勤表_${selectedMonth}.xlsx`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+
+      notify("考勤表导出成功。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "导出失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">考勤表</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          按月查看每位员工每天的个工，点击单元格可直接补记或修改记工。
+          <Link
+            href="/reports"
+            className="ml-2 inline-flex items-center gap-1 rounded-md border border-[color:var(--border)] px-2 py-0.5 text-[11px] text-foreground hover:bg-[color:var(--surface-muted)]"
+          >
+            返回月度总览
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              月份
+              <select
+                value={selectedMonth}
+                onChange={(event) => setSelectedMonth(event.target.value)}
+                className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              >
+                {monthOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              工种
+              <select
+                value={selectedWorkType}
+                onChange={(event) => setSelectedWorkType(event.target.value)}
+                className="h-8 min-w-[120px] rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              >
+                <option value="">全部工种</option>
+                {workTypeOptions.map((workType) => (
+                  <option key={workType} value={workType}>
+                    {workType}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              项目
+              <select
+                value={selectedProjectId}
+                onChange={(event) => setSelectedProjectId(event.target.value)}
+                className="h-8 min-w-[160px] rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                disabled={projects.length === 0}
+              >
+                {projects.length === 0 ? (
+                  <option value="">暂无项目</option>
+                ) : (
+                  <>
+                    <option value="">全部项目</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </>
+                )}
+              </select>
+            </label>
+          </div>
+          {can("export") ? (
+            <button
+              type="button"
+              onClick={handleExport}
+              className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-foreground disabled:opacity-50"
+              disabled={isExporting}
+            >
+              {isExporting ? "导出中..." : "导出考勤表"}
+            </button>
+          ) : null}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-[color:var(--muted-foreground)]">
+          <span className="inline-flex items-center gap-1">
+            {currentMonthLabel}
+            {isMonthLocked ? (
+              <span className="inline-flex items-center gap-0.5 text-amber-600">
+                <Lock className="h-3 w-3" />
+                已锁定
+              </span>
+            ) : null}
+          </span>
+          <span>
+            员工 <span className="text-foreground">{rows.length}</span> 人
+          </span>
+          <span>
+            合计 <span className="text-foreground">{formatWorkUnits(grandTotal)}</span> 个工
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="mt-4 flex items-center justify-center gap-2 py-10 text-xs text-[color:var(--muted-foreground)]">
+            <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+            <span>加载中</span>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="mt-4 py-10 text-center text-xs text-[color:var(--muted-foreground)]">
+            暂无考勤数据
+          </div>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full border-collapse text-center text-[11px]">
+              <thead className="text-[color:var(--muted-foreground)]">
+                <tr>
+                  <th className="sticky left-0 z-10 min-w-[88px] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 py-1 text-left font-medium">
+                    员工
+                  </th>
+                  {dayColumns.map((column) => (
+                    <th
+                      key={column.dateKey}
+                      className={`min-w-[34px] border border-[color:var(--border)] px-1 py-1 font-medium ${
+                        column.isWeekend ? "bg-[color:var(--surface-muted)]" : ""
+                      }`}
+                    >
+                      <div className="text-foreground">{column.day}</div>
+                      <div className="text-[10px]">{WEEKDAY_LABELS[column.weekday]}</div>
+                      {stoppageDates.has(column.dateKey) ? (
+                        <div className="text-[10px] text-sky-600" title="停工-天气">
+                          停工
+                        </div>
+                      ) : null}
+                    </th>
+                  ))}
+                  <th className="min-w-[44px] border border-[color:var(--border)] px-2 py-1 font-medium">
+                    天数
+                  </th>
+                  <th className="min-w-[44px] border border-[color:var(--border)] px-2 py-1 font-medium">
+                    请假
+                  </th>
+                  <th className="min-w-[52px] border border-[color:var(--border)] px-2 py-1 font-medium">
+                    合计
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.employee.id}>
+                    <td className="sticky left-0 z-10 whitespace-nowrap border border-[color:var(--border)] bg-[color:var(--surface)] px-2 py-1 text-left text-foreground">
+                      <span className="inline-flex items-center gap-1">
+                        <span>{row.employee.name}</span>
+                        {row.employee.type === "临时工" ? (
+                          <Clock3
+                            className="h-3 w-3 text-amber-500"
+                            aria-label="临时工标记"
+                          />
+                        ) : null}
+                      </span>
+                    </td>
+                    {dayColumns.map((column) => {
+                      const cellEntries = row.cells.get(column.dateKey) ?? [];
+                      const absence = row.absences.get(column.dateKey);
+                      const units = cellEntries.reduce(
+                        (sum, entry) => sum + (entryUnitMap.get(entry.id) ?? 0),
+                        0,
+                      );
+                      return (
+                        <td
+                          key={column.dateKey}
+                          className={`border border-[color:var(--border)] p-0 ${
+                            column.isWeekend ? "bg-[color:var(--surface-muted)]" : ""
+                          }`}
+                        >
+                          <button
+                            type="button"
+                            onClick={() => handleCellClick(row, column.dateKey)}
+                            className={`h-7 w-full px-1 hover:bg-[color:var(--surface-muted)] ${
+                              cellEntries.length > 0
+                                ? "text-foreground"
+                                : absence
+                                  ? "text-amber-600"
+                                  : "text-transparent hover:text-[color:var(--muted-foreground)]"
+                            }`}
+                            title={
+                              cellEntries.length > 0
+                                ? cellEntries
+                                    .map(
+                                      (entry) =>
+                                        `${entry.projectName || "未关联项目"}：常规 ${formatHours(
+                                          entry.normalHours,
+                                        )}h / 加班 ${formatHours(entry.overtimeHours)}h`,
+                                    )
+                                    .join("\n")
+                                : absence
+                                  ? `${absence.reason}${absence.note ? `：${absence.note}` : ""}`
+                                  : "补记"
+                            }
+                          >
+                            {cellEntries.length > 0
+                              ? formatWorkUnits(units)
+                              : absence
+                                ? ABSENCE_SHORT_LABELS[absence.reason]
+                                : "+"}
+                          </button>
+                        </td>
+                      );
+                    })}
+                    <td className="border border-[color:var(--border)] px-2 py-1 text-[color:var(--muted-foreground)]">
+                      {row.days}
+                    </td>
+                    <td className="border border-[color:var(--border)] px-2 py-1 text-[color:var(--muted-foreground)]">
+                      {row.absenceDays > 0 ? row.absenceDays : ""}
+                    </td>
+                    <td className="border border-[color:var(--border)] px-2 py-1 font-medium text-foreground">
+                      {formatWorkUnits(row.units)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="text-foreground">
+                  <td className="sticky left-0 z-10 border border-[color:var(--border)] bg-[color:var(--surface)] px-2 py-1 text-left font-medium">
+                    合计
+                  </td>
+                  {dayColumns.map((column) => {
+                    const total = columnTotals.get(column.dateKey) ?? 0;
+                    return (
+                      <td
+                        key={column.dateKey}
+                        className={`border border-[color:var(--border)] px-1 py-1 ${
+                          column.isWeekend ? "bg-[color:var(--surface-muted)]" : ""
+                        }`}
+                      >
+                        {total > 0 ? formatWorkUnits(total) : ""}
+                      </td>
+                    );
+                  })}
+                  <td className="border border-[color:var(--border)] px-2 py-1" />
+                  <td className="border border-[color:var(--border)] px-2 py-1" />
+                  <td className="border border-[color:var(--border)] px-2 py-1 font-medium">
+                    {formatWorkUnits(grandTotal)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+        <p className="mt-3 text-[10px] text-[color:var(--muted-foreground)]">
+          单元格中“事/病/旷”为请假或旷工，表头“停工”为项目因天气停工，均不计个工。导出的考勤表按月排版，含每日个工、请假标记、行列合计及班组长签字栏，可直接打印。
+        </p>
+      </div>
+
+      {cellSelection ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-md rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-semibold">
+                {cellSelection.employee.name} · {cellSelection.date}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setCellSelection(null)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+              >
+                关闭
+              </button>
+            </div>
+            <div className="mt-4 space-y-2">
+              {cellSelection.entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between gap-3 rounded-md border border-[color:var(--border)] px-3 py-2 text-xs"
+                >
+                  <div>
+                    <div className="text-foreground">
+                      {entry.projectName || "未关联项目"}
+                    </div>
+                    <div className="text-[color:var(--muted-foreground)]">
+                      常规 {formatHours(entry.normalHours)}h / 加班{" "}
+                      {formatHours(entry.overtimeHours)}h ·{" "}
+                      {formatWorkUnits(entryUnitMap.get(entry.id) ?? 0)}
+                      个工
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setCellSelection(null);
+                      setModalState({
+                        entry,
+                        employeeIds: [entry.employeeId],
+                        dates: [cellSelection.date],
+                      });
+                    }}
+                    className="text-xs text-foreground hover:underline"
+                  >
+                    编辑
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 flex items-center justify-end">
+              <button
+                type="button"
+                onClick={() => {
+                  setCellSelection(null);
+                  setModalState({
+                    entry: null,
+                    employeeIds: [cellSelection.employee.id],
+                    dates: [cellSelection.date],
+                  });
+                }}
+                className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+              >
+                新增记工
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {modalState ? (
+        <TimeEntryModal
+          canSelectEmployee={canRecordFor}
+          crewIds={crewIds}
+          projects={projects}
+          entry={modalState.entry}
+          defaultDates={modalState.dates}
+          defaultEmployeeIds={modalState.employeeIds}
+          onClose={() => setModalState(null)}
+          onSaved={handleEntrySaved}
+        />
+      ) : null}
+    </section>
+  );
+}
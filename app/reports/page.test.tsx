@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import ReportsPage from "./page";
+import { resources } from "../lib/resources";
+import {
+  MockApiHarness,
+  findRequests,
+  renderWithNotice,
+  setupMockApi,
+} from "../lib/mock/testing";
+
+let mock: MockApiHarness;
+
+beforeEach(async () => {
+  mock = setupMockApi();
+  await mock.signIn();
+  renderWithNotice(<ReportsPage />);
+});
+
+const SUMMARY_PATHS = [
+  "/api/time-entries/summary",
+  "/api/time-entries/summary/project-units",
+  "/api/time-entries/summary/employee-units",
+  "/api/time-entries/summary/worktype-units",
+  "/api/time-entries/summary/tag-units",
+];
+
+function getDayDetailButton(day: number) {
+  return screen
+    .getAllByRole("button", { name: "查看当日记工详情" })
+    .find(
+      (button) =>
+        button.closest(".calendar-cell")?.querySelector("span")?.textContent ===
+        String(day),
+    )!;
+}
+
+function readDayHeadcount(day: number) {
+  const label = getDayDetailButton(day).previousElementSibling?.textContent;
+  return Number(label?.match(/^(\d+)人/)?.[1] ?? 0);
+}
+
+describe("ReportsPage", () => {
+  it("loads the monthly summaries for the current month", async () => {
+    await waitFor(() => {
+      for (const path of SUMMARY_PATHS) {
+        const [request] = findRequests(mock.requests, "GET", path);
+        expect(request?.params.get("month")).toBe("2026-10");
+      }
+    });
+    expect(await screen.findByRole("img", { name: "员工工数饼图" })).toBeTruthy();
+  });
+
+  it("reloads the summaries when the employee filter changes", async () => {
+    const [employeeId] = await resources.employees.listIds({
+      keyword: "张建国",
+    });
+    fireEvent.click(screen.getByRole("button", { name: "高级筛选" }));
+    fireEvent.click(screen.getByRole("button", { name: "全部员工" }));
+    fireEvent.change(screen.getByPlaceholderText("搜索姓名、手机号或工种"), {
+      target: { value: "张建国" },
+    });
+    await waitFor(() => expect(screen.getByText("共 1 位")).toBeTruthy());
+    fireEvent.click(screen.getByRole("button", { name: /张建国/ }));
+
+    await waitFor(() => {
+      for (const path of SUMMARY_PATHS) {
+        const last = findRequests(mock.requests, "GET", path).at(-1);
+        expect(last?.params.get("employee_id")).toBe(employeeId);
+      }
+    });
+    expect(screen.getByRole("button", { name: "张建国" })).toBeTruthy();
+  });
+
+  it("ignores summaries of a month the user already left", async () => {
+    await waitFor(() => expect(readDayHeadcount(19)).toBeGreaterThan(0));
+    const headcount = readDayHeadcount(19);
+
+    // 9 月的请求挂起，模拟切换月份时上一个月份的响应晚到。
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const signals: AbortSignal[] = [];
+    const mockFetch = globalThis.fetch;
+    vi.stubGlobal("fetch", async (input: string, init: RequestInit = {}) => {
+      if (input.includes("month=2026-09")) {
+        signals.push(init.signal!);
+        await gate;
+      }
+      return mockFetch(input, init);
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "高级筛选" }));
+    const monthSelect = screen.getByDisplayValue("2026年10月");
+    fireEvent.change(monthSelect, { target: { value: "2026-09" } });
+    await waitFor(() => expect(signals.length).toBeGreaterThan(0));
+    fireEvent.change(monthSelect, { target: { value: "2026-10" } });
+
+    await waitFor(() =>
+      expect(
+        findRequests(mock.requests, "GET", "/api/time-entries/summary").filter(
+          (request) => request.params.get("month") === "2026-10",
+        ),
+      ).toHaveLength(2),
+    );
+    release();
+
+    await waitFor(() =>
+      expect(
+        findRequests(mock.requests, "GET", "/api/time-entries/summary").some(
+          (request) => request.params.get("month") === "2026-09",
+        ),
+      ).toBe(true),
+    );
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    expect(readDayHeadcount(19)).toBe(headcount);
+  });
+
+  it("opens the entries of a day from the calendar", async () => {
+    await waitFor(() => expect(getDayDetailButton(19)).toBeTruthy());
+    fireEvent.click(getDayDetailButton(19));
+
+    expect(await screen.findByRole("heading", { name: "当日记工详情" })).toBeTruthy();
+    const [request] = findRequests(mock.requests, "GET", "/api/time-entries");
+    expect(request.params.get("date")).toBe("2026-10-19");
+    await waitFor(() => expect(screen.queryByText("加载中")).toBeNull());
+    expect(screen.queryByText("暂无记工记录")).toBeNull();
+    expect(screen.getAllByText(/^常规 \d+(\.\d+)?小时/).length).toBeGreaterThan(0);
+  });
+});
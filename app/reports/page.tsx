@@ -1,33 +1,44 @@
 ﻿"use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { Clock3, Info } from "lucide-react";
 import { apiJson } from "../lib/api";
+import EmployeeSelect from "../components/EmployeeSelect";
 import { useNotice } from "../components/NoticeProvider";
-
-type EmployeeType = "正式工" | "临时工";
-
-type Employee = {
-  id: string;
-  name: string;
-  type: EmployeeType;
-  workType?: string;
-};
-
-type SummaryItem = {
-  date?: string;
-  work_date?: string;
-  headcount?: number;
-  headCount?: number;
-  normal_hours?: number;
-  normalHours?: number;
-  overtime_hours?: number;
-  overtimeHours?: number;
-  total_hours?: number;
-  totalHours?: number;
-  total_work_units?: number;
-  totalWorkUnits?: number;
-};
+import useCachedQuery from "../components/useCachedQuery";
+import useLatestRequest from "../components/useLatestRequest";
+import usePermissions from "../components/usePermissions";
+import {
+  DEFAULT_WORK_UNIT_RULES,
+  WorkUnitRules,
+  fetchWorkUnitRules,
+  hasMissingWorkUnits,
+  resolveEntryWorkUnits,
+} from "../lib/workUnits";
+import {
+  ABSENCE_REASONS,
+  Absence,
+  fetchAbsences,
+  isProjectStoppage,
+} from "../lib/absences";
+import {
+  PieceOutputSummary,
+  fetchPieceOutputSummary,
+  formatPieceQuantity,
+} from "../lib/pieceRates";
+import {
+  DailySummary,
+  EMPLOYEE_TYPES,
+  EmployeeType,
+  OPTION_PAGE_SIZE,
+  Project,
+  SummaryQuery,
+  TimeEntry,
+  WorkUnitSummary,
+  buildQuery,
+  resources,
+} from "../lib/resources";
 
 type SummaryDaily = {
   date: string;
@@ -38,46 +49,14 @@ type SummaryDaily = {
   totalWorkUnits: number;
 };
 
-type TimeEntry = {
-  id: string;
-  employeeName: string;
-  employeeType: string;
-  workType?: string;
-  projectName?: string;
-  normalHours: number;
-  overtimeHours: number;
-  totalHours: number;
+type TimeEntryDetail = TimeEntry & {
   workUnits: number;
-  remark?: string;
-};
-
-type Project = {
-  id: string;
-  name: string;
-  plannedStartDate?: string;
-  plannedEndDate?: string;
 };
 
-type WorkUnitSummaryItem = {
-  project_id?: string;
-  projectId?: string;
-  project_name?: string;
-  projectName?: string;
-  employee_id?: string;
-  employeeId?: string;
-  employee_name?: string;
-  employeeName?: string;
-  work_units?: number;
-  workUnits?: number;
-  work_type?: string;
-  workType?: string;
-  tag?: string;
-};
-
-type WorkUnitSummary = {
-  id: string;
-  name: string;
-  workUnits: number;
+type LedgerSummary = {
+  advanceAmount: number;
+  deductionAmount: number;
+  count: number;
 };
 
 const CHART_WIDTH = 140;
@@ -96,8 +75,6 @@ const PIE_COLORS = [
   "#a9cf68",
 ];
 
-const employeeTypes: EmployeeType[] = ["正式工", "临时工"];
-
 function pad(value: number) {
   return value.toString().padStart(2, "0");
 }
@@ -129,175 +106,36 @@ function formatWorkUnitsLabel(value: number) {
   return `${formatWorkUnits(value)}个工`;
 }
 
-function isTemporaryEmployee(employeeType?: string) {
-  return employeeType === "临时工";
-}
-
-function buildQuery(params: Record<string, string | number | boolean | undefined>) {
-  const search = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    if (value === undefined || value === "") {
-      return;
-    }
-    search.append(key, String(value));
+function formatAmount(value: number) {
+  return value.toLocaleString("zh-CN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
   });
-  const query = search.toString();
-  return query ? `?${query}` : "";
-}
-
-function extractList<T>(payload: unknown): T[] {
-  if (!payload) {
-    return [];
-  }
-  if (Array.isArray(payload)) {
-    return payload as T[];
-  }
-  const data = (payload as { data?: unknown }).data ?? payload;
-  if (Array.isArray(data)) {
-    return data as T[];
-  }
-  if (data && typeof data === "object") {
-    const items = (data as { items?: T[] }).items;
-    if (Array.isArray(items)) {
-      return items;
-    }
-    const list = (data as { list?: T[] }).list;
-    if (Array.isArray(list)) {
-      return list;
-    }
-  }
-  return [];
-}
-
-function normalizeEmployee(item: Record<string, unknown>): Employee | null {
-  const id = String(item.id ?? "");
-  const name = String(item.name ?? "");
-  if (!id || !name) {
-    return null;
-  }
-  const workType = item.work_type ?? item.workType ?? "";
-  return {
-    id,
-    name,
-    type: (item.type as EmployeeType) ?? "正式工",
-    workType: workType ? String(workType) : "",
-  };
-}
-
-function normalizeProject(item: Record<string, unknown>): Project | null {
-  const id = String(item.id ?? "");
-  const name = String(item.name ?? "");
-  if (!id || !name) {
-    return null;
-  }
-  const plannedStartDate = item.planned_start_date ?? item.plannedStartDate ?? "";
-  const plannedEndDate = item.planned_end_date ?? item.plannedEndDate ?? "";
-  return {
-    id,
-    name,
-    plannedStartDate: plannedStartDate ? String(plannedStartDate) : undefined,
-    plannedEndDate: plannedEndDate ? String(plannedEndDate) : undefined,
-  };
-}
-
-function normalizeSummary(item: SummaryItem): SummaryDaily | null {
-  const date = item.date ?? item.work_date;
-  if (!date) {
-    return null;
-  }
-  const normalHours = Number(item.normal_hours ?? item.normalHours ?? 0);
-  const overtimeHours = Number(item.overtime_hours ?? item.overtimeHours ?? 0);
-  const totalHours = Number(
-    item.total_hours ?? item.totalHours ?? normalHours + overtimeHours,
-  );
-  const headcount = Number(item.headcount ?? item.headCount ?? 0);
-  const totalWorkUnitsRaw = item.total_work_units ?? item.totalWorkUnits;
-  const totalWorkUnits =
-    totalWorkUnitsRaw === undefined || totalWorkUnitsRaw === null
-      ? normalHours / 8 + overtimeHours / 6
-      : Number(totalWorkUnitsRaw);
-  return {
-    date,
-    headcount,
-    normalHours,
-    overtimeHours,
-    totalHours,
-    totalWorkUnits,
-  };
-}
-
-function normalizeTimeEntry(item: Record<string, unknown>): TimeEntry | null {
-  const id = String(item.id ?? "");
-  const employeeName = String(
-    item.employee_name ?? item.employeeName ?? "",
-  );
-  if (!id || !employeeName) {
-    return null;
-  }
-  const normalHours = Number(item.normal_hours ?? item.normalHours ?? 0);
-  const overtimeHours = Number(item.overtime_hours ?? item.overtimeHours ?? 0);
-  const totalHours = Number(
-    item.total_hours ?? item.totalHours ?? normalHours + overtimeHours,
-  );
-  const workUnitsRaw = item.work_units ?? item.workUnits;
-  const workUnits =
-    workUnitsRaw === undefined || workUnitsRaw === null
-      ? normalHours / 8 + overtimeHours / 6
-      : Number(workUnitsRaw);
-  const projectName = item.project_name ?? item.projectName ?? "";
-  return {
-    id,
-    employeeName,
-    employeeType: String(item.employee_type ?? item.employeeType ?? ""),
-    workType: String(item.work_type ?? item.workType ?? item.employee_work_type ?? ""),
-    projectName: projectName ? String(projectName) : undefined,
-    normalHours,
-    overtimeHours,
-    totalHours,
-    workUnits,
-    remark: item.remark ? String(item.remark) : undefined,
-  };
-}
-
-function normalizeProjectWorkUnits(item: WorkUnitSummaryItem): WorkUnitSummary | null {
-  const projectId = item.project_id ?? item.projectId;
-  const workUnits = Number(item.work_units ?? item.workUnits ?? 0);
-  const name = String(item.project_name ?? item.projectName ?? "未关联项目");
-  return {
-    id: projectId ? String(projectId) : "unassigned",
-    name,
-    workUnits,
-  };
 }
 
-function normalizeEmployeeWorkUnits(item: WorkUnitSummaryItem): WorkUnitSummary | null {
-  const employeeId = item.employee_id ?? item.employeeId;
-  const employeeName = String(item.employee_name ?? item.employeeName ?? "");
-  if (!employeeId || !employeeName) {
-    return null;
-  }
+function normalizeLedgerSummary(payload: unknown): LedgerSummary {
+  const data = (payload as { data?: unknown } | null)?.data ?? payload;
+  const item =
+    data && typeof data === "object" ? (data as Record<string, unknown>) : {};
   return {
-    id: String(employeeId),
-    name: employeeName,
-    workUnits: Number(item.work_units ?? item.workUnits ?? 0),
+    advanceAmount: Number(item.advance_amount ?? item.advanceAmount ?? 0),
+    deductionAmount: Number(item.deduction_amount ?? item.deductionAmount ?? 0),
+    count: Number(item.count ?? item.total ?? 0),
   };
 }
 
-function normalizeWorkTypeWorkUnits(item: WorkUnitSummaryItem): WorkUnitSummary | null {
-  const workType = String(item.work_type ?? item.workType ?? "未设置工种");
-  return {
-    id: workType,
-    name: workType,
-    workUnits: Number(item.work_units ?? item.workUnits ?? 0),
-  };
+function isTemporaryEmployee(employeeType?: string) {
+  return employeeType === "临时工";
 }
 
-function normalizeTagWorkUnits(item: WorkUnitSummaryItem): WorkUnitSummary | null {
-  const tag = String(item.tag ?? "未设置标签");
+// 后端未返回工数合计时，采用按员工逐日补算后的合计。
+function withWorkUnits(
+  item: DailySummary,
+  fallbackUnits: Map<string, number>,
+): SummaryDaily {
   return {
-    id: tag,
-    name: tag,
-    workUnits: Number(item.work_units ?? item.workUnits ?? 0),
+    ...item,
+    totalWorkUnits: item.totalWorkUnits ?? fallbackUnits.get(item.date) ?? 0,
   };
 }
 
@@ -498,12 +336,14 @@ export default function ReportsPage() {
 
   const [selectedMonth, setSelectedMonth] = useState(() => toMonthKey(today));
   const [selectedEmployeeId, setSelectedEmployeeId] = useState("");
-  const [selectedEmployeeType, setSelectedEmployeeType] = useState("");
+  const [selectedEmployeeType, setSelectedEmployeeType] = useState<
+    EmployeeType | ""
+  >("");
   const [selectedWorkType, setSelectedWorkType] = useState("");
   const [selectedProjectId, setSelectedProjectId] = useState("");
   const [showFilters, setShowFilters] = useState(false);
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
+  const workTypes = useCachedQuery(resources.employees.workTypes);
+  const projects = useCachedQuery(resources.projects.options);
   const [projectWorkUnits, setProjectWorkUnits] = useState<WorkUnitSummary[]>([]);
   const [employeeWorkUnits, setEmployeeWorkUnits] = useState<WorkUnitSummary[]>([]);
   const [workTypeWorkUnits, setWorkTypeWorkUnits] = useState<WorkUnitSummary[]>([]);
@@ -517,7 +357,21 @@ export default function ReportsPage() {
     slice: { id: string; name: string; workUnits: number; color: string; percent: number };
   } | null>(null);
   const pieTooltipRef = useRef<HTMLDivElement>(null);
-  const [summaryList, setSummaryList] = useState<SummaryDaily[]>([]);
+  const [summaryItems, setSummaryItems] = useState<DailySummary[]>([]);
+  // 工数合计缺失时用于补算的当月记录：entries 为筛选范围内的记录，dayEntries 为不加筛选的全部记录。
+  const [unitFallback, setUnitFallback] = useState<{
+    entries: TimeEntry[];
+    dayEntries: TimeEntry[];
+  } | null>(null);
+  const [ledgerSummary, setLedgerSummary] = useState<LedgerSummary | null>(null);
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  // 按员工类型或工种筛选时，由后端返回符合条件的员工 ID 用于过滤请假记录。
+  const [absenceEmployeeIds, setAbsenceEmployeeIds] =
+    useState<Set<string> | null>(null);
+  const [pieceOutput, setPieceOutput] = useState<PieceOutputSummary[]>([]);
+  const [workUnitRules, setWorkUnitRules] = useState<WorkUnitRules>(
+    DEFAULT_WORK_UNIT_RULES,
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [hoverIndex, setHoverIndex] = useState<number | null>(null);
   const [projectTooltip, setProjectTooltip] = useState<{
@@ -527,30 +381,37 @@ export default function ReportsPage() {
   } | null>(null);
   const [dayDetail, setDayDetail] = useState<{
     date: string;
-    entries: TimeEntry[];
+    entries: TimeEntryDetail[];
     loading: boolean;
   } | null>(null);
   const chartRef = useRef<HTMLDivElement | null>(null);
   const { notify } = useNotice();
+  const summaryQuery: SummaryQuery = {
+    month: selectedMonth,
+    employeeId: selectedEmployeeId,
+    employeeType: selectedEmployeeType,
+    workType: selectedWorkType,
+    projectId: selectedProjectId,
+  };
+  const { can } = usePermissions();
+  const beginRequest = useLatestRequest();
   const workTypeOptions = useMemo(() => {
-    const set = new Set<string>();
-    employees.forEach((employee) => {
-      if (employee.workType) {
-        set.add(employee.workType);
-      }
-    });
+    const set = new Set(workTypes.map((item) => item.workType));
     if (selectedWorkType) {
       set.add(selectedWorkType);
     }
     return Array.from(set);
-  }, [employees, selectedWorkType]);
+  }, [workTypes, selectedWorkType]);
 
   useEffect(() => {
-    loadEmployees();
+    loadWorkUnitRules();
   }, []);
 
   useEffect(() => {
     loadSummary();
+    loadLedgerSummary();
+    loadAbsences();
+    loadPieceOutput();
   }, [
     selectedMonth,
     selectedEmployeeId,
@@ -572,181 +433,276 @@ export default function ReportsPage() {
     selectedProjectId,
   ]);
 
-  useEffect(() => {
-    loadProjects();
-  }, [selectedMonth]);
+  async function loadWorkUnitRules() {
+    try {
+      setWorkUnitRules(await fetchWorkUnitRules());
+    } catch (error) {
+      console.error(error);
+    }
+  }
 
-  async function loadEmployees() {
+  async function loadLedgerSummary() {
+    const signal = beginRequest("ledgerSummary");
     try {
       const query = buildQuery({
-        page: 1,
-        page_size: 200,
-        sort: "name_asc",
+        month: selectedMonth,
+        employee_id: selectedEmployeeId || undefined,
+        employee_type: selectedEmployeeType || undefined,
+        work_type: selectedWorkType || undefined,
+        project_id: selectedProjectId || undefined,
       });
-      const payload = await apiJson(`/api/employees${query}`);
-      const list = extractList<Record<string, unknown>>(payload)
-        .map(normalizeEmployee)
-        .filter((item): item is Employee => Boolean(item));
-      setEmployees(list);
+      const payload = await apiJson(`/api/wage-ledger/summary${query}`, {
+        signal,
+      });
+      if (!signal.aborted) {
+        setLedgerSummary(normalizeLedgerSummary(payload));
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
+      setLedgerSummary(null);
     }
   }
 
-  async function loadProjects() {
+  async function loadPieceOutput() {
+    const signal = beginRequest("pieceOutput");
     try {
-      const query = buildQuery({
-        page: 1,
-        page_size: 200,
-        sort: "name_asc",
-      });
-      const payload = await apiJson(`/api/projects${query}`);
-      const list = extractList<Record<string, unknown>>(payload)
-        .map(normalizeProject)
-        .filter((item): item is Project => Boolean(item));
-      setProjects(list);
+      const list = await fetchPieceOutputSummary(
+        {
+          month: selectedMonth,
+          employee_id: selectedEmployeeId || undefined,
+          employee_type: selectedEmployeeType || undefined,
+          work_type: selectedWorkType || undefined,
+          project_id: selectedProjectId || undefined,
+        },
+        signal,
+      );
+      if (!signal.aborted) {
+        setPieceOutput(list);
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
+      setPieceOutput([]);
+    }
+  }
+
+  async function loadAbsences() {
+    const { year, month } = parseMonthKey(selectedMonth);
+    const lastDay = new Date(year, month, 0).getDate();
+    const signal = beginRequest("absences");
+    const hasEmployeeFilter = Boolean(selectedEmployeeType || selectedWorkType);
+    try {
+      const [list, employeeIds] = await Promise.all([
+        fetchAbsences(
+          `${selectedMonth}-01`,
+          `${selectedMonth}-${pad(lastDay)}`,
+          selectedProjectId || undefined,
+          signal,
+        ),
+        hasEmployeeFilter
+          ? resources.employees.listIds(
+              { type: selectedEmployeeType, workType: selectedWorkType },
+              signal,
+            )
+          : null,
+      ]);
+      if (!signal.aborted) {
+        setAbsences(list);
+        setAbsenceEmployeeIds(employeeIds ? new Set(employeeIds) : null);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      setAbsences([]);
     }
   }
 
   async function loadSummary() {
+    const signal = beginRequest("summary");
     try {
       setIsLoading(true);
-      const query = buildQuery({
-        month: selectedMonth,
-        employee_id: selectedEmployeeId || undefined,
-        employee_type: selectedEmployeeType || undefined,
-        work_type: selectedWorkType || undefined,
-        project_id: selectedProjectId || undefined,
-      });
-      const payload = await apiJson(`/api/time-entries/summary${query}`);
-      const list = extractList<SummaryItem>(payload)
-        .map(normalizeSummary)
-        .filter((item): item is SummaryDaily => Boolean(item));
-      setSummaryList(list);
+      const list = await resources.summaries.daily(summaryQuery, signal);
+      const fallback = list.some((item) => item.totalWorkUnits === null)
+        ? await loadUnitFallback(signal)
+        : null;
+      if (!signal.aborted) {
+        setSummaryItems(list);
+        setUnitFallback(fallback);
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       const message =
         error instanceof Error ? error.message : "加载报表失败，请稍后再试。";
       notify(message, "error");
-      setSummaryList([]);
+      setSummaryItems([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
   }
 
+  // 起算值按员工当天的全部记录判断，因此除筛选范围内的记录外还需要不加筛选的当月记录。
+  async function loadUnitFallback(signal: AbortSignal) {
+    const { year, month } = parseMonthKey(selectedMonth);
+    const lastDay = new Date(year, month, 0).getDate();
+    const range = {
+      startDate: `${selectedMonth}-01`,
+      endDate: `${selectedMonth}-${pad(lastDay)}`,
+    };
+    const hasFilter = Boolean(
+      selectedEmployeeId ||
+        selectedEmployeeType ||
+        selectedWorkType ||
+        selectedProjectId,
+    );
+    const entries = await resources.timeEntries.listAll(
+      {
+        ...range,
+        employeeId: selectedEmployeeId,
+        employeeType: selectedEmployeeType,
+        workType: selectedWorkType,
+        projectId: selectedProjectId,
+      },
+      signal,
+    );
+    const dayEntries = hasFilter
+      ? await resources.timeEntries.listAll(range, signal)
+      : entries;
+    return { entries, dayEntries };
+  }
+
   async function loadProjectWorkUnits() {
+    const signal = beginRequest("projectUnits");
     try {
       setIsProjectUnitsLoading(true);
-      const query = buildQuery({
-        month: selectedMonth,
-        employee_id: selectedEmployeeId || undefined,
-        employee_type: selectedEmployeeType || undefined,
-        work_type: selectedWorkType || undefined,
-        project_id: selectedProjectId || undefined,
-      });
-      const payload = await apiJson(`/api/time-entries/summary/project-units${query}`);
-      const list = extractList<WorkUnitSummaryItem>(payload)
-        .map(normalizeProjectWorkUnits)
-        .filter((item): item is WorkUnitSummary => Boolean(item));
-      setProjectWorkUnits(list);
+      const list = await resources.summaries.projectUnits(summaryQuery, signal);
+      if (!signal.aborted) {
+        setProjectWorkUnits(list);
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       setProjectWorkUnits([]);
     } finally {
-      setIsProjectUnitsLoading(false);
+      if (!signal.aborted) {
+        setIsProjectUnitsLoading(false);
+      }
     }
   }
 
   async function loadEmployeeWorkUnits() {
+    const signal = beginRequest("employeeUnits");
     try {
       setIsEmployeeUnitsLoading(true);
-      const query = buildQuery({
-        month: selectedMonth,
-        employee_id: selectedEmployeeId || undefined,
-        employee_type: selectedEmployeeType || undefined,
-        work_type: selectedWorkType || undefined,
-        project_id: selectedProjectId || undefined,
-      });
-      const payload = await apiJson(`/api/time-entries/summary/employee-units${query}`);
-      const list = extractList<WorkUnitSummaryItem>(payload)
-        .map(normalizeEmployeeWorkUnits)
-        .filter((item): item is WorkUnitSummary => Boolean(item));
-      setEmployeeWorkUnits(list);
+      const list = await resources.summaries.employeeUnits(summaryQuery, signal);
+      if (!signal.aborted) {
+        setEmployeeWorkUnits(list);
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       setEmployeeWorkUnits([]);
     } finally {
-      setIsEmployeeUnitsLoading(false);
+      if (!signal.aborted) {
+        setIsEmployeeUnitsLoading(false);
+      }
     }
   }
 
   async function loadWorkTypeWorkUnits() {
+    const signal = beginRequest("workTypeUnits");
     try {
       setIsWorkTypeUnitsLoading(true);
-      const query = buildQuery({
-        month: selectedMonth,
-        employee_id: selectedEmployeeId || undefined,
-        employee_type: selectedEmployeeType || undefined,
-        work_type: selectedWorkType || undefined,
-        project_id: selectedProjectId || undefined,
-      });
-      const payload = await apiJson(`/api/time-entries/summary/worktype-units${query}`);
-      const list = extractList<WorkUnitSummaryItem>(payload)
-        .map(normalizeWorkTypeWorkUnits)
-        .filter((item): item is WorkUnitSummary => Boolean(item));
-      setWorkTypeWorkUnits(list);
+      const list = await resources.summaries.workTypeUnits(summaryQuery, signal);
+      if (!signal.aborted) {
+        setWorkTypeWorkUnits(list);
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       setWorkTypeWorkUnits([]);
     } finally {
-      setIsWorkTypeUnitsLoading(false);
+      if (!signal.aborted) {
+        setIsWorkTypeUnitsLoading(false);
+      }
     }
   }
 
   async function loadTagWorkUnits() {
+    const signal = beginRequest("tagUnits");
     try {
       setIsTagUnitsLoading(true);
-      const query = buildQuery({
-        month: selectedMonth,
-        employee_id: selectedEmployeeId || undefined,
-        employee_type: selectedEmployeeType || undefined,
-        work_type: selectedWorkType || undefined,
-        project_id: selectedProjectId || undefined,
-      });
-      const payload = await apiJson(`/api/time-entries/summary/tag-units${query}`);
-      const list = extractList<WorkUnitSummaryItem>(payload)
-        .map(normalizeTagWorkUnits)
-        .filter((item): item is WorkUnitSummary => Boolean(item));
-      setTagWorkUnits(list);
+      const list = await resources.summaries.tagUnits(summaryQuery, signal);
+      if (!signal.aborted) {
+        setTagWorkUnits(list);
+      }
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       setTagWorkUnits([]);
     } finally {
-      setIsTagUnitsLoading(false);
+      if (!signal.aborted) {
+        setIsTagUnitsLoading(false);
+      }
     }
   }
 
   async function openDayDetail(date: string) {
+    const signal = beginRequest("dayDetail");
     setDayDetail({ date, entries: [], loading: true });
     try {
-      const query = buildQuery({
-        date,
-        employee_id: selectedEmployeeId || undefined,
-        employee_type: selectedEmployeeType || undefined,
-        work_type: selectedWorkType || undefined,
-        project_id: selectedProjectId || undefined,
-        page: 1,
-        page_size: 200,
-        sort: "hours_desc",
-      });
-      const payload = await apiJson(`/api/time-entries${query}`);
-      const list = extractList<Record<string, unknown>>(payload)
-        .map(normalizeTimeEntry)
-        .filter((item): item is TimeEntry => Boolean(item));
-      setDayDetail({ date, entries: list, loading: false });
+      const result = await resources.timeEntries.list(
+        {
+          date,
+          employeeId: selectedEmployeeId,
+          employeeType: selectedEmployeeType,
+          workType: selectedWorkType,
+          projectId: selectedProjectId,
+          pageSize: OPTION_PAGE_SIZE,
+          sort: "hours_desc",
+        },
+        signal,
+      );
+      // 补算工数需要员工当天的全部记录，不能只看筛选后的结果。
+      const dayEntries = hasMissingWorkUnits(result.items)
+        ? await resources.timeEntries.listAll({ date }, signal)
+        : [];
+      if (signal.aborted) {
+        return;
+      }
+      const unitMap = resolveEntryWorkUnits(
+        result.items,
+        dayEntries,
+        workUnitRules,
+      );
+      const entries = result.items.map((entry) => ({
+        ...entry,
+        workUnits: unitMap.get(entry.id) ?? 0,
+      }));
+      setDayDetail({ date, entries, loading: false });
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       console.error(error);
       const message =
         error instanceof Error ? error.message : "加载当日记工失败。";
@@ -761,6 +717,30 @@ export default function ReportsPage() {
   const startIndex = (monthStart.getDay() + 6) % 7;
   const totalCells = Math.ceil((startIndex + daysInMonth) / 7) * 7;
 
+  const fallbackUnits = useMemo(() => {
+    const map = new Map<string, number>();
+    if (!unitFallback) {
+      return map;
+    }
+    const unitMap = resolveEntryWorkUnits(
+      unitFallback.entries,
+      unitFallback.dayEntries,
+      workUnitRules,
+    );
+    unitFallback.entries.forEach((entry) => {
+      map.set(
+        entry.date,
+        (map.get(entry.date) ?? 0) + (unitMap.get(entry.id) ?? 0),
+      );
+    });
+    return map;
+  }, [unitFallback, workUnitRules]);
+
+  const summaryList = useMemo(
+    () => summaryItems.map((item) => withWorkUnits(item, fallbackUnits)),
+    [fallbackUnits, summaryItems],
+  );
+
   const summaryMap = useMemo(() => {
     const map = new Map<string, SummaryDaily>();
     summaryList.forEach((item) => {
@@ -870,6 +850,33 @@ export default function ReportsPage() {
   const currentMonthLabel =
     monthOptions.find((option) => option.value === selectedMonth)?.label ??
     selectedMonth;
+  // 员工请假按人次计、项目停工按天计；员工筛选只作用于请假记录。
+  const absenceSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    const stoppageDates = new Set<string>();
+    absences.forEach((absence) => {
+      if (isProjectStoppage(absence)) {
+        stoppageDates.add(absence.date);
+        return;
+      }
+      if (
+        (selectedEmployeeId && absence.employeeId !== selectedEmployeeId) ||
+        (absenceEmployeeIds && !absenceEmployeeIds.has(absence.employeeId ?? ""))
+      ) {
+        return;
+      }
+      counts.set(absence.reason, (counts.get(absence.reason) ?? 0) + 1);
+    });
+    counts.set("停工-天气", (counts.get("停工-天气") ?? 0) + stoppageDates.size);
+    const reasons = ABSENCE_REASONS.map((reason) => ({
+      reason,
+      count: counts.get(reason) ?? 0,
+    })).filter((item) => item.count > 0);
+    return {
+      reasons,
+      total: reasons.reduce((sum, item) => sum + item.count, 0),
+    };
+  }, [absenceEmployeeIds, absences, selectedEmployeeId]);
   const dayDetailSummary = useMemo(() => {
     if (!dayDetail) {
       return null;
@@ -1003,6 +1010,20 @@ export default function ReportsPage() {
           >
             高级筛选
           </button>
+          {can("settlement.view") ? (
+            <Link
+              href="/reports/settlement"
+              className="ml-2 inline-flex items-center gap-1 rounded-md border border-[color:var(--border)] px-2 py-0.5 text-[11px] text-foreground hover:bg-[color:var(--surface-muted)]"
+            >
+              工资结算
+            </Link>
+          ) : null}
+          <Link
+            href="/reports/attendance"
+            className="ml-2 inline-flex items-center gap-1 rounded-md border border-[color:var(--border)] px-2 py-0.5 text-[11px] text-foreground hover:bg-[color:var(--surface-muted)]"
+          >
+            考勤表
+          </Link>
         </p>
       </div>
 
@@ -1023,37 +1044,24 @@ export default function ReportsPage() {
                 ))}
               </select>
             </label>
-            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+            <div className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
               员工
-              <select
+              <EmployeeSelect
                 value={selectedEmployeeId}
-                onChange={(event) => setSelectedEmployeeId(event.target.value)}
-                className="h-8 min-w-[180px] rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
-                disabled={employees.length === 0}
-              >
-                {employees.length === 0 ? (
-                  <option value="">暂无员工</option>
-                ) : (
-                  <>
-                    <option value="">全部员工</option>
-                    {employees.map((employee) => (
-                      <option key={employee.id} value={employee.id}>
-                        {employee.name}
-                      </option>
-                    ))}
-                  </>
-                )}
-              </select>
-            </label>
+                onChange={setSelectedEmployeeId}
+              />
+            </div>
             <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
               员工类型
               <select
                 value={selectedEmployeeType}
-                onChange={(event) => setSelectedEmployeeType(event.target.value)}
+                onChange={(event) =>
+                  setSelectedEmployeeType(event.target.value as EmployeeType | "")
+                }
                 className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
               >
                 <option value="">全部类型</option>
-                {employeeTypes.map((type) => (
+                {EMPLOYEE_TYPES.map((type) => (
                   <option key={type} value={type}>
                     {type}
                   </option>
@@ -1101,6 +1109,72 @@ export default function ReportsPage() {
         </div>
       ) : null}
 
+      {pieceOutput.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] px-4 py-2 text-xs text-[color:var(--muted-foreground)]">
+          <span>{currentMonthLabel} · 计件产值</span>
+          {pieceOutput.map((item) => (
+            <span key={item.pieceItemId || item.itemName}>
+              {item.itemName}{" "}
+              <span className="font-medium text-foreground">
+                {formatPieceQuantity(item.quantity)}
+                {item.unit}
+              </span>{" "}
+              / ¥{formatAmount(item.amount)}
+            </span>
+          ))}
+          <span className="ml-auto">
+            计件工资合计{" "}
+            <span className="font-medium text-foreground">
+              ¥
+              {formatAmount(
+                pieceOutput.reduce((sum, item) => sum + item.amount, 0),
+              )}
+            </span>
+          </span>
+        </div>
+      ) : null}
+
+      {absenceSummary.total > 0 ? (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] px-4 py-2 text-xs text-[color:var(--muted-foreground)]">
+          <span>{currentMonthLabel} · 请假与停工（不计个工）</span>
+          {absenceSummary.reasons.map((item) => (
+            <span key={item.reason}>
+              {item.reason}{" "}
+              <span className="font-medium text-foreground">{item.count}</span>
+              {item.reason === "停工-天气" ? "天" : "人次"}
+            </span>
+          ))}
+          <Link
+            href="/reports/attendance"
+            className="ml-auto text-foreground hover:underline"
+          >
+            查看考勤表
+          </Link>
+        </div>
+      ) : null}
+
+      {can("settlement.view") && ledgerSummary && ledgerSummary.count > 0 ? (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] px-4 py-2 text-xs text-[color:var(--muted-foreground)]">
+          <span>{currentMonthLabel} · 借支与扣款</span>
+          <span>
+            借支{" "}
+            <span className="font-medium text-foreground">
+              ¥{formatAmount(ledgerSummary.advanceAmount)}
+            </span>
+          </span>
+          <span>
+            扣款{" "}
+            <span className="font-medium text-foreground">
+              ¥{formatAmount(ledgerSummary.deductionAmount)}
+            </span>
+          </span>
+          <span>共 {ledgerSummary.count} 笔</span>
+          <Link href="/reports/settlement" className="ml-auto text-foreground hover:underline">
+            查看结算
+          </Link>
+        </div>
+      ) : null}
+
       <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
         <div className="flex flex-wrap items-center justify-between gap-3">
           <div>
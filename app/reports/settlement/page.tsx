@@ -0,0 +1,852 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Clock3, Lock, LockOpen } from "lucide-react";
+import { apiBlob, apiJson } from "../../lib/api";
+import { useNotice } from "../../components/NoticeProvider";
+import useCachedQuery from "../../components/useCachedQuery";
+import useLatestRequest from "../../components/useLatestRequest";
+import usePermissions from "../../components/usePermissions";
+import {
+  PeriodLock,
+  fetchPeriodLocks,
+  lockPeriod,
+  unlockPeriod,
+} from "../../lib/periodLocks";
+import { buildQuery, extractList, resources } from "../../lib/resources";
+
+type SettlementRow = {
+  employeeId: string;
+  employeeName: string;
+  employeeType: string;
+  workType?: string;
+  workUnits: number;
+  normalHours: number;
+  overtimeHours: number;
+  dailyRate: number | null;
+  pieceAmount: number;
+  earnedAmount: number;
+  advanceAmount: number;
+  deductionAmount: number;
+  balance: number;
+};
+
+type WageRateRule = {
+  id: string;
+  workType?: string;
+  projectId?: string;
+  projectName?: string;
+  dailyRate: number | null;
+  overtimeRate: number | null;
+};
+
+type RuleFormState = {
+  workType: string;
+  projectId: string;
+  dailyRate: string;
+  overtimeRate: string;
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toMonthKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+function getMonthOptions(baseDate: Date, count = 24) {
+  const options = [] as Array<{ value: string; label: string }>;
+  for (let i = 0; i < count; i += 1) {
+    const date = new Date(baseDate.getFullYear(), baseDate.getMonth() - i, 1);
+    options.push({
+      value: toMonthKey(date),
+      label: `${date.getFullYear()}年${date.getMonth() + 1}月`,
+    });
+  }
+  return options;
+}
+
+function formatHours(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function formatWorkUnits(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString("zh-CN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function formatDateTime(value?: string) {
+  if (!value) {
+    return "-";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatRate(value: number | null) {
+  if (value === null) {
+    return "-";
+  }
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
+
+function toNullableNumber(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") {
+    return null;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function parseRateInput(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const rate = Number(trimmed);
+  if (!Number.isFinite(rate) || rate < 0) {
+    return undefined;
+  }
+  return rate;
+}
+
+function normalizeSettlementRow(item: Record<string, unknown>): SettlementRow | null {
+  const employeeId = String(item.employee_id ?? item.employeeId ?? "");
+  const employeeName = String(item.employee_name ?? item.employeeName ?? "");
+  if (!employeeId || !employeeName) {
+    return null;
+  }
+  const earnedAmount = Number(item.earned_amount ?? item.earnedAmount ?? 0);
+  const advanceAmount = Number(item.advance_amount ?? item.advanceAmount ?? 0);
+  const deductionAmount = Number(
+    item.deduction_amount ?? item.deductionAmount ?? 0,
+  );
+  const balanceRaw = item.balance ?? item.balance_amount ?? item.balanceAmount;
+  const workType = item.work_type ?? item.workType ?? "";
+  return {
+    employeeId,
+    employeeName,
+    employeeType: String(item.employee_type ?? item.employeeType ?? ""),
+    workType: workType ? String(workType) : "",
+    workUnits: Number(item.work_units ?? item.workUnits ?? 0),
+    normalHours: Number(item.normal_hours ?? item.normalHours ?? 0),
+    overtimeHours: Number(item.overtime_hours ?? item.overtimeHours ?? 0),
+    dailyRate: toNullableNumber(item.daily_rate ?? item.dailyRate),
+    pieceAmount: Number(item.piece_amount ?? item.pieceAmount ?? 0),
+    earnedAmount,
+    advanceAmount,
+    deductionAmount,
+    balance:
+      balanceRaw === undefined || balanceRaw === null
+        ? earnedAmount - advanceAmount - deductionAmount
+        : Number(balanceRaw),
+  };
+}
+
+function normalizeWageRateRule(item: Record<string, unknown>): WageRateRule | null {
+  const id = String(item.id ?? "");
+  if (!id) {
+    return null;
+  }
+  const workType = item.work_type ?? item.workType ?? "";
+  const projectId = item.project_id ?? item.projectId ?? "";
+  const projectName = item.project_name ?? item.projectName ?? "";
+  return {
+    id,
+    workType: workType ? String(workType) : undefined,
+    projectId: projectId ? String(projectId) : undefined,
+    projectName: projectName ? String(projectName) : undefined,
+    dailyRate: toNullableNumber(item.daily_rate ?? item.dailyRate),
+    overtimeRate: toNullableNumber(item.overtime_rate ?? item.overtimeRate),
+  };
+}
+
+const emptyRuleForm: RuleFormState = {
+  workType: "",
+  projectId: "",
+  dailyRate: "",
+  overtimeRate: "",
+};
+
+export default function SettlementPage() {
+  const [today] = useState(() => new Date());
+  const monthOptions = useMemo(() => getMonthOptions(today), [today]);
+  const [selectedMonth, setSelectedMonth] = useState(() => toMonthKey(today));
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+  const projects = useCachedQuery(resources.projects.options);
+  const [rows, setRows] = useState<SettlementRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRuleModalOpen, setIsRuleModalOpen] = useState(false);
+  const [rules, setRules] = useState<WageRateRule[]>([]);
+  const [isRulesLoading, setIsRulesLoading] = useState(false);
+  const [ruleForm, setRuleForm] = useState<RuleFormState>(emptyRuleForm);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+  const [isLockSaving, setIsLockSaving] = useState(false);
+  const { notify, confirm } = useNotice();
+  const { can } = usePermissions();
+  const beginRequest = useLatestRequest();
+
+  const totals = useMemo(
+    () =>
+      rows.reduce(
+        (sum, row) => ({
+          workUnits: sum.workUnits + row.workUnits,
+          pieceAmount: sum.pieceAmount + row.pieceAmount,
+          earnedAmount: sum.earnedAmount + row.earnedAmount,
+          advanceAmount: sum.advanceAmount + row.advanceAmount,
+          deductionAmount: sum.deductionAmount + row.deductionAmount,
+          balance: sum.balance + row.balance,
+        }),
+        {
+          workUnits: 0,
+          pieceAmount: 0,
+          earnedAmount: 0,
+          advanceAmount: 0,
+          deductionAmount: 0,
+          balance: 0,
+        },
+      ),
+    [rows],
+  );
+  const workTypeOptions = useMemo(() => {
+    const set = new Set<string>();
+    rows.forEach((row) => {
+      if (row.workType) {
+        set.add(row.workType);
+      }
+    });
+    rules.forEach((rule) => {
+      if (rule.workType) {
+        set.add(rule.workType);
+      }
+    });
+    return Array.from(set);
+  }, [rows, rules]);
+  const currentMonthLabel =
+    monthOptions.find((option) => option.value === selectedMonth)?.label ??
+    selectedMonth;
+  const currentLock = periodLocks.find((lock) => lock.month === selectedMonth);
+  const isMonthLocked = Boolean(currentLock?.isLocked);
+
+  useEffect(() => {
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setPeriodLocks(await fetchPeriodLocks());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function handleToggleLock() {
+    const confirmed = await confirm(
+      isMonthLocked
+        ? `确认解锁${currentMonthLabel}吗？解锁后该月记工可再次修改，已发工资可能与记录不一致。`
+        : `确认锁定${currentMonthLabel}吗？锁定后该月记工不能新增、修改或删除。`,
+    );
+    if (!confirmed) {
+      return;
+    }
+    try {
+      setIsLockSaving(true);
+      if (isMonthLocked) {
+        await unlockPeriod(selectedMonth);
+      } else {
+        await lockPeriod(selectedMonth);
+      }
+      await loadPeriodLocks();
+      notify(
+        isMonthLocked
+          ? `${currentMonthLabel}已解锁。`
+          : `${currentMonthLabel}已锁定。`,
+        "success",
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "操作失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsLockSaving(false);
+    }
+  }
+
+
+  const loadSettlement = useCallback(async () => {
+    const signal = beginRequest("settlement");
+    try {
+      setIsLoading(true);
+      const query = buildQuery({
+        month: selectedMonth,
+        project_id: selectedProjectId || undefined,
+      });
+      const payload = await apiJson(`/api/payroll/settlement${query}`, {
+        signal,
+      });
+      if (signal.aborted) {
+        return;
+      }
+      const list = extractList<Record<string, unknown>>(payload)
+        .map(normalizeSettlementRow)
+        .filter((item): item is SettlementRow => Boolean(item));
+      setRows(list);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      const message =
+        error instanceof Error ? error.message : "加载工资结算失败，请稍后再试。";
+      notify(message, "error");
+      setRows([]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [beginRequest, notify, selectedMonth, selectedProjectId]);
+
+  useEffect(() => {
+    loadSettlement();
+  }, [loadSettlement]);
+
+  async function loadRules() {
+    try {
+      setIsRulesLoading(true);
+      const payload = await apiJson("/api/wage-rates");
+      const list = extractList<Record<string, unknown>>(payload)
+        .map(normalizeWageRateRule)
+        .filter((item): item is WageRateRule => Boolean(item));
+      setRules(list);
+    } catch (error) {
+      console.error(error);
+      setRules([]);
+    } finally {
+      setIsRulesLoading(false);
+    }
+  }
+
+  function openRuleModal() {
+    setRuleForm(emptyRuleForm);
+    setIsRuleModalOpen(true);
+    loadRules();
+  }
+
+  async function handleRuleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const workType = ruleForm.workType.trim();
+    if (!workType && !ruleForm.projectId) {
+      notify("请至少选择工种或项目。", "warning");
+      return;
+    }
+    const dailyRate = parseRateInput(ruleForm.dailyRate);
+    const overtimeRate = parseRateInput(ruleForm.overtimeRate);
+    if (dailyRate === undefined || overtimeRate === undefined) {
+      notify("工价需为不小于 0 的数字。", "warning");
+      return;
+    }
+    if (dailyRate === null && overtimeRate === null) {
+      notify("请填写日工资或加班单价。", "warning");
+      return;
+    }
+
+    try {
+      await apiJson("/api/wage-rates", {
+        method: "POST",
+        body: {
+          work_type: workType || null,
+          project_id: ruleForm.projectId || null,
+          daily_rate: dailyRate,
+          overtime_rate: overtimeRate,
+        },
+      });
+      notify("工价规则已新增。", "success");
+      setRuleForm(emptyRuleForm);
+      await loadRules();
+      await loadSettlement();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function handleRuleDelete(ruleId: string) {
+    const confirmed = await confirm("确认删除该工价规则吗？");
+    if (!confirmed) {
+      return;
+    }
+    try {
+      await apiJson(`/api/wage-rates/${ruleId}`, { method: "DELETE" });
+      notify("工价规则已删除。", "success");
+      await loadRules();
+      await loadSettlement();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "删除失败，请稍后再试。";
+      notify(message, "error");
+    }
+  }
+
+  async function handleExport() {
+    try {
+      setIsExporting(true);
+      const query = buildQuery({
+        format: "xlsx",
+        month: selectedMonth,
+        project_id: selectedProjectId || undefined,
+      });
+      const blob = await apiBlob(`/api/payroll/settlement/export${query}`);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+
+      link.href = url;
+      link.download = `工资结算_${selectedMonth}.xlsx`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+      notify("工资结算导出成功。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "导出失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">工资结算</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          按月汇总每位员工的个工与应发工资，扣除已借支与扣款后得出未结余额。
+          <Link
+            href="/reports"
+            className="ml-2 inline-flex items-center gap-1 rounded-md border border-[color:var(--border)] px-2 py-0.5 text-[11px] text-foreground hover:bg-[color:var(--surface-muted)]"
+          >
+            返回月度总览
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedMonth}
+              onChange={(event) => setSelectedMonth(event.target.value)}
+              className="h-8 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+            >
+              {monthOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={selectedProjectId}
+              onChange={(event) => setSelectedProjectId(event.target.value)}
+              className="h-8 min-w-[160px] rounded-md border border-[color:var(--border)] bg-transparent px-2 text-xs text-foreground"
+              disabled={projects.length === 0}
+            >
+              {projects.length === 0 ? (
+                <option value="">暂无项目</option>
+              ) : (
+                <>
+                  <option value="">全部项目</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </>
+              )}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {can("period.lock") ? (
+              <button
+                type="button"
+                onClick={handleToggleLock}
+                disabled={isLockSaving}
+                className="inline-flex h-8 items-center gap-1 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isMonthLocked ? (
+                  <LockOpen className="h-3.5 w-3.5" />
+                ) : (
+                  <Lock className="h-3.5 w-3.5" />
+                )}
+                {isMonthLocked ? "解锁本月" : "锁定本月"}
+              </button>
+            ) : null}
+            {can("settings.manage") ? (
+              <button
+                type="button"
+                onClick={openRuleModal}
+                className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+              >
+                工价规则
+              </button>
+            ) : null}
+            {can("export") ? (
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={isExporting}
+                className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isExporting ? "导出中..." : "导出Excel"}
+              </button>
+            ) : null}
+          </div>
+        </div>
+
+        {currentLock ? (
+          <div
+            className={`mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 rounded-md border border-[color:var(--border)] px-3 py-2 text-[11px] ${
+              isMonthLocked
+                ? "bg-amber-50 text-amber-700"
+                : "text-[color:var(--muted-foreground)]"
+            }`}
+          >
+            <span className="inline-flex items-center gap-1 font-medium">
+              {isMonthLocked ? (
+                <Lock className="h-3 w-3" />
+              ) : (
+                <LockOpen className="h-3 w-3" />
+              )}
+              {isMonthLocked ? "本月已锁定，记工不可修改" : "本月已解锁"}
+            </span>
+            <span>
+              锁定：{currentLock.lockedBy || "-"} · {formatDateTime(currentLock.lockedAt)}
+            </span>
+            {currentLock.unlockedAt ? (
+              <span>
+                解锁：{currentLock.unlockedBy || "-"} ·{" "}
+                {formatDateTime(currentLock.unlockedAt)}
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+
+        <div className="mt-4 grid gap-2 text-xs sm:grid-cols-3 lg:grid-cols-6">
+          {[
+            { label: "合计个工", value: `${formatWorkUnits(totals.workUnits)}个工` },
+            { label: "计件工资", value: `¥${formatAmount(totals.pieceAmount)}` },
+            { label: "应发合计", value: `¥${formatAmount(totals.earnedAmount)}` },
+            { label: "已借支", value: `¥${formatAmount(totals.advanceAmount)}` },
+            { label: "扣款", value: `¥${formatAmount(totals.deductionAmount)}` },
+            { label: "未结余额", value: `¥${formatAmount(totals.balance)}` },
+          ].map((card) => (
+            <div
+              key={card.label}
+              className="rounded-md border border-[color:var(--border)] bg-[color:var(--surface-muted)] px-3 py-2"
+            >
+              <div className="text-[10px] text-[color:var(--muted-foreground)]">
+                {currentMonthLabel} · {card.label}
+              </div>
+              <div className="text-sm font-semibold text-foreground">
+                {card.value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[color:var(--muted-foreground)]">
+              <tr>
+                <th className="pb-1 font-medium">员工姓名</th>
+                <th className="pb-1 font-medium">工种</th>
+                <th className="pb-1 font-medium">工时</th>
+                <th className="pb-1 text-right font-medium">个工</th>
+                <th className="pb-1 text-right font-medium">日工资</th>
+                <th className="pb-1 text-right font-medium">计件</th>
+                <th className="pb-1 text-right font-medium">应发</th>
+                <th className="pb-1 text-right font-medium">已借支</th>
+                <th className="pb-1 text-right font-medium">扣款</th>
+                <th className="pb-1 text-right font-medium">未结余额</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td
+                    colSpan={10}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    <div className="flex items-center justify-center gap-2">
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+                      <span>加载中</span>
+                    </div>
+                  </td>
+                </tr>
+              ) : rows.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={10}
+                    className="py-6 text-center text-[color:var(--muted-foreground)]"
+                  >
+                    暂无结算数据
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => (
+                  <tr
+                    key={row.employeeId}
+                    className="border-t border-[color:var(--border)]"
+                  >
+                    <td className="whitespace-nowrap py-2 text-foreground">
+                      <span className="inline-flex items-center gap-1.5">
+                        <span>{row.employeeName}</span>
+                        {row.employeeType === "临时工" ? (
+                          <Clock3
+                            className="h-3.5 w-3.5 text-amber-500"
+                            aria-label="临时工标记"
+                          />
+                        ) : null}
+                      </span>
+                    </td>
+                    <td className="py-2 text-[color:var(--muted-foreground)]">
+                      {row.workType || "-"}
+                    </td>
+                    <td className="whitespace-nowrap py-2 text-[color:var(--muted-foreground)]">
+                      常规 {formatHours(row.normalHours)}h
+                      {row.overtimeHours > 0 ? (
+                        <> / 加班 {formatHours(row.overtimeHours)}h</>
+                      ) : null}
+                    </td>
+                    <td className="py-2 text-right text-foreground">
+                      {formatWorkUnits(row.workUnits)}
+                    </td>
+                    <td className="py-2 text-right text-[color:var(--muted-foreground)]">
+                      {formatRate(row.dailyRate)}
+                    </td>
+                    <td className="py-2 text-right text-[color:var(--muted-foreground)]">
+                      {row.pieceAmount > 0 ? formatAmount(row.pieceAmount) : "-"}
+                    </td>
+                    <td className="py-2 text-right text-foreground">
+                      {formatAmount(row.earnedAmount)}
+                    </td>
+                    <td className="py-2 text-right text-[color:var(--muted-foreground)]">
+                      {formatAmount(row.advanceAmount)}
+                    </td>
+                    <td className="py-2 text-right text-[color:var(--muted-foreground)]">
+                      {formatAmount(row.deductionAmount)}
+                    </td>
+                    <td
+                      className={`py-2 text-right font-medium ${
+                        row.balance < 0 ? "text-red-500" : "text-foreground"
+                      }`}
+                    >
+                      {formatAmount(row.balance)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-3 text-[10px] text-[color:var(--muted-foreground)]">
+          应发按员工工价计算；匹配到工价规则时按规则覆盖（项目规则优先于工种规则）。未设置加班单价时，加班按个工折算计入日工资。计件工资按数量 × 项目计件单价计算，已含在应发中。
+        </p>
+      </div>
+
+      {isRuleModalOpen ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-2xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-semibold">工价规则</h3>
+              <button
+                type="button"
+                onClick={() => setIsRuleModalOpen(false)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+              >
+                关闭
+              </button>
+            </div>
+
+            <div className="mt-4 max-h-64 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[color:var(--muted-foreground)]">
+                  <tr>
+                    <th className="pb-1 font-medium">工种</th>
+                    <th className="pb-1 font-medium">项目</th>
+                    <th className="pb-1 text-right font-medium">日工资</th>
+                    <th className="pb-1 text-right font-medium">加班单价</th>
+                    <th className="pb-1 text-right font-medium">操作</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {isRulesLoading ? (
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className="py-6 text-center text-[color:var(--muted-foreground)]"
+                      >
+                        加载中
+                      </td>
+                    </tr>
+                  ) : rules.length === 0 ? (
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className="py-6 text-center text-[color:var(--muted-foreground)]"
+                      >
+                        暂无工价规则，结算按员工工价计算
+                      </td>
+                    </tr>
+                  ) : (
+                    rules.map((rule) => (
+                      <tr
+                        key={rule.id}
+                        className="border-t border-[color:var(--border)]"
+                      >
+                        <td className="py-2 text-foreground">
+                          {rule.workType || "全部工种"}
+                        </td>
+                        <td className="py-2 text-foreground">
+                          {rule.projectName ||
+                            projects.find((project) => project.id === rule.projectId)
+                              ?.name ||
+                            "全部项目"}
+                        </td>
+                        <td className="py-2 text-right text-foreground">
+                          {formatRate(rule.dailyRate)}
+                        </td>
+                        <td className="py-2 text-right text-foreground">
+                          {formatRate(rule.overtimeRate)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {can("delete") ? (
+                            <button
+                              type="button"
+                              onClick={() => handleRuleDelete(rule.id)}
+                              className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                            >
+                              删除
+                            </button>
+                          ) : null}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <form
+              onSubmit={handleRuleSubmit}
+              className="mt-4 space-y-3 border-t border-[color:var(--border)] pt-4"
+            >
+              <div className="grid gap-3 md:grid-cols-4">
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  工种
+                  <input
+                    value={ruleForm.workType}
+                    onChange={(event) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        workType: event.target.value,
+                      }))
+                    }
+                    list="wage-rule-work-types"
+                    placeholder="全部工种"
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                  <datalist id="wage-rule-work-types">
+                    {workTypeOptions.map((type) => (
+                      <option key={type} value={type} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  项目
+                  <select
+                    value={ruleForm.projectId}
+                    onChange={(event) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        projectId: event.target.value,
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  >
+                    <option value="">全部项目</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  日工资（元/个工）
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={ruleForm.dailyRate}
+                    onChange={(event) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        dailyRate: event.target.value,
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                  加班单价（元/小时）
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={ruleForm.overtimeRate}
+                    onChange={(event) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        overtimeRate: event.target.value,
+                      }))
+                    }
+                    className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                  />
+                </label>
+              </div>
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsRuleModalOpen(false)}
+                  className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                >
+                  取消
+                </button>
+                <button
+                  type="submit"
+                  className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background"
+                >
+                  新增规则
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,440 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useNotice } from "../components/NoticeProvider";
+import {
+  DEFAULT_WORK_UNIT_RULES,
+  WorkUnitRules,
+  computeWorkUnits,
+  describeWorkUnitRules,
+  fetchWorkUnitRules,
+  saveWorkUnitRules,
+} from "../lib/workUnits";
+import {
+  DEFAULT_TIME_ENTRY_SETTINGS,
+  fetchTimeEntrySettings,
+  saveTimeEntrySettings,
+} from "../lib/timeEntrySettings";
+import {
+  DEFAULT_STANDARD_SHIFT,
+  StandardShift,
+  fetchStandardShift,
+  getStandardShiftHours,
+  parseClockTime,
+  saveStandardShift,
+} from "../lib/shift";
+
+type WorkUnitFormState = {
+  normalHoursPerUnit: string;
+  overtimeHoursPerUnit: string;
+  minimumUnits: string;
+};
+
+const minimumUnitOptions = [
+  { value: "0", label: "不设置" },
+  { value: "0.5", label: "半个工起算" },
+  { value: "1", label: "一个工起算" },
+];
+
+function formatHours(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function formatWorkUnits(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
+
+function toFormState(rules: WorkUnitRules): WorkUnitFormState {
+  return {
+    normalHoursPerUnit: String(rules.normalHoursPerUnit),
+    overtimeHoursPerUnit: String(rules.overtimeHoursPerUnit),
+    minimumUnits: String(rules.minimumUnits),
+  };
+}
+
+function parseFormState(formState: WorkUnitFormState): WorkUnitRules | null {
+  const normalHoursPerUnit = Number(formState.normalHoursPerUnit);
+  const overtimeHoursPerUnit = Number(formState.overtimeHoursPerUnit);
+  const minimumUnits = Number(formState.minimumUnits);
+  if (
+    !Number.isFinite(normalHoursPerUnit) ||
+    !Number.isFinite(overtimeHoursPerUnit) ||
+    normalHoursPerUnit <= 0 ||
+    overtimeHoursPerUnit <= 0 ||
+    normalHoursPerUnit > 24 ||
+    overtimeHoursPerUnit > 24
+  ) {
+    return null;
+  }
+  return {
+    normalHoursPerUnit,
+    overtimeHoursPerUnit,
+    minimumUnits: Number.isFinite(minimumUnits) ? minimumUnits : 0,
+  };
+}
+
+const previewSamples = [
+  { normalHours: 4, overtimeHours: 0 },
+  { normalHours: 8, overtimeHours: 0 },
+  { normalHours: 10, overtimeHours: 0 },
+  { normalHours: 8, overtimeHours: 3 },
+];
+
+export default function SettingsPage() {
+  const [formState, setFormState] = useState<WorkUnitFormState>(() =>
+    toFormState(DEFAULT_WORK_UNIT_RULES),
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [maxDailyHours, setMaxDailyHours] = useState(
+    String(DEFAULT_TIME_ENTRY_SETTINGS.maxDailyHours),
+  );
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+  const [shiftForm, setShiftForm] = useState<StandardShift>(
+    DEFAULT_STANDARD_SHIFT,
+  );
+  const [isSavingShift, setIsSavingShift] = useState(false);
+  const { notify } = useNotice();
+  const previewRules = parseFormState(formState);
+
+  useEffect(() => {
+    loadWorkUnitRules();
+    loadTimeEntrySettings();
+    loadStandardShift();
+  }, []);
+
+  async function loadStandardShift() {
+    try {
+      setShiftForm(await fetchStandardShift());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function handleShiftSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (
+      parseClockTime(shiftForm.startTime) === null ||
+      parseClockTime(shiftForm.endTime) === null
+    ) {
+      notify("请填写有效的上下班时间。", "warning");
+      return;
+    }
+    if (
+      !Number.isFinite(shiftForm.breakMinutes) ||
+      shiftForm.breakMinutes < 0 ||
+      getStandardShiftHours(shiftForm) <= 0
+    ) {
+      notify("休息时长需小于班次时长。", "warning");
+      return;
+    }
+
+    try {
+      setIsSavingShift(true);
+      await saveStandardShift(shiftForm);
+      notify("标准班次已保存，填写上下班时间的记工将按新班次拆分工时。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSavingShift(false);
+    }
+  }
+
+  async function loadTimeEntrySettings() {
+    try {
+      const settings = await fetchTimeEntrySettings();
+      setMaxDailyHours(String(settings.maxDailyHours));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function handleLimitSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const value = Number(maxDailyHours);
+    if (!Number.isFinite(value) || value <= 0 || value > 24) {
+      notify("每日工时上限需为 0 到 24 之间的数字。", "warning");
+      return;
+    }
+
+    try {
+      setIsSavingLimit(true);
+      await saveTimeEntrySettings({ maxDailyHours: value });
+      notify("每日工时上限已保存。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSavingLimit(false);
+    }
+  }
+
+  async function loadWorkUnitRules() {
+    try {
+      setIsLoading(true);
+      const rules = await fetchWorkUnitRules();
+      setFormState(toFormState(rules));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const rules = parseFormState(formState);
+    if (!rules) {
+      notify("折算小时数需为 0 到 24 之间的数字。", "warning");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveWorkUnitRules(rules);
+      notify("记工规则已保存，各页面个工将按新规则折算。", "success");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">记工设置</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          配置本公司的个工折算规则，每日记工、日历与月度总览统一按此规则计算。
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div>
+          <p className="text-sm font-medium">个工折算规则</p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            当前规则：
+            {previewRules
+              ? describeWorkUnitRules(previewRules)
+              : "请填写有效的折算小时数"}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="mt-4 flex items-center justify-center gap-2 py-6 text-xs text-[color:var(--muted-foreground)]">
+            <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+            <span>加载中</span>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-3">
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                常规班次每个工小时数
+                <input
+                  type="number"
+                  min={0.5}
+                  max={24}
+                  step={0.5}
+                  value={formState.normalHoursPerUnit}
+                  onChange={(event) =>
+                    setFormState((prev) => ({
+                      ...prev,
+                      normalHoursPerUnit: event.target.value,
+                    }))
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                加班每个工小时数
+                <input
+                  type="number"
+                  min={0.5}
+                  max={24}
+                  step={0.5}
+                  value={formState.overtimeHoursPerUnit}
+                  onChange={(event) =>
+                    setFormState((prev) => ({
+                      ...prev,
+                      overtimeHoursPerUnit: event.target.value,
+                    }))
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+                单条记工起算
+                <select
+                  value={formState.minimumUnits}
+                  onChange={(event) =>
+                    setFormState((prev) => ({
+                      ...prev,
+                      minimumUnits: event.target.value,
+                    }))
+                  }
+                  className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                >
+                  {minimumUnitOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="rounded-md border border-[color:var(--border)] bg-[color:var(--surface-muted)] px-3 py-2 text-xs text-[color:var(--muted-foreground)]">
+              <div>折算示例</div>
+              <div className="mt-2 grid gap-1 text-foreground sm:grid-cols-2">
+                {previewSamples.map((sample) => (
+                  <div key={`${sample.normalHours}-${sample.overtimeHours}`}>
+                    常规 {formatHours(sample.normalHours)}h
+                    {sample.overtimeHours > 0 ? (
+                      <> / 加班 {formatHours(sample.overtimeHours)}h</>
+                    ) : null}
+                    <span className="mx-2 text-[color:var(--muted-foreground)]">
+                      -&gt;
+                    </span>
+                    {previewRules
+                      ? `${formatWorkUnits(
+                          computeWorkUnits(
+                            sample.normalHours,
+                            sample.overtimeHours,
+                            previewRules,
+                          ),
+                        )}个工`
+                      : "-"}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setFormState(toFormState(DEFAULT_WORK_UNIT_RULES))}
+                className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                disabled={isSaving}
+              >
+                恢复默认
+              </button>
+              <button
+                type="submit"
+                className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+                disabled={isSaving}
+              >
+                {isSaving ? "保存中..." : "保存"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div>
+          <p className="text-sm font-medium">标准班次</p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            记工填写上下班时间时，班次内的工时扣除休息后计为常规班次（最多{" "}
+            {formatHours(getStandardShiftHours(shiftForm))}h），其余计为加班。
+          </p>
+        </div>
+        <form
+          onSubmit={handleShiftSubmit}
+          className="mt-4 flex flex-wrap items-end justify-between gap-3"
+        >
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              上班时间
+              <input
+                type="time"
+                value={shiftForm.startTime}
+                onChange={(event) =>
+                  setShiftForm((prev) => ({
+                    ...prev,
+                    startTime: event.target.value,
+                  }))
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              下班时间
+              <input
+                type="time"
+                value={shiftForm.endTime}
+                onChange={(event) =>
+                  setShiftForm((prev) => ({
+                    ...prev,
+                    endTime: event.target.value,
+                  }))
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              休息分钟
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={shiftForm.breakMinutes}
+                onChange={(event) =>
+                  setShiftForm((prev) => ({
+                    ...prev,
+                    breakMinutes: Number(event.target.value),
+                  }))
+                }
+                className="h-9 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              />
+            </label>
+          </div>
+          <button
+            type="submit"
+            className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+            disabled={isSavingShift}
+          >
+            {isSavingShift ? "保存中..." : "保存"}
+          </button>
+        </form>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div>
+          <p className="text-sm font-medium">每日工时上限</p>
+          <p className="text-xs text-[color:var(--muted-foreground)]">
+            同一员工当天在各项目的常规与加班合计超过上限时，保存前会提示确认。
+          </p>
+        </div>
+        <form
+          onSubmit={handleLimitSubmit}
+          className="mt-4 flex flex-wrap items-end justify-between gap-3"
+        >
+          <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+            每人每天最多小时数
+            <input
+              type="number"
+              min={0.5}
+              max={24}
+              step={0.5}
+              value={maxDailyHours}
+              onChange={(event) => setMaxDailyHours(event.target.value)}
+              className="h-9 w-40 rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+            />
+          </label>
+          <button
+            type="submit"
+            className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+            disabled={isSavingLimit}
+          >
+            {isSavingLimit ? "保存中..." : "保存"}
+          </button>
+        </form>
+      </div>
+    </section>
+  );
+}
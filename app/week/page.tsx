@@ -0,0 +1,935 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { Clock3, Lock } from "lucide-react";
+import { useNotice } from "../components/NoticeProvider";
+import useLatestRequest from "../components/useLatestRequest";
+import usePermissions from "../components/usePermissions";
+import {
+  fetchPeriodLocks,
+  getLockedMonths,
+  isDateLocked,
+} from "../lib/periodLocks";
+import {
+  Employee,
+  Project,
+  TimeEntry,
+  TimeEntryBulkChanges,
+  resources,
+} from "../lib/resources";
+
+type CellField = "normal" | "overtime";
+
+type CellDraft = Record<CellField, string>;
+
+type CellResult = {
+  status: "success" | "failed";
+  message?: string;
+};
+
+type GridChange = {
+  key: string;
+  type: "create" | "update" | "delete";
+  employee: Employee;
+  date: string;
+  entryId?: string;
+  before?: { normalHours: number; overtimeHours: number };
+  after: { normalHours: number; overtimeHours: number };
+};
+
+const WEEKDAY_LABELS = ["一", "二", "三", "四", "五", "六", "日"];
+const CELL_FIELDS: CellField[] = ["normal", "overtime"];
+const changeTypeLabels: Record<GridChange["type"], string> = {
+  create: "新增",
+  update: "修改",
+  delete: "删除",
+};
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+function parseDateKey(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function getWeekStart(date: Date) {
+  const offset = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+function shiftDateKey(key: string, days: number) {
+  const date = parseDateKey(key);
+  return toDateKey(
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days),
+  );
+}
+
+function formatHours(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function toCellKey(employeeId: string, date: string) {
+  return `${employeeId}|${date}`;
+}
+
+function parseHoursInput(value: string) {
+  const text = value.trim();
+  if (!text) {
+    return 0;
+  }
+  const parsed = Number(text);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 24) {
+    return null;
+  }
+  return parsed;
+}
+
+// 解析从 Excel 复制的区块：行以换行分隔、列以制表符分隔，忽略末尾空行。
+function parseClipboardBlock(text: string) {
+  const rows = text.replace(/\r/g, "").split("\n");
+  while (rows.length > 0 && rows[rows.length - 1] === "") {
+    rows.pop();
+  }
+  return rows.map((row) => row.split("\t"));
+}
+
+export default function WeekEntryPage() {
+  const [weekStart, setWeekStart] = useState(() =>
+    toDateKey(getWeekStart(new Date())),
+  );
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [hasLoadedProjects, setHasLoadedProjects] = useState(false);
+  const [selectedWorkType, setSelectedWorkType] = useState("");
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, CellDraft>>({});
+  const [cellResults, setCellResults] = useState<Record<string, CellResult>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const { notify, confirm } = useNotice();
+  const { can, canRecordFor } = usePermissions();
+  const beginRequest = useLatestRequest();
+
+  const weekDates = useMemo(
+    () => Array.from({ length: 7 }, (_, index) => shiftDateKey(weekStart, index)),
+    [weekStart],
+  );
+  const weekEnd = weekDates[weekDates.length - 1];
+  const workTypeOptions = useMemo(() => {
+    const set = new Set<string>();
+    employees.forEach((employee) => {
+      if (employee.workType) {
+        set.add(employee.workType);
+      }
+    });
+    if (selectedWorkType) {
+      set.add(selectedWorkType);
+    }
+    return Array.from(set);
+  }, [employees, selectedWorkType]);
+  const visibleEmployees = useMemo(
+    () =>
+      employees.filter(
+        (employee) =>
+          canRecordFor(employee.id) &&
+          (!selectedWorkType || employee.workType === selectedWorkType),
+      ),
+    [employees, selectedWorkType, canRecordFor],
+  );
+  // 未按项目筛选时同一员工同一天可能有多条记录，这类单元格只读并显示条数。
+  const entryMap = useMemo(() => {
+    const map = new Map<string, TimeEntry[]>();
+    entries.forEach((entry) => {
+      const key = toCellKey(entry.employeeId, entry.date.slice(0, 10));
+      map.set(key, [...(map.get(key) ?? []), entry]);
+    });
+    return map;
+  }, [entries]);
+
+  const { changes, invalidKeys } = useMemo(() => {
+    const list: GridChange[] = [];
+    const invalid = new Set<string>();
+    const employeeMap = new Map(
+      employees.map((employee) => [employee.id, employee] as const),
+    );
+    Object.entries(drafts).forEach(([key, draft]) => {
+      const [employeeId, date] = key.split("|");
+      const employee = employeeMap.get(employeeId);
+      if (!employee) {
+        return;
+      }
+      const normalHours = parseHoursInput(draft.normal);
+      const overtimeHours = parseHoursInput(draft.overtime);
+      if (normalHours === null || overtimeHours === null) {
+        invalid.add(key);
+        return;
+      }
+      const cellEntries = entryMap.get(key) ?? [];
+      if (cellEntries.length > 1) {
+        return;
+      }
+      const original = cellEntries[0];
+      const after = { normalHours, overtimeHours };
+      if (!original) {
+        if (normalHours + overtimeHours > 0) {
+          list.push({ key, type: "create", employee, date, after });
+        }
+        return;
+      }
+      const before = {
+        normalHours: original.normalHours,
+        overtimeHours: original.overtimeHours,
+      };
+      if (normalHours + overtimeHours === 0) {
+        list.push({
+          key,
+          type: "delete",
+          employee,
+          date,
+          entryId: original.id,
+          before,
+          after,
+        });
+        return;
+      }
+      if (
+        normalHours !== original.normalHours ||
+        overtimeHours !== original.overtimeHours
+      ) {
+        list.push({
+          key,
+          type: "update",
+          employee,
+          date,
+          entryId: original.id,
+          before,
+          after,
+        });
+      }
+    });
+    list.sort((left, right) =>
+      left.date === right.date
+        ? left.employee.name.localeCompare(right.employee.name, "zh-CN")
+        : left.date.localeCompare(right.date),
+    );
+    return { changes: list, invalidKeys: invalid };
+  }, [drafts, employees, entryMap]);
+  const changeKeySet = useMemo(
+    () => new Set(changes.map((change) => change.key)),
+    [changes],
+  );
+
+  // 项目加载完成并选中默认项目后才取记录，避免未筛选的请求覆盖按项目筛选的结果。
+  const loadEntries = useCallback(async () => {
+    const signal = beginRequest("entries");
+    if (!hasLoadedProjects) {
+      return;
+    }
+    if (projects.length > 0 && !selectedProjectId) {
+      setEntries([]);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setIsLoading(true);
+      const list = await resources.timeEntries.listAll(
+        {
+          startDate: weekStart,
+          endDate: shiftDateKey(weekStart, 6),
+          projectId: selectedProjectId,
+        },
+        signal,
+      );
+      if (signal.aborted) {
+        return;
+      }
+      setEntries(list);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(error);
+      const message =
+        error instanceof Error ? error.message : "加载记工失败，请稍后再试。";
+      notify(message, "error");
+      setEntries([]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [
+    beginRequest,
+    hasLoadedProjects,
+    notify,
+    projects.length,
+    selectedProjectId,
+    weekStart,
+  ]);
+
+  useEffect(() => {
+    loadEmployees();
+    loadProjects();
+    loadPeriodLocks();
+  }, []);
+
+  async function loadPeriodLocks() {
+    try {
+      setLockedMonths(getLockedMonths(await fetchPeriodLocks()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  async function loadEmployees() {
+    try {
+      setEmployees(await resources.employees.listOptions());
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  async function loadProjects() {
+    try {
+      const list = await resources.projects.listOptions();
+      setProjects(list);
+      setSelectedProjectId((prev) => prev || list[0]?.id || "");
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setHasLoadedProjects(true);
+    }
+  }
+
+  async function confirmDiscardDrafts() {
+    if (Object.keys(drafts).length === 0) {
+      return true;
+    }
+    return confirm("当前有未保存的修改，确认放弃吗？");
+  }
+
+  async function changeWeek(nextWeekStart: string) {
+    if (!(await confirmDiscardDrafts())) {
+      return;
+    }
+    setDrafts({});
+    setCellResults({});
+    setWeekStart(nextWeekStart);
+  }
+
+  async function changeProject(projectId: string) {
+    if (!(await confirmDiscardDrafts())) {
+      return;
+    }
+    setDrafts({});
+    setCellResults({});
+    setSelectedProjectId(projectId);
+  }
+
+  function getCellValue(key: string): CellDraft {
+    const draft = drafts[key];
+    if (draft) {
+      return draft;
+    }
+    const cellEntries = entryMap.get(key) ?? [];
+    if (cellEntries.length === 0) {
+      return { normal: "", overtime: "" };
+    }
+    return {
+      normal: formatHours(
+        cellEntries.reduce((sum, entry) => sum + entry.normalHours, 0),
+      ),
+      overtime: formatHours(
+        cellEntries.reduce((sum, entry) => sum + entry.overtimeHours, 0),
+      ),
+    };
+  }
+
+  function isMultiEntryCell(key: string) {
+    return (entryMap.get(key)?.length ?? 0) > 1;
+  }
+
+  function updateCell(key: string, field: CellField, value: string) {
+    setDrafts((prev) => ({
+      ...prev,
+      [key]: { ...(prev[key] ?? getCellValue(key)), [field]: value },
+    }));
+  }
+
+  function focusCell(row: number, col: number) {
+    const input = gridRef.current?.querySelector<HTMLInputElement>(
+      `input[data-row="${row}"][data-col="${col}"]`,
+    );
+    input?.focus();
+    input?.select();
+  }
+
+  function handleCellKeyDown(
+    event: React.KeyboardEvent<HTMLInputElement>,
+    row: number,
+    col: number,
+  ) {
+    let nextRow = row;
+    let nextCol = col;
+    switch (event.key) {
+      case "ArrowUp":
+        nextRow -= 1;
+        break;
+      case "ArrowDown":
+        nextRow += 1;
+        break;
+      case "Enter":
+        nextRow += event.shiftKey ? -1 : 1;
+        break;
+      case "ArrowLeft":
+        nextCol -= 1;
+        break;
+      case "ArrowRight":
+        nextCol += 1;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    const maxCol = weekDates.length * CELL_FIELDS.length - 1;
+    focusCell(
+      Math.min(Math.max(nextRow, 0), visibleEmployees.length - 1),
+      Math.min(Math.max(nextCol, 0), maxCol),
+    );
+  }
+
+  function handleCellPaste(
+    event: React.ClipboardEvent<HTMLInputElement>,
+    row: number,
+    col: number,
+  ) {
+    const text = event.clipboardData.getData("text/plain");
+    if (!/[\t\n]/.test(text.replace(/\r?\n$/, ""))) {
+      return;
+    }
+    event.preventDefault();
+    const block = parseClipboardBlock(text);
+    const maxCol = weekDates.length * CELL_FIELDS.length;
+    const updates: { key: string; field: CellField; value: string }[] = [];
+    block.forEach((values, rowOffset) => {
+      const employee = visibleEmployees[row + rowOffset];
+      if (!employee) {
+        return;
+      }
+      values.forEach((value, colOffset) => {
+        const targetCol = col + colOffset;
+        if (targetCol >= maxCol) {
+          return;
+        }
+        const key = toCellKey(
+          employee.id,
+          weekDates[Math.floor(targetCol / CELL_FIELDS.length)],
+        );
+        if (isMultiEntryCell(key)) {
+          return;
+        }
+        updates.push({
+          key,
+          field: CELL_FIELDS[targetCol % CELL_FIELDS.length],
+          value: value.trim(),
+        });
+      });
+    });
+    if (updates.length === 0) {
+      return;
+    }
+    setDrafts((prev) => {
+      const next = { ...prev };
+      updates.forEach(({ key, field, value }) => {
+        next[key] = { ...(next[key] ?? getCellValue(key)), [field]: value };
+      });
+      return next;
+    });
+    notify(`已粘贴 ${updates.length} 个单元格。`, "info");
+  }
+
+  function openPreview() {
+    if (invalidKeys.size > 0) {
+      notify("存在无效工时（需为 0 到 24 之间的数字），请先修正标红的单元格。", "warning");
+      return;
+    }
+    if (changes.length === 0) {
+      notify("没有需要保存的修改。", "info");
+      return;
+    }
+    const lockedChange = changes.find((change) =>
+      isDateLocked(lockedMonths, change.date),
+    );
+    if (lockedChange) {
+      notify(
+        `${lockedChange.date.slice(0, 7)} 已锁定，不能修改该月记工。`,
+        "warning",
+      );
+      return;
+    }
+    if (!can("delete") && changes.some((change) => change.type === "delete")) {
+      notify("当前账号无删除权限，请勿清空已有记工。", "warning");
+      return;
+    }
+    if (projects.length > 0 && !selectedProjectId) {
+      notify("请选择项目。", "warning");
+      return;
+    }
+    setIsPreviewOpen(true);
+  }
+
+  async function handleSave() {
+    const bulkChanges: TimeEntryBulkChanges = {
+      create: changes
+        .filter((change) => change.type === "create")
+        .map((change) => ({
+          key: change.key,
+          employeeId: change.employee.id,
+          date: change.date,
+          projectId: selectedProjectId,
+          normalHours: change.after.normalHours,
+          overtimeHours: change.after.overtimeHours,
+        })),
+      update: changes
+        .filter((change) => change.type === "update")
+        .map((change) => ({
+          key: change.key,
+          id: change.entryId ?? "",
+          normalHours: change.after.normalHours,
+          overtimeHours: change.after.overtimeHours,
+        })),
+      delete: changes
+        .filter((change) => change.type === "delete")
+        .map((change) => ({ key: change.key, id: change.entryId ?? "" })),
+    };
+
+    try {
+      setIsSaving(true);
+      const results = new Map(
+        (await resources.timeEntries.bulk(bulkChanges)).map(
+          (item) => [item.key, item] as const,
+        ),
+      );
+      const nextResults: Record<string, CellResult> = {};
+      const failedDrafts: Record<string, CellDraft> = {};
+      changes.forEach((change) => {
+        const bulkResult = results.get(change.key);
+        const result: CellResult =
+          bulkResult && !bulkResult.success
+            ? { status: "failed", message: bulkResult.message }
+            : { status: "success" };
+        nextResults[change.key] = result;
+        if (result.status === "failed" && drafts[change.key]) {
+          failedDrafts[change.key] = drafts[change.key];
+        }
+      });
+      const failedCount = Object.keys(failedDrafts).length;
+      const successCount = changes.length - failedCount;
+
+      setCellResults(nextResults);
+      setDrafts(failedDrafts);
+      setIsPreviewOpen(false);
+      await loadEntries();
+
+      if (failedCount === 0) {
+        notify(`保存成功，共处理 ${successCount} 个单元格。`, "success");
+      } else if (successCount === 0) {
+        notify(`保存失败，${failedCount} 个单元格未能保存，请查看标红的单元格。`, "error");
+      } else {
+        notify(
+          `部分保存成功，成功 ${successCount} 个，失败 ${failedCount} 个，请查看标红的单元格。`,
+          "warning",
+        );
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "保存失败，请稍后再试。";
+      notify(message, "error");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold">按周录入</h1>
+        <p className="text-sm text-[color:var(--muted-foreground)]">
+          像表格一样逐格录入一周的常规与加班小时，支持从 Excel 粘贴整块数据，保存前可预览改动。
+          <Link
+            href="/"
+            className="ml-2 inline-flex items-center gap-1 rounded-md border border-[color:var(--border)] px-2 py-0.5 text-[11px] text-foreground hover:bg-[color:var(--surface-muted)]"
+          >
+            返回每日记工
+          </Link>
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              周次
+              <div className="flex h-8 items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => changeWeek(shiftDateKey(weekStart, -7))}
+                  className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                >
+                  上周
+                </button>
+                <span className="text-sm text-foreground">
+                  {weekStart} ~ {weekEnd}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => changeWeek(shiftDateKey(weekStart, 7))}
+                  className="text-xs text-[color:var(--muted-foreground)] hover:text-foreground"
+                >
+                  下周
+                </button>
+              </div>
+            </div>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              项目
+              <select
+                value={selectedProjectId}
+                onChange={(event) => changeProject(event.target.value)}
+                className="h-8 min-w-[160px] rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+                disabled={projects.length === 0}
+              >
+                {projects.length === 0 ? (
+                  <option value="">暂无项目</option>
+                ) : (
+                  <>
+                    <option value="">请选择项目</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </>
+                )}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[color:var(--muted-foreground)]">
+              工种
+              <select
+                value={selectedWorkType}
+                onChange={(event) => setSelectedWorkType(event.target.value)}
+                className="h-8 min-w-[120px] rounded-md border border-[color:var(--border)] bg-transparent px-2 text-sm text-foreground"
+              >
+                <option value="">全部工种</option>
+                {workTypeOptions.map((workType) => (
+                  <option key={workType} value={workType}>
+                    {workType}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-[color:var(--muted-foreground)]">
+              待保存 {changes.length} 格
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                setDrafts({});
+                setCellResults({});
+              }}
+              className="h-8 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)] hover:text-foreground disabled:opacity-50"
+              disabled={Object.keys(drafts).length === 0}
+            >
+              撤销修改
+            </button>
+            <button
+              type="button"
+              onClick={openPreview}
+              className="h-8 rounded-md bg-foreground px-3 text-xs font-medium text-background transition hover:opacity-90 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              预览并保存
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="mt-4 flex items-center justify-center gap-2 py-10 text-xs text-[color:var(--muted-foreground)]">
+            <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--border)] border-t-foreground" />
+            <span>加载中</span>
+          </div>
+        ) : projects.length > 0 && !selectedProjectId ? (
+          <div className="mt-4 py-10 text-center text-xs text-[color:var(--muted-foreground)]">
+            请先选择项目
+          </div>
+        ) : visibleEmployees.length === 0 ? (
+          <div className="mt-4 py-10 text-center text-xs text-[color:var(--muted-foreground)]">
+            暂无员工
+          </div>
+        ) : (
+          <div ref={gridRef} className="mt-4 overflow-x-auto">
+            <table className="w-full border-collapse text-center text-[11px]">
+              <thead className="text-[color:var(--muted-foreground)]">
+                <tr>
+                  <th
+                    rowSpan={2}
+                    className="sticky left-0 z-10 min-w-[88px] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 py-1 text-left font-medium"
+                  >
+                    员工
+                  </th>
+                  {weekDates.map((date, index) => (
+                    <th
+                      key={date}
+                      colSpan={2}
+                      className={`border border-[color:var(--border)] px-1 py-1 font-medium ${
+                        index >= 5 ? "bg-[color:var(--surface-muted)]" : ""
+                      }`}
+                    >
+                      {isDateLocked(lockedMonths, date) ? (
+                        <Lock
+                          className="mr-0.5 inline h-2.5 w-2.5 align-baseline"
+                          aria-label="已锁定"
+                        />
+                      ) : null}
+                      <span className="text-foreground">{date.slice(5)}</span> 周
+                      {WEEKDAY_LABELS[index]}
+                    </th>
+                  ))}
+                  <th
+                    rowSpan={2}
+                    className="min-w-[52px] border border-[color:var(--border)] px-2 py-1 font-medium"
+                  >
+                    合计(h)
+                  </th>
+                </tr>
+                <tr>
+                  {weekDates.map((date) =>
+                    CELL_FIELDS.map((field) => (
+                      <th
+                        key={`${date}-${field}`}
+                        className="border border-[color:var(--border)] px-1 py-0.5 text-[10px] font-normal"
+                      >
+                        {field === "normal" ? "常规" : "加班"}
+                      </th>
+                    )),
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEmployees.map((employee, rowIndex) => {
+                  let rowTotal = 0;
+                  const cells = weekDates.map((date, dayIndex) => {
+                    const key = toCellKey(employee.id, date);
+                    const value = getCellValue(key);
+                    rowTotal +=
+                      (parseHoursInput(value.normal) ?? 0) +
+                      (parseHoursInput(value.overtime) ?? 0);
+                    const result = cellResults[key];
+                    const isInvalid = invalidKeys.has(key);
+                    const isChanged = changeKeySet.has(key);
+                    const entryCount = entryMap.get(key)?.length ?? 0;
+                    const isMultiEntry = entryCount > 1;
+                    const stateClass =
+                      isInvalid || result?.status === "failed"
+                        ? "bg-red-50 text-red-600"
+                        : isChanged
+                          ? "bg-amber-50 text-amber-700"
+                          : result?.status === "success"
+                            ? "bg-emerald-50 text-emerald-700"
+                            : "text-foreground";
+                    return CELL_FIELDS.map((field, fieldIndex) => (
+                      <td
+                        key={`${key}-${field}`}
+                        className={`relative border border-[color:var(--border)] p-0 ${
+                          dayIndex >= 5 ? "bg-[color:var(--surface-muted)]" : ""
+                        }`}
+                      >
+                        {isMultiEntry && fieldIndex === 0 ? (
+                          <span className="pointer-events-none absolute right-0.5 top-0 text-[8px] leading-none text-[color:var(--muted-foreground)]">
+                            {entryCount}条
+                          </span>
+                        ) : null}
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={value[field]}
+                          readOnly={
+                            isMultiEntry || isDateLocked(lockedMonths, date)
+                          }
+                          data-row={rowIndex}
+                          data-col={dayIndex * CELL_FIELDS.length + fieldIndex}
+                          onChange={(event) =>
+                            updateCell(key, field, event.target.value)
+                          }
+                          onKeyDown={(event) =>
+                            handleCellKeyDown(
+                              event,
+                              rowIndex,
+                              dayIndex * CELL_FIELDS.length + fieldIndex,
+                            )
+                          }
+                          onPaste={(event) =>
+                            handleCellPaste(
+                              event,
+                              rowIndex,
+                              dayIndex * CELL_FIELDS.length + fieldIndex,
+                            )
+                          }
+                          onFocus={(event) => event.currentTarget.select()}
+                          title={
+                            result?.status === "failed"
+                              ? result.message
+                              : isMultiEntry
+                                ? `当天共 ${entryCount} 条记工，请在记工列表中逐条修改`
+                                : undefined
+                          }
+                          className={`h-7 w-11 bg-transparent px-1 text-center outline-none focus:ring-1 focus:ring-inset focus:ring-[color:var(--foreground)] ${stateClass}`}
+                        />
+                      </td>
+                    ));
+                  });
+                  return (
+                    <tr key={employee.id}>
+                      <td className="sticky left-0 z-10 whitespace-nowrap border border-[color:var(--border)] bg-[color:var(--surface)] px-2 py-1 text-left text-foreground">
+                        <span className="inline-flex items-center gap-1">
+                          <span>{employee.name}</span>
+                          {employee.type === "临时工" ? (
+                            <Clock3
+                              className="h-3 w-3 text-amber-500"
+                              aria-label="临时工标记"
+                            />
+                          ) : null}
+                        </span>
+                      </td>
+                      {cells}
+                      <td className="border border-[color:var(--border)] px-2 py-1 font-medium text-foreground">
+                        {formatHours(rowTotal)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="mt-3 text-[10px] text-[color:var(--muted-foreground)]">
+          Tab / 方向键切换单元格，Enter 下移；从 Excel 复制的区块会以当前单元格为左上角依次填入（每天两列：常规、加班）。清空某天的小时数保存后将删除该条记工。
+        </p>
+      </div>
+
+      {isPreviewOpen ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-2xl rounded-lg border border-[color:var(--border)] bg-[color:var(--surface)] p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-semibold">确认保存</h3>
+              <button
+                type="button"
+                onClick={() => setIsPreviewOpen(false)}
+                className="text-xs text-[color:var(--muted-foreground)]"
+                disabled={isSaving}
+              >
+                关闭
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-[color:var(--muted-foreground)]">
+              新增 {changes.filter((change) => change.type === "create").length} 条，修改{" "}
+              {changes.filter((change) => change.type === "update").length} 条，删除{" "}
+              {changes.filter((change) => change.type === "delete").length} 条。
+            </p>
+            <div className="mt-3 max-h-80 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[color:var(--muted-foreground)]">
+                  <tr>
+                    <th className="pb-1 font-medium">日期</th>
+                    <th className="pb-1 font-medium">员工</th>
+                    <th className="pb-1 font-medium">操作</th>
+                    <th className="pb-1 font-medium">原工时</th>
+                    <th className="pb-1 font-medium">新工时</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((change) => (
+                    <tr
+                      key={change.key}
+                      className="border-t border-[color:var(--border)]"
+                    >
+                      <td className="whitespace-nowrap py-1.5 text-foreground">
+                        {change.date}
+                      </td>
+                      <td className="py-1.5 text-foreground">
+                        {change.employee.name}
+                      </td>
+                      <td
+                        className={`py-1.5 ${
+                          change.type === "delete"
+                            ? "text-red-500"
+                            : change.type === "create"
+                              ? "text-emerald-600"
+                              : "text-amber-600"
+                        }`}
+                      >
+                        {changeTypeLabels[change.type]}
+                      </td>
+                      <td className="whitespace-nowrap py-1.5 text-[color:var(--muted-foreground)]">
+                        {change.before
+                          ? `${formatHours(change.before.normalHours)}h / ${formatHours(
+                              change.before.overtimeHours,
+                            )}h`
+                          : "-"}
+                      </td>
+                      <td className="whitespace-nowrap py-1.5 text-foreground">
+                        {change.type === "delete"
+                          ? "-"
+                          : `${formatHours(change.after.normalHours)}h / ${formatHours(
+                              change.after.overtimeHours,
+                            )}h`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="mt-4 flex items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setIsPreviewOpen(false)}
+                className="h-9 rounded-md border border-[color:var(--border)] px-3 text-xs text-[color:var(--muted-foreground)]"
+                disabled={isSaving}
+              >
+                继续编辑
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                className="h-9 rounded-md bg-foreground px-3 text-xs font-medium text-background disabled:opacity-50"
+                disabled={isSaving}
+              >
+                {isSaving ? "保存中..." : "确认保存"}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    // 页面测试在文件头用 @vitest-environment jsdom 切换环境，其余默认跑在 node 中。
+    environment: "node",
+    setupFiles: ["./vitest.setup.ts"],
+    testTimeout: 15000,
+  },
+});
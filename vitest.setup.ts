@@ -0,0 +1,14 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+import { clearQueryCache } from "./app/lib/queryCache";
+
+afterEach(() => {
+  if (typeof window !== "undefined") {
+    cleanup();
+    window.localStorage.clear();
+  }
+  clearQueryCache();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});